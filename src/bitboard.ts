@@ -0,0 +1,352 @@
+import { Action, Board, GameState, Player, getOpponent, getRelativeWinningLines, getRules } from "./game";
+import { RuleSet } from "./rules";
+import { PositionKey, ZobristTables, getZobristTables, hashState, placedIndex, toPositionKey } from "./zobrist";
+
+// Bitboard representation of a game position: one bit mask per player, the
+// active-window offset and the placement counters. Actions are encoded as
+// small integers so the search can generate, apply and undo them in place
+// without allocating.
+
+export interface BitboardTables {
+  readonly rules: RuleSet;
+  readonly cellCount: number;
+  readonly fullMask: number;
+  /** Number of distinct window offsets along one axis. */
+  readonly windowSpan: number;
+  /** Indexed by `activeY * windowSpan + activeX`. */
+  readonly windowMasks: number[];
+  readonly windowCells: number[][];
+  readonly winMasks: number[][];
+  readonly zobrist: ZobristTables;
+}
+
+export interface Bitboard {
+  x: number;
+  o: number;
+  activeX: number;
+  activeY: number;
+  placedX: number;
+  placedO: number;
+  /** Zobrist hash halves (without the side to move), kept up to date by apply/undo. */
+  hashHi: number;
+  hashLo: number;
+  readonly tables: BitboardTables;
+}
+
+export const MOVE_PLACE = 0;
+export const MOVE_MOVE = 1;
+export const MOVE_SHIFT = 2;
+export const MOVE_PASS = 3;
+
+export const OUTCOME_NONE = 0;
+export const OUTCOME_X_WINS = 1;
+export const OUTCOME_O_WINS = 2;
+export const OUTCOME_DRAW = 3;
+export type BitboardOutcome = typeof OUTCOME_NONE | typeof OUTCOME_X_WINS | typeof OUTCOME_O_WINS | typeof OUTCOME_DRAW;
+
+// Same order as getShiftActions so both cores search moves identically.
+const SHIFT_DIRECTIONS: [number, number][] = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+  [-1, -1],
+  [1, -1],
+  [-1, 1],
+  [1, 1]
+];
+
+export const encodePlace = (index: number): number => index << 2;
+export const encodeMove = (from: number, to: number): number => MOVE_MOVE | (from << 2) | (to << 8);
+export const encodeShift = (dx: number, dy: number): number => MOVE_SHIFT | ((dx + 1) << 2) | ((dy + 1) << 4);
+
+export const getMoveType = (move: number): number => move & 3;
+
+/** Bitboards need one bit per cell in a 32-bit mask. */
+export const supportsBitboard = (rules: RuleSet): boolean => rules.boardSize * rules.boardSize <= 32;
+
+const tableCache = new WeakMap<RuleSet, BitboardTables>();
+
+export const getBitboardTables = (rules: RuleSet): BitboardTables => {
+  const cached = tableCache.get(rules);
+  if (cached) {
+    return cached;
+  }
+  if (!supportsBitboard(rules)) {
+    throw new Error(`Rule set "${rules.name}" is too large for the bitboard core`);
+  }
+  const { boardSize, activeSize } = rules;
+  const cellCount = boardSize * boardSize;
+  const windowSpan = boardSize - activeSize + 1;
+  const lines = getRelativeWinningLines(rules);
+  const windowMasks: number[] = [];
+  const windowCells: number[][] = [];
+  const winMasks: number[][] = [];
+  for (let activeY = 0; activeY < windowSpan; activeY++) {
+    for (let activeX = 0; activeX < windowSpan; activeX++) {
+      const cells: number[] = [];
+      let mask = 0;
+      for (let row = 0; row < activeSize; row++) {
+        for (let col = 0; col < activeSize; col++) {
+          const index = (activeY + row) * boardSize + activeX + col;
+          cells.push(index);
+          mask = (mask | (1 << index)) >>> 0;
+        }
+      }
+      windowCells.push(cells);
+      windowMasks.push(mask);
+      winMasks.push(
+        lines.map((line) =>
+          line.reduce((lineMask, [row, col]) => (lineMask | (1 << ((activeY + row) * boardSize + activeX + col))) >>> 0, 0)
+        )
+      );
+    }
+  }
+  const tables: BitboardTables = {
+    rules,
+    cellCount,
+    fullMask: cellCount === 32 ? 0xffffffff : ((1 << cellCount) - 1) >>> 0,
+    windowSpan,
+    windowMasks,
+    windowCells,
+    winMasks,
+    zobrist: getZobristTables(rules)
+  };
+  tableCache.set(rules, tables);
+  return tables;
+};
+
+// ── Converters ──────────────────────────────────────────────────────
+
+export const toBitboard = (state: GameState): Bitboard => {
+  const tables = getBitboardTables(getRules(state));
+  let x = 0;
+  let o = 0;
+  for (let index = 0; index < state.board.length; index++) {
+    const cell = state.board[index];
+    if (cell === "X") {
+      x = (x | (1 << index)) >>> 0;
+    } else if (cell === "O") {
+      o = (o | (1 << index)) >>> 0;
+    }
+  }
+  const hash = hashState(state);
+  return {
+    x,
+    o,
+    activeX: state.activeX,
+    activeY: state.activeY,
+    placedX: state.placementsByPlayer.X,
+    placedO: state.placementsByPlayer.O,
+    hashHi: hash.hi,
+    hashLo: hash.lo,
+    tables
+  };
+};
+
+/** Overwrite `target` with the position held in `board`, reusing its board array. */
+export const writeGameState = (board: Bitboard, target: GameState): GameState => {
+  const { cellCount, rules } = board.tables;
+  const cells = target.board;
+  cells.length = cellCount;
+  for (let index = 0; index < cellCount; index++) {
+    const bit = 1 << index;
+    cells[index] = board.x & bit ? "X" : board.o & bit ? "O" : " ";
+  }
+  target.activeX = board.activeX;
+  target.activeY = board.activeY;
+  target.placementsByPlayer.X = board.placedX;
+  target.placementsByPlayer.O = board.placedO;
+  target.rules = rules;
+  return target;
+};
+
+export const fromBitboard = (board: Bitboard): GameState =>
+  writeGameState(board, {
+    board: [] as Board,
+    activeX: 0,
+    activeY: 0,
+    placementsByPlayer: { X: 0, O: 0 }
+  });
+
+export const cloneBitboard = (board: Bitboard): Bitboard => ({ ...board });
+
+export const encodeAction = (action: Action): number => {
+  if (action.type === "place") return encodePlace(action.index);
+  if (action.type === "move") return encodeMove(action.from, action.to);
+  if (action.type === "pass") return MOVE_PASS;
+  return encodeShift(action.dx, action.dy);
+};
+
+export const decodeMove = (move: number): Action => {
+  const type = getMoveType(move);
+  if (type === MOVE_PLACE) {
+    return { type: "place", index: move >> 2 };
+  }
+  if (type === MOVE_MOVE) {
+    return { type: "move", from: (move >> 2) & 63, to: (move >> 8) & 63 };
+  }
+  if (type === MOVE_PASS) {
+    return { type: "pass" };
+  }
+  return { type: "shift", dx: ((move >> 2) & 3) - 1, dy: ((move >> 4) & 3) - 1 };
+};
+
+// ── Keys ────────────────────────────────────────────────────────────
+
+/** Same key `getPositionKey` gives for the equivalent `GameState`. */
+export const getBitboardKey = (board: Bitboard, player: Player): PositionKey =>
+  toPositionKey({ hi: board.hashHi, lo: board.hashLo }, player, board.tables.zobrist);
+
+/** Produces the same string as `getStateKey` without converting the position. */
+export const getBitboardStateKey = (board: Bitboard, player: Player): string => {
+  let key = "";
+  for (let index = 0; index < board.tables.cellCount; index++) {
+    const bit = 1 << index;
+    key += board.x & bit ? "X" : board.o & bit ? "O" : " ";
+  }
+  return `${key}|${board.activeX},${board.activeY}|${player}|${board.placedX},${board.placedO}`;
+};
+
+// ── Move generation ─────────────────────────────────────────────────
+
+/**
+ * Fill `out` with the legal moves for `player`, in the same order as
+ * `getAvailableActions`: placements, peg moves, then shifts.
+ */
+export const generateMoves = (board: Bitboard, player: Player, out: number[]): number[] => {
+  out.length = 0;
+  const { rules, windowSpan, windowCells } = board.tables;
+  const own = player === "X" ? board.x : board.o;
+  const occupied = board.x | board.o;
+  const placed = player === "X" ? board.placedX : board.placedO;
+  const cells = windowCells[board.activeY * windowSpan + board.activeX];
+
+  if (placed < rules.piecesPerPlayer) {
+    for (let i = 0; i < cells.length; i++) {
+      if (!(occupied & (1 << cells[i]))) {
+        out.push(encodePlace(cells[i]));
+      }
+    }
+  }
+
+  if (placed < rules.placementsBeforeMovement) {
+    return out;
+  }
+
+  for (let from = 0; from < board.tables.cellCount; from++) {
+    if (!(own & (1 << from))) continue;
+    for (let i = 0; i < cells.length; i++) {
+      if (!(occupied & (1 << cells[i]))) {
+        out.push(encodeMove(from, cells[i]));
+      }
+    }
+  }
+
+  const maxOffset = windowSpan - 1;
+  for (let i = 0; i < SHIFT_DIRECTIONS.length; i++) {
+    const [dx, dy] = SHIFT_DIRECTIONS[i];
+    const targetX = board.activeX + dx;
+    const targetY = board.activeY + dy;
+    if (targetX >= 0 && targetX <= maxOffset && targetY >= 0 && targetY <= maxOffset) {
+      out.push(encodeShift(dx, dy));
+    }
+  }
+  return out;
+};
+
+// ── Apply / undo in place ───────────────────────────────────────
+
+const togglePiece = (board: Bitboard, player: Player, index: number): void => {
+  const { zobrist } = board.tables;
+  const feature = (player === "X" ? 0 : zobrist.cellCount) + index;
+  if (player === "X") {
+    board.x = (board.x ^ (1 << index)) >>> 0;
+  } else {
+    board.o = (board.o ^ (1 << index)) >>> 0;
+  }
+  board.hashHi = (board.hashHi ^ zobrist.pieceHi[feature]) >>> 0;
+  board.hashLo = (board.hashLo ^ zobrist.pieceLo[feature]) >>> 0;
+};
+
+const setPlacements = (board: Bitboard, player: Player, placements: number): void => {
+  const { zobrist } = board.tables;
+  const current = player === "X" ? board.placedX : board.placedO;
+  const before = placedIndex(zobrist, player, current);
+  const after = placedIndex(zobrist, player, placements);
+  board.hashHi = (board.hashHi ^ zobrist.placedHi[before] ^ zobrist.placedHi[after]) >>> 0;
+  board.hashLo = (board.hashLo ^ zobrist.placedLo[before] ^ zobrist.placedLo[after]) >>> 0;
+  if (player === "X") {
+    board.placedX = placements;
+  } else {
+    board.placedO = placements;
+  }
+};
+
+const moveWindow = (board: Bitboard, dx: number, dy: number): void => {
+  const { zobrist, windowSpan } = board.tables;
+  const before = board.activeY * windowSpan + board.activeX;
+  board.activeX += dx;
+  board.activeY += dy;
+  const after = board.activeY * windowSpan + board.activeX;
+  board.hashHi = (board.hashHi ^ zobrist.windowHi[before] ^ zobrist.windowHi[after]) >>> 0;
+  board.hashLo = (board.hashLo ^ zobrist.windowLo[before] ^ zobrist.windowLo[after]) >>> 0;
+};
+
+/** Apply a legal encoded move for `player`. No validation is performed. */
+export const applyMove = (board: Bitboard, move: number, player: Player): void => {
+  const type = move & 3;
+  if (type === MOVE_PLACE) {
+    togglePiece(board, player, move >> 2);
+    setPlacements(board, player, (player === "X" ? board.placedX : board.placedO) + 1);
+  } else if (type === MOVE_MOVE) {
+    togglePiece(board, player, (move >> 2) & 63);
+    togglePiece(board, player, (move >> 8) & 63);
+  } else if (type === MOVE_SHIFT) {
+    moveWindow(board, ((move >> 2) & 3) - 1, ((move >> 4) & 3) - 1);
+  }
+};
+
+/** Reverse `applyMove(board, move, player)`. */
+export const undoMove = (board: Bitboard, move: number, player: Player): void => {
+  const type = move & 3;
+  if (type === MOVE_PLACE) {
+    togglePiece(board, player, move >> 2);
+    setPlacements(board, player, (player === "X" ? board.placedX : board.placedO) - 1);
+  } else if (type === MOVE_MOVE) {
+    togglePiece(board, player, (move >> 2) & 63);
+    togglePiece(board, player, (move >> 8) & 63);
+  } else if (type === MOVE_SHIFT) {
+    moveWindow(board, 1 - ((move >> 2) & 3), 1 - ((move >> 4) & 3));
+  }
+};
+
+// ── Win detection ───────────────────────────────────────────────────
+
+const hasLine = (pieces: number, masks: number[]): boolean => {
+  for (let i = 0; i < masks.length; i++) {
+    if (((pieces & masks[i]) >>> 0) === masks[i]) return true;
+  }
+  return false;
+};
+
+/**
+ * Bitboard counterpart of `getGameOutcome`, reduced to a numeric code.
+ * `mover` is the player who made the last action.
+ */
+export const getBitboardOutcome = (board: Bitboard, mover?: Player): BitboardOutcome => {
+  const { tables } = board;
+  const masks = tables.winMasks[board.activeY * tables.windowSpan + board.activeX];
+  const xLine = hasLine(board.x, masks);
+  const oLine = hasLine(board.o, masks);
+  if (xLine && oLine) {
+    const policy = tables.rules.simultaneousLinePolicy;
+    if (!mover || policy === "draw") return OUTCOME_DRAW;
+    const winner = policy === "mover-wins" ? mover : getOpponent(mover);
+    return winner === "X" ? OUTCOME_X_WINS : OUTCOME_O_WINS;
+  }
+  if (xLine) return OUTCOME_X_WINS;
+  if (oLine) return OUTCOME_O_WINS;
+  if (((board.x | board.o) >>> 0) === tables.fullMask) return OUTCOME_DRAW;
+  return OUTCOME_NONE;
+};
@@ -0,0 +1,93 @@
+import { GameState, Player, applyAction, createInitialState, getGameOutcome, getOpponent } from "./game";
+import { DEFAULT_EVALUATION_PLUGIN, EvaluationPlugin } from "./evaluation";
+import { SelfPlayEpisodeResult } from "./learning";
+import { getEngineEvaluations } from "./minimax";
+import { OpeningBook, addBookMove, createOpeningBook } from "./book";
+import { RuleSet } from "./rules";
+import { getCanonicalStateKey } from "./symmetry";
+
+export const DEFAULT_BOOK_PLIES = 6;
+
+export interface SearchBookOptions {
+  /** How many plies from the start the book covers. */
+  plies?: number;
+  /** Search depth for every book position. */
+  depth?: number;
+  evaluation?: EvaluationPlugin;
+  /** Moves scoring within this much of the best go into the book. */
+  margin?: number;
+  /** At most this many moves per position. */
+  maxMoves?: number;
+  /** Called after each position is searched, with the number searched so far. */
+  onPosition?: (positions: number) => void;
+}
+
+/**
+ * Build a book by searching every position reachable through book moves in
+ * the first `plies` plies. Each position keeps the moves scoring close to its
+ * best, weighted so the best move is played most often. Moves that lead to the
+ * same position up to symmetry count once.
+ */
+export const buildBookFromSearch = (rules: RuleSet, options: SearchBookOptions = {}): OpeningBook => {
+  const { plies = DEFAULT_BOOK_PLIES, depth = 6, margin = 1, maxMoves = 3, onPosition } = options;
+  const evaluate = (options.evaluation ?? DEFAULT_EVALUATION_PLUGIN).evaluate;
+  const book = createOpeningBook(rules);
+  const searched = new Set<string>();
+
+  const visit = (state: GameState, player: Player, ply: number): void => {
+    if (ply >= plies || getGameOutcome(state) !== null) return;
+    const key = getCanonicalStateKey(state, player);
+    if (searched.has(key)) return;
+    searched.add(key);
+    const { evaluations } = getEngineEvaluations(state, player, new Set(), depth, 0, evaluate);
+    onPosition?.(searched.size);
+    if (!evaluations.length) return;
+    const best = evaluations[0].score;
+    const children = new Set<string>();
+    const chosen = evaluations
+      .filter(({ score }) => best - score <= margin)
+      .filter(({ action }) => {
+        const child = getCanonicalStateKey(applyAction(state, action!, player), getOpponent(player));
+        if (children.has(child)) return false;
+        children.add(child);
+        return true;
+      })
+      .slice(0, maxMoves);
+    chosen.forEach(({ action, score }, rank) => {
+      addBookMove(book, state, player, action!, { weight: chosen.length - rank, score });
+    });
+    for (const { action } of chosen) {
+      visit(applyAction(state, action!, player), getOpponent(player), ply + 1);
+    }
+  };
+
+  visit(createInitialState(rules), "X", 0);
+  return book;
+};
+
+/**
+ * Build a book from the first `plies` plies of finished self-play games.
+ * Each move counts the games won, drawn and lost through it, from the mover's
+ * side, and is weighted two for a win and one for a draw.
+ */
+export const buildBookFromSelfPlay = (
+  results: SelfPlayEpisodeResult[],
+  rules: RuleSet,
+  plies = DEFAULT_BOOK_PLIES
+): OpeningBook => {
+  const book = createOpeningBook(rules);
+  for (const result of results) {
+    if (result.terminatedByMaxTurns) continue;
+    for (const { player, action, stateBefore } of result.history.slice(0, plies)) {
+      const won = result.winner === player;
+      const lost = result.winner === getOpponent(player);
+      addBookMove(book, stateBefore, player, action, {
+        weight: won ? 2 : lost ? 0 : 1,
+        wins: won ? 1 : 0,
+        draws: won || lost ? 0 : 1,
+        losses: lost ? 1 : 0
+      });
+    }
+  }
+  return book;
+};
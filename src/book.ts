@@ -0,0 +1,178 @@
+import { Action, GameState, Player, checkAction, getRules, getStateKey } from "./game";
+import { formatRecordAction, parseRecordAction } from "./record";
+import { Random, randomInt } from "./random";
+import { RuleSet, createRuleSet, isSameRuleSet } from "./rules";
+import {
+  SYMMETRY_TRANSFORMS,
+  canonicalizeState,
+  fromCanonicalAction,
+  transformAction,
+  transformState
+} from "./symmetry";
+import { PositionKey, getNextPositionKey } from "./zobrist";
+
+// Opening book: known-good moves for early positions, so the AI need not
+// search the opening again every game. Positions are keyed by their canonical
+// state key, so one entry covers all eight rotations and reflections; moves
+// are stored in record notation as they apply to the canonical position.
+
+export interface BookMove {
+  /** Record notation, relative to the canonical position. */
+  move: string;
+  /** Relative chance of playing the move; 0 keeps it in the book without playing it. */
+  weight: number;
+  /** Results of the games through this move, from the mover's side (books built from self-play). */
+  wins?: number;
+  draws?: number;
+  losses?: number;
+  /** The search score behind the move, from the mover's side (books built from searches). */
+  score?: number;
+}
+
+export interface OpeningBook {
+  readonly rules: RuleSet;
+  /** Canonical state key (see `getCanonicalStateKey`) to the moves known there. */
+  readonly positions: Map<string, BookMove[]>;
+}
+
+/** A book move mapped onto the position it was looked up from. */
+export interface BookChoice extends Omit<BookMove, "move"> {
+  action: Action;
+  /** The move's share of the total weight in this position (0–1). */
+  share: number;
+}
+
+export const createOpeningBook = (rules: RuleSet): OpeningBook => ({ rules, positions: new Map() });
+
+/**
+ * `action` in the canonical position, in record notation. A position with
+ * symmetries of its own has several notations for the same move; the smallest
+ * one stands for them all.
+ */
+const getCanonicalMove = (state: GameState, player: Player, action: Action, rules: RuleSet): { key: string; move: string } => {
+  const canonical = canonicalizeState(state, player);
+  const moved = transformAction(action, canonical.transform, rules);
+  let move = formatRecordAction(moved, rules);
+  for (const transform of SYMMETRY_TRANSFORMS) {
+    if (transform === "identity" || getStateKey(transformState(canonical.state, transform), player) !== canonical.key) continue;
+    const candidate = formatRecordAction(transformAction(moved, transform, rules), rules);
+    if (candidate < move) move = candidate;
+  }
+  return { key: canonical.key, move };
+};
+
+/**
+ * Add to the book entry for `action` in this position, creating it when new.
+ * Weights and result counts accumulate; a score replaces the previous one.
+ */
+export const addBookMove = (
+  book: OpeningBook,
+  state: GameState,
+  player: Player,
+  action: Action,
+  update: Omit<BookMove, "move">
+): void => {
+  const { key, move } = getCanonicalMove(state, player, action, book.rules);
+  const moves = book.positions.get(key) ?? [];
+  book.positions.set(key, moves);
+  let entry = moves.find((candidate) => candidate.move === move);
+  if (!entry) {
+    entry = { move, weight: 0 };
+    moves.push(entry);
+  }
+  entry.weight += update.weight;
+  for (const field of ["wins", "draws", "losses"] as const) {
+    if (update[field] !== undefined) entry[field] = (entry[field] ?? 0) + update[field]!;
+  }
+  if (update.score !== undefined) entry.score = update.score;
+  moves.sort((a, b) => b.weight - a.weight);
+};
+
+/**
+ * The book's moves for this position, heaviest first, or an empty list when
+ * the book does not know it (or was built for other rules). Moves that are
+ * not legal here, or that would repeat a position in `history`, are left out.
+ */
+export const getBookMoves = (
+  book: OpeningBook,
+  state: GameState,
+  player: Player,
+  history?: Set<PositionKey>
+): BookChoice[] => {
+  const rules = getRules(state);
+  if (!isSameRuleSet(book.rules, rules)) return [];
+  const { key, transform } = canonicalizeState(state, player);
+  const choices = (book.positions.get(key) ?? [])
+    .map(({ move, ...entry }) => ({ ...entry, action: fromCanonicalAction(parseRecordAction(move, rules), transform, rules) }))
+    .filter(({ action }) => checkAction(state, action, player).ok)
+    .filter(({ action }) => !history?.has(getNextPositionKey(state, action, player)));
+  const total = choices.reduce((sum, choice) => sum + choice.weight, 0);
+  return choices.map((choice) => ({ ...choice, share: total > 0 ? choice.weight / total : 0 }));
+};
+
+/** Pick one of the book's moves for this position at random, by weight; null when there is none to play. */
+export const chooseBookMove = (
+  book: OpeningBook,
+  state: GameState,
+  player: Player,
+  random: Random,
+  history?: Set<PositionKey>
+): BookChoice | null => {
+  const choices = getBookMoves(book, state, player, history).filter((choice) => choice.weight > 0);
+  if (choices.length === 0) return null;
+  // Weights are usually integers; scale so fractional ones still count
+  const total = choices.reduce((sum, choice) => sum + choice.weight, 0);
+  let pick = (randomInt(random, 1_000_000) / 1_000_000) * total;
+  for (const choice of choices) {
+    pick -= choice.weight;
+    if (pick < 0) return choice;
+  }
+  return choices[0];
+};
+
+// ── File format ─────────────────────────────────────────────────────
+//
+// JSON: { format, version, rules, positions: { <canonical key>: BookMove[] } }
+
+const BOOK_FORMAT = "tictactwo-book";
+const FORMAT_VERSION = 1;
+
+export const encodeOpeningBook = (book: OpeningBook): string =>
+  JSON.stringify(
+    {
+      format: BOOK_FORMAT,
+      version: FORMAT_VERSION,
+      rules: { ...book.rules },
+      positions: Object.fromEntries([...book.positions].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+    },
+    null,
+    1
+  );
+
+export const decodeOpeningBook = (text: string): OpeningBook => {
+  let data: { format?: unknown; version?: unknown; rules?: RuleSet; positions?: Record<string, BookMove[]> };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not an opening book file");
+  }
+  if (data?.format !== BOOK_FORMAT) {
+    throw new Error("Not an opening book file");
+  }
+  if (data.version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported opening book version ${String(data.version)}`);
+  }
+  if (!data.rules || !data.positions || typeof data.positions !== "object") {
+    throw new Error("The opening book file is incomplete");
+  }
+  const rules = createRuleSet(data.rules);
+  const positions = new Map<string, BookMove[]>();
+  for (const [key, moves] of Object.entries(data.positions)) {
+    if (!Array.isArray(moves) || moves.some((entry) => typeof entry?.move !== "string" || !(entry.weight >= 0))) {
+      throw new Error(`The opening book has a malformed entry for position "${key}"`);
+    }
+    for (const entry of moves) parseRecordAction(entry.move, rules);
+    positions.set(key, moves.map((entry) => ({ ...entry })));
+  }
+  return { rules, positions };
+};
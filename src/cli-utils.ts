@@ -1,4 +1,5 @@
 import { FIRST_PLAYER, SECOND_PLAYER, Player } from "./game";
+import { DEFAULT_SKILL_LEVEL, SkillLevel, listSkillLevels } from "./levels";
 
 export type StartupChoice = Player | "SELF_PLAY";
 
@@ -38,3 +39,17 @@ export const isAiHandOffCommand = (input: string): boolean => {
   const normalized = input.trim().toLowerCase();
   return HANDOFF_COMMANDS.has(normalized);
 };
+
+/** A level by name or by its 1-based number in `listSkillLevels()`; empty input keeps the default. */
+export const parseSkillLevelChoice = (input?: string): SkillLevel | null => {
+  const normalized = input?.trim().toLowerCase() ?? "";
+  if (!normalized) {
+    return DEFAULT_SKILL_LEVEL;
+  }
+  const levels = listSkillLevels();
+  const number = Number(normalized);
+  if (Number.isInteger(number) && number >= 1 && number <= levels.length) {
+    return levels[number - 1];
+  }
+  return levels.find((level) => level.name === normalized) ?? null;
+};
@@ -1,22 +1,21 @@
+import fs from "fs";
+import path from "path";
 import readline from "readline";
 import {
   Action,
-  BOARD_SIZE,
-  FIRST_PLAYER,
-  FIRST_PLAYER_PIECES,
+  GameOutcome,
   GameState,
   Player,
   SECOND_PLAYER,
   applyAction,
   createInitialState,
   getActiveCellCoordinates,
-  getAvailableActions,
   getOpponent,
-  getStateKey,
-  getWinner,
-  isDraw
+  getRules
 } from "./game";
-import { chooseBestAction, getEngineEvaluations, RepetitionRule } from "./minimax";
+import { RepetitionRule, SearchCore } from "./minimax";
+import { createSearchPool, searchParallel } from "./parallel";
+import { DEFAULT_HASH_MB, TableStats } from "./ttable";
 import {
   clearScreen,
   renderBoard,
@@ -25,14 +24,81 @@ import {
   renderMoveHistoryWindow,
   renderMoveSelectorLine,
   renderHelp,
+  getRowLabels,
   EvalWidgetData,
   HISTORY_WINDOW_SIZE,
   BOLD,
   RESET,
   DIM
 } from "./tui";
-import { parseStartupChoice, isAiHandOffCommand } from "./cli-utils";
+import { parseSkillLevelChoice, parseStartupChoice, isAiHandOffCommand } from "./cli-utils";
 import { getEvaluationPlugin, listEvaluationPlugins } from "./evaluation";
+import {
+  NO_LEGAL_ACTION_POLICIES,
+  NoLegalActionPolicy,
+  RuleSet,
+  SIMULTANEOUS_LINE_POLICIES,
+  SimultaneousLinePolicy,
+  createRuleSet,
+  getRulePreset,
+  isSameRuleSet,
+  listRulePresets
+} from "./rules";
+import {
+  DEFAULT_NO_PROGRESS_PLIES,
+  DEFAULT_REPETITION_LIMIT,
+  DrawOptions,
+  DrawResult
+} from "./draw";
+import { PositionKey, getNextPositionKey, setHashVerification } from "./zobrist";
+import { Match, MatchOutcome } from "./match";
+import {
+  MoveAnnotation,
+  SHIFT_DIRECTION_NAMES,
+  createGameRecord,
+  formatGameRecord,
+  formatRecordAction,
+  formatSquare as formatRecordSquare,
+  parseRecordAction
+} from "./record";
+import { ParsedPosition, formatPosition, parsePosition } from "./position";
+import {
+  Tablebase,
+  decodeTablebase,
+  describeTablebaseValue,
+  encodeTablebase,
+  probeTablebase,
+  solveTablebase,
+  summarizeTablebase
+} from "./tablebase";
+import { PLAYOUT_POLICIES } from "./mcts";
+import { ThreadedEngineRequest, createEngineThread } from "./engine-thread";
+import { createProtocolSession } from "./protocol";
+import { Ponder, PonderStats, createPonderStats, startPonder } from "./ponder";
+import { BookChoice, OpeningBook, chooseBookMove, decodeOpeningBook, encodeOpeningBook, getBookMoves } from "./book";
+import { DEFAULT_BOOK_PLIES, buildBookFromSearch, buildBookFromSelfPlay } from "./book-builder";
+import { runSelfPlayTraining } from "./learning";
+import { createRandom, createRandomUint32, randomSeed } from "./random";
+import {
+  Engine,
+  EngineAnalysis,
+  EngineMove,
+  EngineProgress,
+  MINIMAX_ENGINE,
+  createTablebaseEngine,
+  getEngine,
+  listEngines,
+  registerEngine
+} from "./engine";
+import {
+  DEFAULT_SKILL_LEVEL,
+  SkillLevel,
+  chooseSkillMove,
+  getSkillDepth,
+  getSkillLevel,
+  isSkillLimited,
+  listSkillLevels
+} from "./levels";
 
 const rl = readline.createInterface({
   input: process.stdin,
@@ -44,46 +110,88 @@ type Prompt = (query: string) => Promise<string>;
 const prompt: Prompt = (query) =>
   new Promise((resolve) => rl.question(query, (answer) => resolve(answer.trim())));
 
-const rowLabels = ["A", "B", "C", "D", "E"];
-const directionLabels: Record<string, string> = {
-  "-1,0": "left",
-  "1,0": "right",
-  "0,-1": "up",
-  "0,1": "down",
-  "-1,-1": "up-left",
-  "1,-1": "up-right",
-  "-1,1": "down-left",
-  "1,1": "down-right"
-};
-
-const moveHistory: string[] = [];
-const MAX_MOVE_HISTORY = 50;
-
-const formatSquare = (index: number): string => {
-  const row = rowLabels[Math.floor(index / BOARD_SIZE)];
-  const col = (index % BOARD_SIZE) + 1;
-  return `${row}${col}`;
-};
-
 const describeAction = (action: Action): string => {
   switch (action.type) {
     case "place":
       return `place ${formatSquare(action.index)}`;
     case "move":
       return `move ${formatSquare(action.from)} → ${formatSquare(action.to)}`;
+    case "pass":
+      return "pass";
     default: {
       const dirKey = `${action.dx},${action.dy}`;
-      return `shift ${directionLabels[dirKey] || `dx ${action.dx}, dy ${action.dy}`}`;
+      return `shift ${SHIFT_DIRECTION_NAMES[dirKey] || `dx ${action.dx}, dy ${action.dy}`}`;
     }
   }
 };
 
-const recordMove = (player: Player, action: Action): void => {
-  moveHistory.unshift(`[${player}] ${describeAction(action)}`);
-  if (moveHistory.length > MAX_MOVE_HISTORY) moveHistory.pop();
-};
+/** Newest turn first, as the history window expects. */
+const describeMatchHistory = (match: Match): string[] =>
+  match.history.map((turn) => `[${turn.player}] ${describeAction(turn.action)}`).reverse();
 
 const args = process.argv.slice(2);
+
+const parseStringArg = (flag: string): string | undefined => {
+  const entry = args.find((item) => item.startsWith(`${flag}=`));
+  if (!entry) return undefined;
+  // Values such as position strings may contain "=" themselves
+  return entry.slice(flag.length + 1);
+};
+
+const parseSimultaneousLinePolicy = (): SimultaneousLinePolicy | undefined => {
+  const raw = parseStringArg("--simultaneous-lines");
+  return SIMULTANEOUS_LINE_POLICIES.find((policy) => policy === raw);
+};
+
+const parseNoLegalActionPolicy = (): NoLegalActionPolicy | undefined => {
+  const raw = parseStringArg("--no-legal-action");
+  return NO_LEGAL_ACTION_POLICIES.find((policy) => policy === raw);
+};
+
+// `--rules=<preset>` must name a known preset; without it the default applies
+const parseRulePreset = (): RuleSet => {
+  const raw = parseStringArg("--rules");
+  if (raw === undefined) return getRulePreset();
+  const presets = listRulePresets().map((preset) => preset.name);
+  if (!presets.includes(raw)) {
+    console.error(`Unknown rule preset "${raw}" (expected ${presets.join(", ")})`);
+    process.exit(1);
+  }
+  return getRulePreset(raw);
+};
+const selectedPreset = parseRulePreset();
+
+// `--position=<string>` starts from a position string; a preset named in the
+// string takes precedence over --rules, and the policy flags over its overrides.
+const parseStartPosition = (): ParsedPosition | null => {
+  const raw = parseStringArg("--position");
+  if (raw === undefined) return null;
+  try {
+    return parsePosition(raw, selectedPreset);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+};
+
+const startPosition = parseStartPosition();
+const rulePreset = startPosition ? getRules(startPosition.state) : selectedPreset;
+const simultaneousLinePolicy = parseSimultaneousLinePolicy();
+const noLegalActionPolicy = parseNoLegalActionPolicy();
+const rules = simultaneousLinePolicy || noLegalActionPolicy
+  ? createRuleSet({
+      ...rulePreset,
+      simultaneousLinePolicy: simultaneousLinePolicy ?? rulePreset.simultaneousLinePolicy,
+      noLegalActionPolicy: noLegalActionPolicy ?? rulePreset.noLegalActionPolicy
+    })
+  : rulePreset;
+// The policy flags take precedence over a position string's overrides, so the
+// start position plays by the final rules
+const startState = startPosition ? { ...startPosition.state, rules } : undefined;
+const rowLabels = getRowLabels(rules.boardSize);
+
+const formatSquare = (index: number): string => formatRecordSquare(index, rules);
+
 const parseNumericArg = (flag: string, defaultValue: number): number => {
   const entry = args.find((item) => item.startsWith(`${flag}=`));
   if (!entry) return defaultValue;
@@ -93,26 +201,112 @@ const parseNumericArg = (flag: string, defaultValue: number): number => {
 };
 
 const engineDepth = parseNumericArg("--engine-depth", 6);
+const movetime = parseNumericArg("--movetime", 0);
+const searchThreads = Math.max(1, Math.floor(parseNumericArg("--threads", 1)));
+const requestedHash = parseNumericArg("--hash", DEFAULT_HASH_MB);
+const hashMegabytes = requestedHash > 0 ? requestedHash : DEFAULT_HASH_MB;
+// With a time budget and no explicit depth, keep deepening until the time runs out
+const TIMED_SEARCH_MAX_DEPTH = 64;
+const searchDepth = movetime > 0 && !args.some((item) => item.startsWith("--engine-depth="))
+  ? TIMED_SEARCH_MAX_DEPTH
+  : engineDepth;
 const multiPvCount = parseNumericArg("--multi-pv", 3);
 const selfPlayMode = args.includes("--self-play");
-
-const parseStringArg = (flag: string): string | undefined => {
-  const entry = args.find((item) => item.startsWith(`${flag}=`));
-  if (!entry) return undefined;
-  return entry.split("=")[1];
-};
+const analyzeMode = args.includes("--analyze");
+const protocolMode = args.includes("--protocol");
+const ponderMode = args.includes("--ponder");
 
 const parseRepetitionRule = (): RepetitionRule => {
   const raw = parseStringArg("--repetition-rule");
   if (raw === "strict") return "strict";
+  if (raw === undefined && startPosition?.strictRepetition) return "strict";
   return "search";
 };
 const repetitionRule = parseRepetitionRule();
-const isStrictRepetition = repetitionRule === "strict";
+
+const parseSearchCore = (): SearchCore => (parseStringArg("--core") === "array" ? "array" : "bitboard");
+const searchCore = parseSearchCore();
+const useSymmetry = args.includes("--symmetry");
+
+if (args.includes("--verify-hash")) {
+  setHashVerification(true);
+}
+
+const drawOptions: DrawOptions = {
+  repetitionLimit: parseNumericArg("--repetition-limit", DEFAULT_REPETITION_LIMIT),
+  noProgressPlies: parseNumericArg("--no-progress-plies", DEFAULT_NO_PROGRESS_PLIES)
+};
+
+// `--tablebase=<file>`: load a solved tablebase for the tablebase engine, which plays
+// perfectly wherever it covers the position and searches everywhere else
+const loadTablebase = (): Tablebase | null => {
+  const path = parseStringArg("--tablebase");
+  if (!path) return null;
+  try {
+    const tablebase = decodeTablebase(fs.readFileSync(path));
+    if (!probeTablebase(tablebase, createInitialState(rules), "X")) {
+      throw new Error(`it was built for the ${tablebase.rules.name} rules`);
+    }
+    return tablebase;
+  } catch (error) {
+    console.error(`Could not use the tablebase at ${path}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+};
+const tablebase = loadTablebase();
+if (tablebase) registerEngine(createTablebaseEngine(tablebase));
+
+// Searches run on an engine thread, so the TUI can still take a "move now" key.
+// It keeps one transposition table per side for the whole match: stored
+// scores are from the searching side's perspective. With --threads, minimax
+// searches on a pool of threads instead, each keeping its own tables as long.
+const engineThread = createEngineThread({
+  hashMegabytes: searchThreads === 1 ? hashMegabytes : undefined,
+  tablebase: tablebase ?? undefined
+});
+const searchPool = searchThreads > 1 ? createSearchPool({ threads: searchThreads, hashMegabytes }) : null;
+
+const createMatch = (): Match => {
+  engineThread.clearHash();
+  searchPool?.clearHash();
+  return new Match({
+    rules,
+    drawOptions,
+    initialState: startState,
+    firstPlayer: startPosition?.player,
+    strictRepetition: repetitionRule === "strict"
+  });
+};
+
+// The AI only proposes a draw in a dead-level position after a stretch of
+// shuffling, and waits a while before proposing again.
+const AI_DRAW_OFFER_MIN_PLIES = 10;
+const AI_DRAW_OFFER_INTERVAL = 10;
 
 const evalXPlugin = getEvaluationPlugin(parseStringArg("--eval-x") ?? parseStringArg("--eval"));
 const evalOPlugin = getEvaluationPlugin(parseStringArg("--eval-o") ?? parseStringArg("--eval"));
 
+// With --tablebase, sides without an engine of their own play from it
+const engineNames: Record<Player, string | undefined> = {
+  X: parseStringArg("--engine-x") ?? parseStringArg("--engine") ?? (tablebase ? "tablebase" : undefined),
+  O: parseStringArg("--engine-o") ?? parseStringArg("--engine") ?? (tablebase ? "tablebase" : undefined)
+};
+if (!tablebase && Object.values(engineNames).includes("tablebase")) {
+  console.error("The tablebase engine needs a solved tablebase: add --tablebase=<file>.");
+  process.exit(1);
+}
+const engines: Record<Player, Engine> = { X: getEngine(engineNames.X), O: getEngine(engineNames.O) };
+// Unset, MCTS uses its default budget, or with --movetime only the time budget
+const mctsIterations = args.some((item) => item.startsWith("--mcts-iterations="))
+  ? Math.max(1, parseNumericArg("--mcts-iterations", 1))
+  : undefined;
+const mctsPlayout = PLAYOUT_POLICIES.find((policy) => policy === parseStringArg("--mcts-playout")) ?? "random";
+// `--seed=<n>` makes games with random engines or skill levels repeatable; every search draws its own seed from it
+const engineSeeds = createRandomUint32(parseNumericArg("--seed", randomSeed()));
+const levelRandom = createRandom(engineSeeds());
+// Chosen with --level, or at the startup prompt of an interactive game
+let skillLevel: SkillLevel = getSkillLevel(parseStringArg("--level"));
+
 if (args.includes("--list-evals")) {
   console.log("Available evaluation plugins:");
   for (const p of listEvaluationPlugins()) {
@@ -121,6 +315,124 @@ if (args.includes("--list-evals")) {
   process.exit(0);
 }
 
+if (args.includes("--list-rules")) {
+  console.log("Available rule presets:");
+  for (const preset of listRulePresets()) {
+    console.log(`  ${BOLD}${preset.name}${RESET} — ${preset.description}`);
+  }
+  process.exit(0);
+}
+
+if (args.includes("--list-engines")) {
+  console.log("Available engines:");
+  for (const engine of listEngines()) {
+    console.log(`  ${BOLD}${engine.name}${RESET} — ${engine.description}`);
+  }
+  process.exit(0);
+}
+
+for (const engine of new Set([engines.X, engines.O])) {
+  if (engine.supportsRules && !engine.supportsRules(rules)) {
+    console.error(`The ${engine.name} engine cannot play the ${rules.name} rules.`);
+    process.exit(1);
+  }
+}
+
+// `--solve=<file>`: solve the selected rules by retrograde analysis, write the tablebase and exit
+const solvePath = parseStringArg("--solve");
+if (solvePath) {
+  try {
+    console.log(`Solving the ${rules.name} rules…`);
+    const tablebase = solveTablebase(rules, {
+      onProgress: (phase, positions) =>
+        console.log(`  ${phase === "enumerate" ? "Found" : "Solved"} ${positions.toLocaleString()} positions`)
+    });
+    const summary = summarizeTablebase(tablebase);
+    console.log(
+      `${summary.positions.toLocaleString()} positions: ${summary.wins.toLocaleString()} won, ` +
+        `${summary.losses.toLocaleString()} lost and ${summary.draws.toLocaleString()} drawn for the side to move`
+    );
+    console.log(`Longest forced win: ${summary.longestWin} plies`);
+    console.log(`The initial position is ${describeTablebaseValue(summary.initial)}.`);
+    fs.writeFileSync(solvePath, encodeTablebase(tablebase));
+    console.log(`Tablebase saved to ${solvePath}`);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// `--build-book=<file>`: build an opening book for the selected rules and exit. It searches every
+// book position to --engine-depth, or with `--book-games=<n>` learns from that many self-play games
+const buildBookPath = parseStringArg("--build-book");
+if (buildBookPath) {
+  const plies = Math.max(1, Math.floor(parseNumericArg("--book-plies", DEFAULT_BOOK_PLIES)));
+  const games = Math.max(0, Math.floor(parseNumericArg("--book-games", 0)));
+  try {
+    let book: OpeningBook;
+    if (games > 0) {
+      console.log(`Playing ${games} self-play games with the ${rules.name} rules…`);
+      const { results } = runSelfPlayTraining({
+        episodes: games,
+        depthLimit: searchDepth,
+        evaluationPluginX: evalXPlugin,
+        evaluationPluginO: evalOPlugin,
+        repetitionRule,
+        rules,
+        drawOptions,
+        searchCore,
+        symmetry: useSymmetry,
+        engineX: engines.X,
+        engineO: engines.O,
+        limits: { movetime, iterations: mctsIterations },
+        engineSettings: { playout: mctsPlayout },
+        level: skillLevel,
+        seed: engineSeeds()
+      });
+      book = buildBookFromSelfPlay(results, rules, plies);
+    } else {
+      console.log(`Searching the first ${plies} plies of the ${rules.name} rules to depth ${engineDepth}…`);
+      book = buildBookFromSearch(rules, {
+        plies,
+        depth: engineDepth,
+        evaluation: evalXPlugin,
+        onPosition: (positions) => {
+          if (positions % 10 === 0) console.log(`  Searched ${positions.toLocaleString()} positions`);
+        }
+      });
+    }
+    fs.writeFileSync(buildBookPath, encodeOpeningBook(book));
+    console.log(`Opening book with ${book.positions.size.toLocaleString()} positions saved to ${buildBookPath}`);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+// The opening book: `--book=<file>`, otherwise the one shipped in books/ for the
+// selected rules, if any. `--no-book` always searches.
+const loadOpeningBook = (): OpeningBook | null => {
+  if (args.includes("--no-book")) return null;
+  const requested = parseStringArg("--book");
+  const file = requested ?? path.join(__dirname, "..", "books", `${rules.name}.json`);
+  if (!requested && !fs.existsSync(file)) return null;
+  try {
+    const book = decodeOpeningBook(fs.readFileSync(file, "utf8"));
+    if (!isSameRuleSet(book.rules, rules)) {
+      throw new Error(`it was built for the ${book.rules.name} rules`);
+    }
+    return book;
+  } catch (error) {
+    // A shipped book that does not fit rule overrides is simply left out
+    if (!requested) return null;
+    console.error(`Could not use the opening book at ${file}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+};
+const openingBook = loadOpeningBook();
+
 const describeActiveGrid = (state: GameState): string => {
   const [rowStart, rowEnd, colStart, colEnd] = getActiveCellCoordinates(state);
   const rows = rowLabels.slice(rowStart, rowEnd + 1).join("-");
@@ -139,25 +451,20 @@ const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout
 type ActionMenuEntry = {
   action: Action;
   label: string;
-  repeats: boolean;
   nextState: GameState;
   nextPlayer: Player;
-  nextStateKey: string;
+  nextStateKey: PositionKey;
 };
 
-const buildActionMenu = (
-  state: GameState,
-  player: Player,
-  history: Set<string>
-): ActionMenuEntry[] => {
+const buildActionMenu = (match: Match): ActionMenuEntry[] => {
+  const { state, currentPlayer: player } = match;
   const opponent = getOpponent(player);
-  return getAvailableActions(state, player).map((action) => {
-    const nextState = applyAction(state, action, player);
-    const nextStateKey = getStateKey(nextState, opponent);
+  return match.legalActions().map((action) => {
+    const nextState = match.stateAfter(action);
+    const nextStateKey = getNextPositionKey(state, action, player);
     return {
       action,
       label: describeAction(action),
-      repeats: isStrictRepetition ? history.has(nextStateKey) : false,
       nextState,
       nextPlayer: opponent,
       nextStateKey
@@ -168,66 +475,151 @@ const buildActionMenu = (
 type HumanMoveResult = {
   action: ActionMenuEntry | null;
   handoffToAi?: boolean;
+  drawOffer?: boolean;
+  undo?: boolean;
+  redo?: boolean;
+  showPosition?: boolean;
+  /** Why a typed move cannot be played. */
+  rejected?: string[];
 };
 
-const addStateToHistory = (history: Set<string>, state: GameState, player: Player): void => {
-  history.add(getStateKey(state, player));
+/**
+ * A move typed in record notation (`B2`, `B2-C3`, `@left`): its menu entry, or
+ * the reasons it cannot be played. Null when the text is not a move.
+ */
+const resolveTypedMove = (match: Match, entries: ActionMenuEntry[], text: string): HumanMoveResult | null => {
+  let action: Action;
+  try {
+    action = parseRecordAction(text.trim(), rules);
+  } catch {
+    return null;
+  }
+  const check = match.check(action);
+  if (!check.ok) {
+    return { action: null, rejected: check.violations.map((violation) => violation.message) };
+  }
+  const notation = formatRecordAction(action, rules);
+  const entry = entries.find((candidate) => formatRecordAction(candidate.action, rules) === notation);
+  return entry ? { action: entry } : null;
 };
 
 // --- Eval helpers ---
 
-const computeEvalData = (
+/** Engine progress, with what the engine thread or the search pool adds to it. */
+type EngineReport = EngineProgress & { threads?: number; hash?: TableStats };
+
+/** A request for `player`'s engine, on the engine thread, with the CLI's limits and settings. */
+const createEngineRequest = (
+  player: Player,
+  history: Set<PositionKey>,
+  count: number,
+  onProgress?: (progress: EngineReport) => void,
+  depth = searchDepth,
+  signal?: AbortSignal
+): ThreadedEngineRequest => ({
+  engine: engines[player].name,
+  history,
+  limits: { depth, movetime, iterations: mctsIterations },
+  count,
+  evaluation: (player === "X" ? evalXPlugin : evalOPlugin).name,
+  repetitionRule,
+  seed: engineSeeds(),
+  onProgress,
+  signal,
+  settings: { core: searchCore, useSymmetry, playout: mctsPlayout }
+});
+
+/**
+ * Analyse for `player` with its engine and the CLI's settings, off the main
+ * thread. Minimax spreads over `--threads` worker threads when there is more
+ * than one. Aborting `signal` ends the search with the best result so far.
+ */
+const runEngineSearch = async (
   state: GameState,
   player: Player,
-  history: Set<string>
-): EvalWidgetData | null => {
-  if (multiPvCount <= 0) return null;
-  const evalPlugin = player === "X" ? evalXPlugin : evalOPlugin;
-  const { evaluations, stats } = getEngineEvaluations(
-    state,
-    player,
-    history,
-    engineDepth,
-    multiPvCount,
-    evalPlugin.evaluate,
-    repetitionRule
-  );
-  if (!evaluations.length) return null;
+  history: Set<PositionKey>,
+  count: number,
+  onDepth?: (progress: EngineReport) => void,
+  depth = searchDepth,
+  signal?: AbortSignal
+): Promise<EngineAnalysis & EngineReport> => {
+  if (engines[player] !== MINIMAX_ENGINE || !searchPool) {
+    return engineThread.analyse(state, player, createEngineRequest(player, history, count, onDepth, depth, signal));
+  }
+  return searchParallel(state, player, history, {
+    maxDepth: depth,
+    movetime,
+    count,
+    evaluation: (player === "X" ? evalXPlugin : evalOPlugin).name,
+    repetitionRule,
+    core: searchCore,
+    useSymmetry,
+    pool: searchPool,
+    onDepth,
+    signal
+  });
+};
+
+const toEvalData = (progress: EngineReport, player: Player, depth = searchDepth): EvalWidgetData => {
+  const hash = engines[player] === MINIMAX_ENGINE ? progress.hash : undefined;
   return {
-    evaluations: evaluations.map((e) => ({
+    // Weaker skill levels rank every move; the widget still shows the top few
+    evaluations: progress.evaluations.slice(0, Math.max(multiPvCount, 1)).map((e) => ({
       score: e.score,
-      pvText: formatPrincipalVariation(e.pv)
+      pvText: formatPrincipalVariation(e.pv),
+      forcedWin: e.forcedWin,
+      visits: e.visits
     })),
-    depth: engineDepth,
-    maxDepth: engineDepth,
-    nodesVisited: stats.nodesVisited,
-    cacheHits: stats.cacheHits,
-    cutoffs: stats.cutoffs,
-    evalName: evalPlugin.name
+    depth: progress.depth,
+    maxDepth: depth,
+    nodesVisited: progress.stats.nodesVisited,
+    cacheHits: progress.stats.cacheHits,
+    cutoffs: progress.stats.cutoffs,
+    hashCollisions: progress.stats.hashCollisions,
+    evalName: (player === "X" ? evalXPlugin : evalOPlugin).name,
+    elapsedMs: movetime > 0 ? progress.elapsedMs : undefined,
+    movetime: movetime > 0 ? movetime : undefined,
+    threads: progress.threads,
+    hashHitRate: hash?.hitRate,
+    hashFill: hash?.fill,
+    tablebase: progress.tablebase && `This position is ${describeTablebaseValue(progress.tablebase)}`,
+    engineName: engines[player] === MINIMAX_ENGINE ? undefined : engines[player].name,
+    mcts: progress.iterations !== undefined ? { iterations: progress.iterations, playout: mctsPlayout } : undefined
   };
 };
 
+const computeEvalData = async (
+  state: GameState,
+  player: Player,
+  history: Set<PositionKey>
+): Promise<EvalWidgetData | null> => {
+  if (multiPvCount <= 0) return null;
+  const result = await runEngineSearch(state, player, history, multiPvCount);
+  return result.evaluations.length ? toEvalData(result, player) : null;
+};
+
 // --- Full-screen render ---
 
 let historyOffset = 0;
 
 const renderFullScreen = (
-  state: GameState,
-  current: Player,
+  match: Match,
   humanPlayer: Player,
   evalData: EvalWidgetData | null,
-  selectorLine: string | null
+  selectorLine: string | null,
+  highlightedCells: number[] = []
 ): void => {
   clearScreen();
-  console.log(renderStatusBar(state, current, humanPlayer));
+  console.log(renderStatusBar(match.state, match.currentPlayer, humanPlayer, skillLevel.name));
   console.log();
-  console.log(renderBoard(state));
+  console.log(renderBoard(match.state, highlightedCells));
 
   if (evalData) {
     console.log();
     console.log(renderEvalWidget(evalData));
   }
 
+  const moveHistory = describeMatchHistory(match);
   if (moveHistory.length) {
     console.log();
     console.log(renderMoveHistoryWindow(moveHistory, historyOffset));
@@ -239,47 +631,16 @@ const renderFullScreen = (
   }
 };
 
-// --- Progressive engine eval (iterative deepening display) ---
-
-const yieldToEventLoop = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
+// --- Search progress (iterative deepening display) ---
 
-const renderProgressiveEval = async (
-  state: GameState,
+/** An `onDepth` callback that redraws the engine widget in place after each iteration. */
+const createProgressRenderer = (
   player: Player,
-  history: Set<string>
-): Promise<void> => {
-  if (multiPvCount <= 0) return;
-
-  const evalPlugin = player === "X" ? evalXPlugin : evalOPlugin;
+  depth = searchDepth,
+  ponder?: EvalWidgetData["ponder"]
+): ((progress: EngineReport) => void) => {
   let prevLineCount = 0;
-
-  for (let depth = 1; depth <= engineDepth; depth++) {
-    // Yield to let the event loop process signals (e.g. Ctrl+C)
-    await yieldToEventLoop();
-
-    const { evaluations, stats } = getEngineEvaluations(
-      state,
-      player,
-      history,
-      depth,
-      multiPvCount,
-      evalPlugin.evaluate,
-      repetitionRule
-    );
-
-    const evalData: EvalWidgetData = {
-      evaluations: evaluations.map((e) => ({
-        score: e.score,
-        pvText: formatPrincipalVariation(e.pv)
-      })),
-      depth,
-      maxDepth: engineDepth,
-      nodesVisited: stats.nodesVisited,
-      cacheHits: stats.cacheHits,
-      cutoffs: stats.cutoffs,
-      evalName: evalPlugin.name
-    };
-
+  return (progress) => {
     // Overwrite previous eval block
     if (prevLineCount > 0) {
       process.stdout.write(`\x1b[${prevLineCount}A`);
@@ -288,39 +649,40 @@ const renderProgressiveEval = async (
       }
       process.stdout.write(`\x1b[${prevLineCount}A`);
     }
-
-    const rendered = renderEvalWidget(evalData);
+    const rendered = renderEvalWidget({ ...toEvalData(progress, player, depth), ponder });
     console.log(rendered);
     prevLineCount = rendered.split("\n").length;
-  }
+  };
 };
 
 // --- Raw-mode cycling move selector ---
 
+/** `onAnalysis` receives the engine's view of the human's moves before the selector waits for them. */
 const selectMove = async (
-  state: GameState,
+  match: Match,
   humanPlayer: Player,
-  history: Set<string>
+  onAnalysis?: (evaluations: EngineMove[]) => void
 ): Promise<HumanMoveResult> => {
-  const entries = buildActionMenu(state, humanPlayer, history);
-  const available = entries.filter((e) => !e.repeats);
-
-  // Compute engine eval for display
-  const evalData = computeEvalData(state, humanPlayer, history);
-
-  if (!available.length) {
-    renderFullScreen(state, humanPlayer, humanPlayer, evalData, null);
-    if (!entries.length) {
-      console.log("\nNo legal moves available.");
-    } else {
-      console.log(isStrictRepetition ? "\nAll moves repeat previous positions." : "\nNo legal moves available.");
-    }
-    const input = await prompt("Command (ai/restart/exit): ");
+  const entries = buildActionMenu(match);
+
+  // Compute engine eval for display, also wanted by whoever predicts the human's move
+  const analysis = multiPvCount > 0 || onAnalysis
+    ? await runEngineSearch(match.state, humanPlayer, match.seenPositions, Math.max(multiPvCount, 1))
+    : null;
+  const evalData = multiPvCount > 0 && analysis?.evaluations.length ? toEvalData(analysis, humanPlayer) : null;
+  onAnalysis?.(analysis?.evaluations ?? []);
+
+  if (!entries.length) {
+    renderFullScreen(match, humanPlayer, evalData, null);
+    console.log("\nNo legal moves available.");
+    const input = await prompt("Command (ai/undo/position/restart/exit): ");
     const cmd = input.toLowerCase();
     if (cmd === "exit" || cmd === "quit" || cmd === "q") {
       rl.close();
       process.exit(0);
     }
+    if (cmd === "undo") return { action: null, undo: true };
+    if (cmd === "position") return { action: null, showPosition: true };
     if (isAiHandOffCommand(input)) return { action: null, handoffToAi: true };
     return { action: null };
   }
@@ -330,9 +692,9 @@ const selectMove = async (
   historyOffset = 0;
 
   const getFiltered = (): ActionMenuEntry[] => {
-    if (!filterText) return available;
+    if (!filterText) return entries;
     const lower = filterText.toLowerCase();
-    return available.filter((e) => e.label.toLowerCase().includes(lower));
+    return entries.filter((e) => e.label.toLowerCase().includes(lower));
   };
 
   const clampIndex = (filtered: ActionMenuEntry[]): void => {
@@ -342,14 +704,15 @@ const selectMove = async (
   };
 
   const buildSummary = (): string => {
-    const placeCount = available.filter((e) => e.action.type === "place").length;
-    const moveCount = available.filter((e) => e.action.type === "move").length;
-    const shiftCount = available.filter((e) => e.action.type === "shift").length;
+    const placeCount = entries.filter((e) => e.action.type === "place").length;
+    const moveCount = entries.filter((e) => e.action.type === "move").length;
+    const shiftCount = entries.filter((e) => e.action.type === "shift").length;
     const parts: string[] = [];
     if (placeCount) parts.push(`${placeCount} place`);
     if (moveCount) parts.push(`${moveCount} move`);
     if (shiftCount) parts.push(`${shiftCount} shift`);
-    return `${DIM}${available.length} moves (${parts.join(" · ")})${RESET}`;
+    if (!parts.length) parts.push("no legal action, so pass");
+    return `${DIM}${entries.length} moves (${parts.join(" · ")})${RESET}`;
   };
 
   const redraw = (): void => {
@@ -358,14 +721,14 @@ const selectMove = async (
     const current = filtered[selectedIndex] || null;
     const selector = renderMoveSelectorLine(current, selectedIndex, filtered.length, filterText);
     const summary = buildSummary();
-    renderFullScreen(state, humanPlayer, humanPlayer, evalData, `${summary}\n${selector}`);
+    renderFullScreen(match, humanPlayer, evalData, `${summary}\n${selector}`);
   };
 
   // Fallback for non-TTY
   if (!process.stdin.isTTY) {
     redraw();
     console.log("\n\nAvailable moves:");
-    available.forEach((e, i) => console.log(`  ${i + 1}. ${e.label}`));
+    entries.forEach((e, i) => console.log(`  ${i + 1}. ${e.label}`));
     const input = await prompt("Select move number or command: ");
     const cmd = input.toLowerCase();
     if (cmd === "exit" || cmd === "quit" || cmd === "q") {
@@ -373,12 +736,16 @@ const selectMove = async (
       process.exit(0);
     }
     if (cmd === "restart" || cmd === "r") return { action: null };
+    if (cmd === "draw") return { action: null, drawOffer: true };
+    if (cmd === "undo") return { action: null, undo: true };
+    if (cmd === "redo") return { action: null, redo: true };
+    if (cmd === "position") return { action: null, showPosition: true };
     if (isAiHandOffCommand(input)) return { action: null, handoffToAi: true };
     const num = Number(cmd);
-    if (!isNaN(num) && num >= 1 && num <= available.length) {
-      return { action: available[num - 1] };
+    if (!isNaN(num) && num >= 1 && num <= entries.length) {
+      return { action: entries[num - 1] };
     }
-    return { action: null };
+    return resolveTypedMove(match, entries, input) ?? { action: null };
   }
 
   // Raw-mode keypress handler
@@ -431,7 +798,7 @@ const selectMove = async (
 
       // PageDown — scroll history down
       if (key === "\x1b[6~") {
-        const maxOffset = Math.max(0, moveHistory.length - HISTORY_WINDOW_SIZE);
+        const maxOffset = Math.max(0, match.ply - HISTORY_WINDOW_SIZE);
         historyOffset = Math.min(maxOffset, historyOffset + HISTORY_WINDOW_SIZE);
         redraw();
         return;
@@ -444,6 +811,13 @@ const selectMove = async (
         if (filtered[selectedIndex]) {
           cleanup();
           resolve({ action: filtered[selectedIndex] });
+          return;
+        }
+        // Nothing matches the filter: treat it as a move typed in record notation
+        const typed = resolveTypedMove(match, entries, filterText);
+        if (typed) {
+          cleanup();
+          resolve(typed);
         }
         return;
       }
@@ -474,6 +848,21 @@ const selectMove = async (
           resolve({ action: null });
           return;
         }
+        if (cmd === "draw") {
+          cleanup();
+          resolve({ action: null, drawOffer: true });
+          return;
+        }
+        if (cmd === "undo" || cmd === "redo") {
+          cleanup();
+          resolve({ action: null, [cmd]: true });
+          return;
+        }
+        if (cmd === "position") {
+          cleanup();
+          resolve({ action: null, showPosition: true });
+          return;
+        }
         if (cmd === "exit" || cmd === "quit") {
           cleanup();
           rl.close();
@@ -504,75 +893,354 @@ const promptForPlayerChoice = async (): Promise<Player | "SELF_PLAY"> => {
   }
 };
 
-const executeAiTurn = async (
-  state: GameState,
-  player: Player,
-  humanPlayer: Player,
-  history: Set<string>
-): Promise<GameState> => {
+type AiTurnResult = {
+  action: Action;
+  score: number;
+  /** The move came from the opening book. */
+  book?: boolean;
+};
+
+const toBookEvalData = (choices: BookChoice[], player: Player): EvalWidgetData => ({
+  evaluations: choices.slice(0, Math.max(multiPvCount, 1)).map((choice) => ({
+    score: choice.score ?? 0,
+    pvText: formatPrincipalVariation([choice.action]),
+    share: choice.share
+  })),
+  depth: 0,
+  maxDepth: searchDepth,
+  nodesVisited: 0,
+  evalName: (player === "X" ? evalXPlugin : evalOPlugin).name,
+  book: true
+});
+
+/**
+ * A move from the opening book, picked by weight, when it knows the position.
+ * Shows the book's moves in place of a search.
+ */
+const consultOpeningBook = (state: GameState, player: Player, history: Set<PositionKey>): AiTurnResult | null => {
+  if (!openingBook) return null;
+  const seen = repetitionRule === "strict" ? history : undefined;
+  const choice = chooseBookMove(openingBook, state, player, levelRandom, seen);
+  if (!choice) return null;
+  if (multiPvCount > 0) {
+    console.log(renderEvalWidget(toBookEvalData(getBookMoves(openingBook, state, player, seen), player)));
+  }
+  return { action: choice.action, score: choice.score ?? 0, book: true };
+};
+
+// --- "Move now" key ---
+
+const MOVE_NOW_KEY = " ";
+const moveNowHint = process.stdin.isTTY ? ` ${DIM}(Space: move now)${RESET}` : "";
+
+/**
+ * While the AI thinks, Space makes it play the best move found so far. Gives
+ * the signal to search with and a function that stops listening.
+ */
+const listenForMoveNow = (): { signal: AbortSignal; stop: () => void } => {
+  const controller = new AbortController();
+  if (!process.stdin.isTTY) {
+    return { signal: controller.signal, stop: () => {} };
+  }
+  const onData = (data: Buffer): void => {
+    const key = data.toString();
+    // Ctrl+C
+    if (key === "\x03") {
+      process.stdin.setRawMode(false);
+      rl.close();
+      process.exit(0);
+    }
+    if (key === MOVE_NOW_KEY) {
+      controller.abort();
+    }
+  };
+  rl.pause();
+  process.stdin.setRawMode(true);
+  process.stdin.resume();
+  process.stdin.on("data", onData);
+  return {
+    signal: controller.signal,
+    stop: () => {
+      process.stdin.removeListener("data", onData);
+      process.stdin.setRawMode(false);
+      rl.resume();
+    }
+  };
+};
+
+/** Depth of the AI's searches at the chosen skill level, and how many moves they rank. */
+const getAiSearchLimits = (): { depth: number; count: number } => ({
+  depth: getSkillDepth(skillLevel, searchDepth),
+  count: isSkillLimited(skillLevel) ? 0 : Math.max(multiPvCount, 1)
+});
+
+// --- Pondering ---
+
+type AiPonder = Ponder<EngineAnalysis & EngineReport, EngineReport>;
+
+/** How the AI's prediction of the human's move turned out: the search to carry on after a hit, and the totals. */
+type PonderOutcome = { hit: AiPonder | null; stats: PonderStats };
+
+/**
+ * `--ponder`: while the human thinks, search the position after the move the
+ * engine expects from them, on the AI's behalf. Positions the opening book
+ * answers are not worth a search.
+ */
+const startPondering = (match: Match, evaluations: EngineMove[], stats: PonderStats): AiPonder | null => {
+  const prediction = evaluations[0]?.action;
+  if (!prediction) return null;
+  const { state, currentPlayer: human } = match;
+  if (openingBook && getBookMoves(openingBook, match.stateAfter(prediction), getOpponent(human)).length) {
+    return null;
+  }
+  const { depth, count } = getAiSearchLimits();
+  return startPonder(
+    state,
+    human,
+    match.seenPositions,
+    prediction,
+    (next, player, history, signal, onProgress) => runEngineSearch(next, player, history, count, onProgress, depth, signal),
+    stats
+  );
+};
+
+/**
+ * Search for the side to move at the chosen skill level, showing the search
+ * as it goes, and pick the AI's move: the best one, or a weaker level's choice.
+ * Book moves are played without a search; "move now" cuts the search short.
+ * After a ponder hit, the pondering search goes on instead of a new one.
+ */
+const chooseAiMove = async (match: Match, pondering?: PonderOutcome): Promise<AiTurnResult> => {
+  const { state, currentPlayer: player } = match;
+  const history = match.seenPositions;
+  const bookMove = consultOpeningBook(state, player, history);
+  if (bookMove) {
+    await pondering?.hit?.cancel();
+    return bookMove;
+  }
+  const { depth, count } = getAiSearchLimits();
+  const ponder = pondering && { hit: pondering.hit !== null, ...pondering.stats };
+  const onDepth = multiPvCount > 0 ? createProgressRenderer(player, depth, ponder) : undefined;
+  const moveNow = listenForMoveNow();
+  let evaluations: EngineMove[];
+  try {
+    ({ evaluations } = pondering?.hit
+      ? await pondering.hit.result(onDepth, moveNow.signal)
+      : await runEngineSearch(state, player, history, count, onDepth, depth, moveNow.signal));
+  } finally {
+    moveNow.stop();
+  }
+  if (!evaluations.length) {
+    // Stopped before its first result: the match still knows what may be played,
+    // a forced pass included (a stuck side has already lost or drawn)
+    const [action] = match.legalActions();
+    console.log(`\nThe ${engines[player].name} engine has no move yet; ${player} plays ${describeAction(action)}.`);
+    return { action, score: 0 };
+  }
+  const { action, score } = chooseSkillMove(evaluations, skillLevel, levelRandom);
+  return { action, score };
+};
+
+/** Search for the side to move and play the AI's choice on `match`. */
+const executeAiTurn = async (match: Match, humanPlayer: Player, pondering?: PonderOutcome): Promise<AiTurnResult> => {
+  const { state, currentPlayer: player } = match;
   clearScreen();
-  console.log(renderStatusBar(state, player, humanPlayer));
+  console.log(renderStatusBar(state, player, humanPlayer, skillLevel.name));
   console.log();
   console.log(renderBoard(state));
 
+  const moveHistory = describeMatchHistory(match);
   if (moveHistory.length) {
     console.log();
     console.log(renderMoveHistoryWindow(moveHistory, 0));
   }
 
-  console.log(`\n${BOLD}AI is thinking...${RESET}\n`);
-  await renderProgressiveEval(state, player, history);
+  console.log(`\n${BOLD}AI is thinking...${RESET}${moveNowHint}\n`);
+  const aiTurn = await chooseAiMove(match, pondering);
+  match.play(aiTurn.action);
+  return aiTurn;
+};
+
+// --- Draw offers ---
+
+/**
+ * The AI accepts a draw offer when its search sees no advantage for itself.
+ * Scores are reported from the perspective of the side to move (the human).
+ */
+const aiAcceptsDrawOffer = async (match: Match, humanPlayer: Player): Promise<boolean> => {
+  const { evaluations } = await runEngineSearch(match.state, humanPlayer, match.seenPositions, 1);
+  return !evaluations.length || evaluations[0].score >= 0;
+};
+
+// --- Game export ---
+
+const exportGamePath = parseStringArg("--export-game");
+
+const formatRecordDate = (date: Date): string =>
+  `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, "0")}.${String(date.getDate()).padStart(2, "0")}`;
+
+/** Write the finished match to `--export-game=<file>`, if given. */
+const exportGame = (match: Match, event: string, players: Record<Player, string>, annotations: Record<number, MoveAnnotation>): void => {
+  if (!exportGamePath) return;
+  const record = createGameRecord(
+    match,
+    {
+      Event: event,
+      Date: formatRecordDate(new Date()),
+      X: players.X,
+      O: players.O,
+      XEval: evalXPlugin.name,
+      OEval: evalOPlugin.name,
+      Depth: String(getSkillDepth(skillLevel, searchDepth)),
+      ...(skillLevel !== DEFAULT_SKILL_LEVEL ? { Level: skillLevel.name } : {}),
+      ...(engines.X !== MINIMAX_ENGINE || engines.O !== MINIMAX_ENGINE ? { XEngine: engines.X.name, OEngine: engines.O.name } : {}),
+      ...(movetime > 0 ? { MoveTime: String(movetime) } : {})
+    },
+    annotations
+  );
+  try {
+    fs.writeFileSync(exportGamePath, formatGameRecord(record));
+    console.log(`\nGame saved to ${exportGamePath}`);
+  } catch (error) {
+    console.log(`\nCould not save the game to ${exportGamePath}: ${(error as Error).message}`);
+  }
+};
 
-  const evalPlugin = player === "X" ? evalXPlugin : evalOPlugin;
-  const aiAction = chooseBestAction(state, player, history, engineDepth, evalPlugin.evaluate, repetitionRule);
-  const nextState = applyAction(state, aiAction, player);
-  recordMove(player, aiAction);
-  return nextState;
+const getWinningCells = (outcome: GameOutcome | null): number[] =>
+  outcome ? outcome.lines.flatMap((line) => line.indices) : [];
+
+const announceResult = (outcome: GameOutcome | null, draw: DrawResult | null, humanPlayer: Player): void => {
+  const winner = outcome?.winner ?? null;
+  if (outcome?.bothCompleted) {
+    console.log(`\n⚡ The shift completed lines for both players (${rules.simultaneousLinePolicy} rule).`);
+  }
+  if (winner && outcome?.reason === "no-legal-action") {
+    console.log(
+      winner === humanPlayer
+        ? "\n🎉 The AI has no legal action left. You win!"
+        : "\n💻 You have no legal action left. Better luck next time!"
+    );
+  } else if (winner) {
+    if (winner === humanPlayer) {
+      console.log(`\n🎉 You created ${rules.winLength} in a row! You win!`);
+    } else {
+      console.log("\n💻 AI formed the line. Better luck next time!");
+    }
+  } else if (draw) {
+    console.log(`\n🤝 Draw — ${draw.description}.`);
+  }
 };
 
 async function playHumanMatch(humanPlayer: Player): Promise<void> {
-  let state = createInitialState();
-  let currentPlayer: Player = FIRST_PLAYER;
-  const seenStates = new Set<string>();
-  addStateToHistory(seenStates, state, currentPlayer);
+  const match = createMatch();
+  const annotations: Record<number, MoveAnnotation> = {};
+  let lastAiDrawOfferPly = -Infinity;
+  const ponderStats = createPonderStats();
+  let ponder: AiPonder | null = null;
+  // Set by the human's move, for the AI turn after it
+  let pondering: PonderOutcome | undefined;
+
+  // The human's move settles the prediction; anything else just stops the search
+  const settlePonder = async (action?: Action): Promise<PonderOutcome | undefined> => {
+    const current = ponder;
+    ponder = null;
+    if (!current) return undefined;
+    if (action && current.settle(action)) return { hit: current, stats: ponderStats };
+    await current.cancel();
+    return action ? { hit: null, stats: ponderStats } : undefined;
+  };
+
+  const playAiTurn = async (): Promise<AiTurnResult> => {
+    const aiTurn = await executeAiTurn(match, humanPlayer, pondering);
+    pondering = undefined;
+    annotations[match.ply - 1] = { score: aiTurn.score, comment: aiTurn.book ? "book" : undefined };
+    return aiTurn;
+  };
+
+  // Step back (or forward) to the human's previous (or next) turn
+  const undoToHumanTurn = (): void => {
+    if (match.undo()) {
+      while (match.currentPlayer !== humanPlayer && match.undo());
+    }
+    lastAiDrawOfferPly = -Infinity;
+  };
+  const redoToHumanTurn = (): void => {
+    if (match.redo()) {
+      while (match.currentPlayer !== humanPlayer && match.redo());
+    }
+  };
 
   while (true) {
-    const winner = getWinner(state);
-    if (winner || isDraw(state)) {
-      renderFullScreen(state, currentPlayer, humanPlayer, null, null);
-      if (winner) {
-        if (winner === humanPlayer) {
-          console.log("\n🎉 You created three in a row! You win!");
-        } else {
-          console.log("\n💻 AI formed the line. Better luck next time!");
-        }
-      } else {
-        console.log("\n🤝 Draw. No line emerged.");
+    const result = match.outcome();
+    if (result) {
+      renderFullScreen(match, humanPlayer, null, null, getWinningCells(result.gameOutcome));
+      announceResult(result.gameOutcome, result.draw, humanPlayer);
+      await pondering?.hit?.cancel();
+      if (ponderStats.predictions > 0) {
+        console.log(`Pondering: ${ponderStats.hits} of ${ponderStats.predictions} replies predicted.`);
       }
+      const players: Record<Player, string> = humanPlayer === "X"
+        ? { X: "Human", O: "Engine" }
+        : { X: "Engine", O: "Human" };
+      exportGame(match, "Human vs engine", players, annotations);
       break;
     }
 
-    if (currentPlayer === humanPlayer) {
-      const { action, handoffToAi } = await selectMove(state, humanPlayer, seenStates);
+    if (match.currentPlayer === humanPlayer) {
+      const { action, handoffToAi, drawOffer, undo, redo, showPosition, rejected } = await selectMove(
+        match,
+        humanPlayer,
+        ponderMode ? (evaluations) => (ponder = startPondering(match, evaluations, ponderStats)) : undefined
+      );
+      pondering = await settlePonder(action?.action);
+      if (rejected) {
+        console.log(`\nThat move is not allowed:\n${rejected.map((reason) => `  - ${reason}`).join("\n")}`);
+        await prompt("Press Enter to continue...");
+        continue;
+      }
+      if (showPosition) {
+        console.log(`\nPosition: ${formatPosition(match.state, match.currentPlayer, { strictRepetition: match.strictRepetition })}`);
+        await prompt("Press Enter to continue...");
+        continue;
+      }
       if (handoffToAi) {
-        const nextState = await executeAiTurn(state, currentPlayer, humanPlayer, seenStates);
-        currentPlayer = getOpponent(currentPlayer);
-        state = nextState;
-        addStateToHistory(seenStates, state, currentPlayer);
+        await playAiTurn();
+        continue;
+      }
+      if (undo || redo) {
+        if (undo) undoToHumanTurn();
+        else redoToHumanTurn();
+        continue;
+      }
+      if (drawOffer) {
+        if (await aiAcceptsDrawOffer(match, humanPlayer)) {
+          match.agreeDraw();
+        } else {
+          console.log("\nAI declines the draw offer.");
+          await sleep(800);
+        }
         continue;
       }
       if (!action) {
         return runInteractiveMatch();
       }
-      recordMove(humanPlayer, action.action);
-      state = action.nextState;
-      currentPlayer = action.nextPlayer;
-      addStateToHistory(seenStates, state, currentPlayer);
+      delete annotations[match.ply];
+      match.play(action.action);
     } else {
-      const nextState = await executeAiTurn(state, currentPlayer, humanPlayer, seenStates);
-      currentPlayer = getOpponent(currentPlayer);
-      state = nextState;
-      addStateToHistory(seenStates, state, currentPlayer);
+      const aiTurn = await playAiTurn();
+      const canOffer =
+        aiTurn.score === 0 &&
+        match.pliesSinceProgress >= AI_DRAW_OFFER_MIN_PLIES &&
+        match.ply - lastAiDrawOfferPly >= AI_DRAW_OFFER_INTERVAL &&
+        !match.isOver();
+      if (canOffer) {
+        lastAiDrawOfferPly = match.ply;
+        renderFullScreen(match, humanPlayer, null, null);
+        const reply = await prompt("\nAI offers a draw. Accept? (y/N): ");
+        if (reply.toLowerCase().startsWith("y")) {
+          match.agreeDraw();
+        }
+      }
     }
   }
 
@@ -584,25 +1252,44 @@ async function playHumanMatch(humanPlayer: Player): Promise<void> {
   return runInteractiveMatch();
 }
 
+/** Ask for the AI's skill level, unless `--level` already chose one. */
+const promptForSkillLevel = async (): Promise<void> => {
+  if (args.some((item) => item.startsWith("--level="))) return;
+  const levels = listSkillLevels();
+  const menu = levels.map((level, index) => `${index + 1}. ${level.name}`).join(", ");
+  while (true) {
+    const rawChoice = await prompt(`Choose the AI level — ${menu}. [default ${DEFAULT_SKILL_LEVEL.name}]: `);
+    const level = parseSkillLevelChoice(rawChoice);
+    if (level) {
+      skillLevel = level;
+      return;
+    }
+    console.log(`\nPlease enter a level name or a number from 1 to ${levels.length}.`);
+    await sleep(400);
+  }
+};
+
 async function runInteractiveMatch(): Promise<void> {
   const choice = await promptForPlayerChoice();
+  await promptForSkillLevel();
   if (choice === "SELF_PLAY") return playSelfMatch();
   return playHumanMatch(choice);
 }
 
 const playSelfMatch = async (): Promise<void> => {
-  let state = createInitialState();
-  let currentPlayer: Player = FIRST_PLAYER;
-  const seenStates = new Set<string>();
-  addStateToHistory(seenStates, state, currentPlayer);
+  const match = createMatch();
+  const annotations: Record<number, MoveAnnotation> = {};
+  let result: MatchOutcome | null = null;
 
   while (true) {
+    const { state, currentPlayer } = match;
     clearScreen();
-    console.log(`${BOLD}Self-play mode (AI vs AI)${RESET}`);
+    console.log(`${BOLD}Self-play mode (AI vs AI)${RESET} — Level: ${skillLevel.name}`);
     console.log();
     console.log(renderBoard(state));
     console.log(describeActiveGrid(state));
 
+    const moveHistory = describeMatchHistory(match);
     if (moveHistory.length) {
       console.log();
       console.log(renderMoveHistoryWindow(moveHistory, 0));
@@ -610,38 +1297,92 @@ const playSelfMatch = async (): Promise<void> => {
 
     console.log(`\nNext to move: ${currentPlayer}`);
 
-    const winner = getWinner(state);
-    if (winner || isDraw(state)) break;
-
-    console.log(`\n${BOLD}AI selecting move...${RESET}\n`);
-    await renderProgressiveEval(state, currentPlayer, seenStates);
+    result = match.outcome();
+    if (result) break;
 
-    const evalPlugin = currentPlayer === "X" ? evalXPlugin : evalOPlugin;
-    const aiAction = chooseBestAction(state, currentPlayer, seenStates, engineDepth, evalPlugin.evaluate, repetitionRule);
-    console.log(`\n${currentPlayer} executes ${describeAction(aiAction)}`);
-    state = applyAction(state, aiAction, currentPlayer);
-    recordMove(currentPlayer, aiAction);
-    currentPlayer = getOpponent(currentPlayer);
-    addStateToHistory(seenStates, state, currentPlayer);
+    console.log(`\n${BOLD}AI selecting move...${RESET}${moveNowHint}\n`);
+    const { action: aiAction, score, book } = await chooseAiMove(match);
+    console.log(`\n${currentPlayer} executes ${describeAction(aiAction)}${book ? " (book)" : ""}`);
+    annotations[match.ply] = { score, comment: book ? "book" : undefined };
+    match.play(aiAction);
     await sleep(600);
   }
 
   clearScreen();
   console.log(`${BOLD}Self-play mode — match complete${RESET}\n`);
+  const outcome = result.gameOutcome;
+  console.log(renderBoard(match.state, getWinningCells(outcome)));
+  if (outcome?.bothCompleted) {
+    console.log(`The shift completed lines for both players (${rules.simultaneousLinePolicy} rule).`);
+  }
+  if (outcome?.reason === "no-legal-action") {
+    console.log(`${match.currentPlayer} has no legal action (${rules.noLegalActionPolicy} rule).`);
+  }
+  if (result.winner) {
+    console.log(`Player ${result.winner} wins.`);
+  } else {
+    console.log(result.draw ? `Draw — ${result.draw.description}.` : "Draw.");
+  }
+  exportGame(match, "Self-play", { X: "Engine", O: "Engine" }, annotations);
+  rl.close();
+  process.exit(0);
+};
+
+/** `--analyze`: print the engine's view of the starting position and exit. */
+const analyzePosition = async (): Promise<void> => {
+  const match = createMatch();
+  const { state, currentPlayer } = match;
+  console.log(`${BOLD}Analysis${RESET}\n`);
   console.log(renderBoard(state));
-  const matchWinner = getWinner(state);
-  if (matchWinner) {
-    console.log(`Player ${matchWinner} wins.`);
+  console.log(describeActiveGrid(state));
+  console.log(`\nPosition: ${formatPosition(state, currentPlayer, { strictRepetition: match.strictRepetition })}`);
+  console.log(`${currentPlayer} to move\n`);
+  const result = match.outcome();
+  if (result) {
+    console.log(result.winner ? `Player ${result.winner} has already won.` : `Draw — ${result.draw?.description ?? "no moves remain"}.`);
   } else {
-    console.log("Draw.");
+    const evalData = await computeEvalData(state, currentPlayer, match.seenPositions);
+    console.log(evalData ? renderEvalWidget(evalData) : "No engine evaluation available.");
   }
   rl.close();
   process.exit(0);
 };
 
+/** `--protocol`: answer engine protocol commands from stdin until `quit` or the end of input. */
+const runProtocol = (): void => {
+  const session = createProtocolSession({
+    rules,
+    write: (line) => console.log(line),
+    drawOptions,
+    depth: engineDepth,
+    hashMegabytes,
+    evaluation: evalXPlugin.name,
+    repetitionRule,
+    multiPv: parseNumericArg("--multi-pv", 1)
+  });
+  let ended = false;
+  const end = async (): Promise<void> => {
+    if (ended) return;
+    ended = true;
+    await session.close();
+    process.exit(0);
+  };
+  rl.on("line", (line) => {
+    if (!ended && !session.handle(line)) void end();
+  });
+  // At the end of input, a running search still reports its best move
+  rl.on("close", () => {
+    void session.finish().then(end);
+  });
+};
+
 const main = async () => {
   try {
-    if (selfPlayMode) {
+    if (protocolMode) {
+      runProtocol();
+    } else if (analyzeMode) {
+      await analyzePosition();
+    } else if (selfPlayMode) {
       await playSelfMatch();
     } else {
       await runInteractiveMatch();
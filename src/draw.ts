@@ -0,0 +1,102 @@
+import { Action, GameState, Player, getGameOutcome, getOpponent } from "./game";
+import { PositionKey, getPositionKey } from "./zobrist";
+
+export type DrawReason =
+  | "board-full"
+  | "simultaneous-lines"
+  | "no-legal-action"
+  | "repetition"
+  | "no-progress"
+  | "agreement";
+
+export interface DrawResult {
+  reason: DrawReason;
+  description: string;
+}
+
+export interface DrawOptions {
+  /** Number of occurrences of the same position that ends the game; 0 disables. */
+  repetitionLimit?: number;
+  /** Plies without a placement that end the game; 0 disables. */
+  noProgressPlies?: number;
+}
+
+export const DEFAULT_REPETITION_LIMIT = 3;
+export const DEFAULT_NO_PROGRESS_PLIES = 50;
+
+/**
+ * Bookkeeping needed to adjudicate draws: how often each position (keyed by
+ * `getPositionKey`) has occurred, and how many plies have passed since the last
+ * irreversible action. Placements are the only irreversible actions — moves
+ * and shifts can always be undone by a later move or shift.
+ */
+export interface PositionHistory {
+  counts: Map<PositionKey, number>;
+  pliesSinceProgress: number;
+}
+
+export const DRAW_REASON_DESCRIPTIONS: Record<DrawReason, string> = {
+  "board-full": "every cell is filled",
+  "simultaneous-lines": "both players completed a line at once",
+  "no-legal-action": "the side to move had no legal action",
+  repetition: "the same position occurred repeatedly",
+  "no-progress": "too many plies passed without a placement",
+  agreement: "both players agreed to a draw"
+};
+
+export const describeDrawReason = (reason: DrawReason): string => DRAW_REASON_DESCRIPTIONS[reason];
+
+export const createPositionHistory = (state: GameState, player: Player): PositionHistory => ({
+  counts: new Map([[getPositionKey(state, player), 1]]),
+  pliesSinceProgress: 0
+});
+
+/**
+ * Record the position reached after `action`. `player` is the side to move in
+ * the new position.
+ */
+export const recordPosition = (
+  history: PositionHistory,
+  state: GameState,
+  player: Player,
+  action: Action
+): void => {
+  const key = getPositionKey(state, player);
+  history.counts.set(key, (history.counts.get(key) ?? 0) + 1);
+  history.pliesSinceProgress = action.type === "place" ? 0 : history.pliesSinceProgress + 1;
+};
+
+export const getRepetitionCount = (history: PositionHistory, state: GameState, player: Player): number =>
+  history.counts.get(getPositionKey(state, player)) ?? 0;
+
+const makeDrawResult = (reason: DrawReason): DrawResult => ({ reason, description: describeDrawReason(reason) });
+
+export const createAgreedDraw = (): DrawResult => makeDrawResult("agreement");
+
+export const createNoLegalActionDraw = (): DrawResult => makeDrawResult("no-legal-action");
+
+/**
+ * Decide whether the game is drawn in the given position, with `player` to
+ * move. Wins take priority and must be checked by the caller first.
+ */
+export const adjudicateDraw = (
+  state: GameState,
+  player: Player,
+  history: PositionHistory,
+  options: DrawOptions = {}
+): DrawResult | null => {
+  const repetitionLimit = options.repetitionLimit ?? DEFAULT_REPETITION_LIMIT;
+  const noProgressPlies = options.noProgressPlies ?? DEFAULT_NO_PROGRESS_PLIES;
+
+  const outcome = getGameOutcome(state, getOpponent(player));
+  if (outcome && outcome.winner === null) {
+    return makeDrawResult(outcome.reason === "simultaneous-lines" ? "simultaneous-lines" : "board-full");
+  }
+  if (repetitionLimit > 0 && getRepetitionCount(history, state, player) >= repetitionLimit) {
+    return makeDrawResult("repetition");
+  }
+  if (noProgressPlies > 0 && history.pliesSinceProgress >= noProgressPlies) {
+    return makeDrawResult("no-progress");
+  }
+  return null;
+};
@@ -0,0 +1,170 @@
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { GameState, Player } from "./game";
+import { EngineAnalysis, EngineProgress, EngineRequest, EngineSettings } from "./engine";
+import { Tablebase } from "./tablebase";
+import { TableStats } from "./ttable";
+import { isHashVerificationEnabled } from "./zobrist";
+
+// An engine on its own worker thread. The calling thread stays free while it
+// searches, so a UI can keep reading keys and stop the search through an
+// AbortSignal; the engine polls a shared flag and answers with the best
+// result found so far. Workers look engines and evaluation plugins up by name
+// in their own registries, so only the built-in ones are available to them,
+// plus the tablebase engine when the thread is given a tablebase.
+
+export interface ThreadedEngineRequest
+  extends Omit<EngineRequest, "evaluation" | "onProgress" | "shouldStop" | "settings"> {
+  /** Engine name (default minimax). */
+  engine?: string;
+  /** Evaluation plugin name. */
+  evaluation?: string;
+  settings?: Omit<EngineSettings, "table">;
+  onProgress?: (progress: ThreadedProgress) => void;
+  /** Aborting stops the search; the analysis then holds the best result found so far. */
+  signal?: AbortSignal;
+}
+
+export interface ThreadedProgress extends EngineProgress {
+  /** Hit rate and fill of the side's kept transposition table, when there is one. */
+  hash?: TableStats;
+}
+
+export type ThreadedAnalysis = EngineAnalysis & ThreadedProgress;
+
+export interface EngineThreadOptions {
+  /** Keep a transposition table of this many megabytes per side between searches; unset starts each search afresh. */
+  hashMegabytes?: number;
+  /** Registers the tablebase engine (see engine.ts) on the thread. */
+  tablebase?: Tablebase;
+}
+
+export interface EngineThread {
+  /** One search at a time; starting another while one runs is an error. */
+  analyse: (state: GameState, player: Player, request: ThreadedEngineRequest) => Promise<ThreadedAnalysis>;
+  /** Empty the kept tables, for a new game. */
+  clearHash: () => void;
+  close: () => Promise<void>;
+}
+
+/** What the engine thread is started with (see engine-worker.ts). */
+export interface EngineWorkerData {
+  hashMegabytes?: number;
+  tablebase?: Tablebase;
+  verifyHash: boolean;
+  /** Shared with the caller, who sets it to 1 to stop the running search. */
+  stopFlag: Int32Array;
+}
+
+export type EngineWorkerCommand =
+  | {
+      type: "analyse";
+      state: GameState;
+      player: Player;
+      request: Omit<ThreadedEngineRequest, "onProgress" | "signal">;
+    }
+  | { type: "clear" };
+
+export type EngineWorkerMessage =
+  | { type: "progress"; progress: ThreadedProgress }
+  | { type: "done"; analysis: ThreadedAnalysis }
+  | { type: "error"; message: string };
+
+const WORKER_SCRIPT = path.join(__dirname, "engine-worker.js");
+
+export const createEngineThread = (options: EngineThreadOptions = {}): EngineThread => {
+  const stopFlag = new Int32Array(new SharedArrayBuffer(4));
+  const workerData: EngineWorkerData = {
+    hashMegabytes: options.hashMegabytes,
+    tablebase: options.tablebase,
+    verifyHash: isHashVerificationEnabled(),
+    stopFlag
+  };
+  const worker = new Worker(WORKER_SCRIPT, { workerData });
+  // An idle thread does not keep the process alive
+  worker.unref();
+
+  let current: {
+    resolve: (analysis: ThreadedAnalysis) => void;
+    reject: (error: Error) => void;
+    onProgress?: (progress: ThreadedProgress) => void;
+  } | null = null;
+
+  const settle = (): NonNullable<typeof current> => {
+    const search = current!;
+    current = null;
+    worker.unref();
+    return search;
+  };
+
+  worker.on("message", (message: EngineWorkerMessage) => {
+    if (!current) return;
+    if (message.type === "progress") {
+      current.onProgress?.(message.progress);
+    } else if (message.type === "done") {
+      settle().resolve(message.analysis);
+    } else {
+      settle().reject(new Error(message.message));
+    }
+  });
+  worker.on("error", (error: Error) => {
+    if (current) settle().reject(error);
+  });
+  worker.on("exit", (code) => {
+    if (current) settle().reject(new Error(`Engine thread stopped with exit code ${code}`));
+  });
+
+  const analyse: EngineThread["analyse"] = (state, player, request) => {
+    if (current) {
+      return Promise.reject(new Error("The engine thread is already searching"));
+    }
+    const { onProgress, signal, ...rest } = request;
+    return new Promise<ThreadedAnalysis>((resolve, reject) => {
+      const stop = (): void => {
+        Atomics.store(stopFlag, 0, 1);
+      };
+      Atomics.store(stopFlag, 0, signal?.aborted ? 1 : 0);
+      signal?.addEventListener("abort", stop);
+      const done = (): void => signal?.removeEventListener("abort", stop);
+      current = {
+        resolve: (analysis) => {
+          done();
+          resolve(analysis);
+        },
+        reject: (error) => {
+          done();
+          reject(error);
+        },
+        onProgress
+      };
+      worker.ref();
+      const command: EngineWorkerCommand = { type: "analyse", state, player, request: rest };
+      worker.postMessage(command);
+    });
+  };
+
+  return {
+    analyse,
+    clearHash: () => {
+      const command: EngineWorkerCommand = { type: "clear" };
+      worker.postMessage(command);
+    },
+    close: async () => {
+      await worker.terminate();
+    }
+  };
+};
+
+/** Run one search on a fresh engine thread and close it afterwards. */
+export const analyseInThread = async (
+  state: GameState,
+  player: Player,
+  request: ThreadedEngineRequest
+): Promise<ThreadedAnalysis> => {
+  const thread = createEngineThread();
+  try {
+    return await thread.analyse(state, player, request);
+  } finally {
+    await thread.close();
+  }
+};
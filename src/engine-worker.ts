@@ -0,0 +1,55 @@
+import { parentPort, workerData } from "worker_threads";
+import { GameState, Player, getRules } from "./game";
+import { createTablebaseEngine, getEngine, registerEngine } from "./engine";
+import { EngineWorkerCommand, EngineWorkerData, EngineWorkerMessage } from "./engine-thread";
+import { getEvaluationPlugin } from "./evaluation";
+import { RuleSet, isSameRuleSet } from "./rules";
+import { TableStats, TranspositionTable, createTranspositionTable, getTableStats } from "./ttable";
+import { setHashVerification } from "./zobrist";
+
+// Runs the searches of one engine thread (see engine-thread.ts), one at a
+// time, posting the engine's progress and its final analysis.
+
+const data = workerData as EngineWorkerData;
+const post = (message: EngineWorkerMessage): void => parentPort?.postMessage(message);
+
+setHashVerification(data.verifyHash);
+if (data.tablebase) registerEngine(createTablebaseEngine(data.tablebase));
+
+const createTables = (): Record<Player, TranspositionTable> | null =>
+  data.hashMegabytes
+    ? { X: createTranspositionTable(data.hashMegabytes), O: createTranspositionTable(data.hashMegabytes) }
+    : null;
+let tables = createTables();
+
+// States arrive as copies. Tables only keep their entries for the same rules
+// object, so every search with equal rules gets the first copy's.
+let knownRules: RuleSet | null = null;
+const withKnownRules = (state: GameState): GameState => {
+  const rules = getRules(state);
+  if (!knownRules || !isSameRuleSet(knownRules, rules)) knownRules = rules;
+  return { ...state, rules: knownRules };
+};
+
+parentPort?.on("message", (command: EngineWorkerCommand) => {
+  if (command.type === "clear") {
+    tables = createTables();
+    return;
+  }
+  const { player, request } = command;
+  const state = withKnownRules(command.state);
+  const table = tables?.[player];
+  const hash = (): TableStats | undefined => (table ? getTableStats(table) : undefined);
+  try {
+    const analysis = getEngine(request.engine).analyse(state, player, {
+      ...request,
+      evaluation: getEvaluationPlugin(request.evaluation),
+      settings: { ...request.settings, table },
+      onProgress: (progress) => post({ type: "progress", progress: { ...progress, hash: hash() } }),
+      shouldStop: () => Atomics.load(data.stopFlag, 0) === 1
+    });
+    post({ type: "done", analysis: { ...analysis, hash: hash() } });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+});
@@ -0,0 +1,288 @@
+import {
+  Action,
+  GameState,
+  PASS_ACTION,
+  Player,
+  getAvailableActions,
+  getNoLegalActionOutcome
+} from "./game";
+import { supportsBitboard } from "./bitboard";
+import { EvaluationPlugin } from "./evaluation";
+import {
+  EngineEvaluation,
+  MinimaxStats,
+  RepetitionRule,
+  SearchCore,
+  SearchProgress,
+  searchIterative
+} from "./minimax";
+import { DEFAULT_MCTS_ITERATIONS, MctsResult, PlayoutPolicy, searchMcts } from "./mcts";
+import { createRandom, randomInt, randomSeed } from "./random";
+import { RuleSet, isSameRuleSet } from "./rules";
+import { Tablebase, TablebaseValue, getTablebaseEvaluations, probeTablebase } from "./tablebase";
+import { TranspositionTable } from "./ttable";
+import { PositionKey, getNextPositionKey } from "./zobrist";
+
+// Engines choose moves for a side. Each one is a plain object with a name and
+// two entry points: `analyse` ranks moves, `think` picks one. Callers (the
+// CLI, self-play) look engines up by name and never care which kind they got.
+
+/** When to stop; each engine reads the limits it understands and ignores the rest. */
+export interface EngineLimits {
+  /** Deepest iteration for depth-based searches. */
+  depth?: number;
+  /** Time budget in milliseconds; 0 or unset for none. */
+  movetime?: number;
+  /** Iteration budget for sampling searches such as MCTS. */
+  iterations?: number;
+}
+
+/** Knobs that only particular engines use. */
+export interface EngineSettings {
+  core?: SearchCore;
+  useSymmetry?: boolean;
+  /** Transposition table for minimax to keep between searches. */
+  table?: TranspositionTable;
+  playout?: PlayoutPolicy;
+  exploration?: number;
+  maxPlayoutPlies?: number;
+}
+
+export interface EngineRequest {
+  /** Positions already seen in the game, for the repetition rules. */
+  history: Set<PositionKey>;
+  limits?: EngineLimits;
+  /** How many of the best moves `analyse` reports (default 3; 0 or less for all). */
+  count?: number;
+  evaluation?: EvaluationPlugin;
+  repetitionRule?: RepetitionRule;
+  /** Seed for engines that make random choices; a fresh one when unset. */
+  seed?: number;
+  onProgress?: (progress: EngineProgress) => void;
+  /** Polled during the search; true ends it early with the best result found so far. */
+  shouldStop?: () => boolean;
+  settings?: EngineSettings;
+}
+
+/** A ranked move. Scores are from the side to move; sampling engines also give the move's `visits`. */
+export interface EngineMove extends EngineEvaluation {
+  visits?: number;
+}
+
+export interface EngineProgress extends SearchProgress {
+  evaluations: EngineMove[];
+  /** Iterations so far, for sampling searches. */
+  iterations?: number;
+  /** The solved value of the position, when a tablebase answered. */
+  tablebase?: TablebaseValue;
+}
+
+export interface EngineAnalysis extends EngineProgress {
+  /** The time budget ran out before the other limits were reached. */
+  timedOut: boolean;
+  /** `shouldStop` ended the search early. */
+  stopped?: boolean;
+}
+
+/** The move an engine plays, with its score, line and the search statistics. */
+export interface EngineDecision extends EngineMove {
+  stats: MinimaxStats;
+  elapsedMs: number;
+}
+
+export interface Engine {
+  readonly name: string;
+  readonly description: string;
+  analyse: (state: GameState, player: Player, request: EngineRequest) => EngineAnalysis;
+  think: (state: GameState, player: Player, request: EngineRequest) => EngineDecision;
+  /** Whether the engine can play these rules; assumed when missing. */
+  supportsRules?: (rules: RuleSet) => boolean;
+}
+
+/** `think` for engines whose choice is simply the best move of `analyse`. */
+const thinkWith = (name: string, analyse: Engine["analyse"]): Engine["think"] => (state, player, request) => {
+  const analysis = analyse(state, player, { ...request, count: 1 });
+  if (analysis.evaluations.length === 0) {
+    throw new Error(
+      request.repetitionRule === "strict"
+        ? `The ${name} engine could not find a move (all moves likely repeat history in strict mode, and the rules do not allow passing)`
+        : `The ${name} engine could not find a move (${player} has no legal action, and the rules do not allow passing)`
+    );
+  }
+  return { ...analysis.evaluations[0], stats: analysis.stats, elapsedMs: analysis.elapsedMs };
+};
+
+// ── Minimax ─────────────────────────────────────────────────────────
+
+const analyseMinimax: Engine["analyse"] = (state, player, request) => {
+  const { limits = {}, settings = {} } = request;
+  return searchIterative(state, player, request.history, {
+    maxDepth: limits.depth,
+    movetime: limits.movetime,
+    count: request.count,
+    evaluate: request.evaluation?.evaluate,
+    repetitionRule: request.repetitionRule,
+    core: settings.core,
+    useSymmetry: settings.useSymmetry,
+    table: settings.table,
+    onDepth: request.onProgress,
+    shouldStop: request.shouldStop
+  });
+};
+
+export const MINIMAX_ENGINE: Engine = {
+  name: "minimax",
+  description: "Iterative-deepening negamax with PVS and a transposition table",
+  analyse: analyseMinimax,
+  think: thinkWith("minimax", analyseMinimax)
+};
+
+// ── MCTS ────────────────────────────────────────────────────────────
+
+/** MCTS statistics as an analysis; the score maps the 0–1 playout value onto -100..+100. */
+const toMctsAnalysis = (result: MctsResult, movetime: number, stopped?: boolean): EngineAnalysis => ({
+  depth: 0,
+  evaluations: result.evaluations.map((e) => ({
+    action: e.action,
+    score: Math.round((e.value - 0.5) * 200),
+    pv: e.pv,
+    visits: e.visits
+  })),
+  stats: { nodesVisited: result.nodes, cacheHits: 0, cutoffs: 0 },
+  elapsedMs: result.elapsedMs,
+  iterations: result.iterations,
+  timedOut: movetime > 0 && result.elapsedMs >= movetime,
+  stopped
+});
+
+const analyseMcts: Engine["analyse"] = (state, player, request) => {
+  const { limits = {}, settings = {}, onProgress } = request;
+  const movetime = limits.movetime ?? 0;
+  // With only a time budget, the time budget alone decides
+  const iterations = limits.iterations ?? (movetime > 0 ? Infinity : DEFAULT_MCTS_ITERATIONS);
+  const result = searchMcts(state, player, request.history, {
+    iterations,
+    movetime,
+    exploration: settings.exploration,
+    playout: settings.playout,
+    evaluate: request.evaluation?.evaluate,
+    maxPlayoutPlies: settings.maxPlayoutPlies,
+    seed: request.seed,
+    repetitionRule: request.repetitionRule,
+    count: request.count ?? 3,
+    shouldStop: request.shouldStop,
+    onProgress: onProgress && ((progress) => onProgress(toMctsAnalysis(progress, movetime)))
+  });
+  return toMctsAnalysis(result, movetime, request.shouldStop?.());
+};
+
+export const MCTS_ENGINE: Engine = {
+  name: "mcts",
+  description: "Monte Carlo Tree Search with UCT selection and random or evaluator-guided playouts",
+  analyse: analyseMcts,
+  think: thinkWith("mcts", analyseMcts),
+  supportsRules: supportsBitboard
+};
+
+// ── Random ──────────────────────────────────────────────────────────
+
+/** Legal actions that the repetition rule allows, or a pass when the rules call for one. */
+const getPlayableActions = (state: GameState, player: Player, request: EngineRequest): Action[] => {
+  const actions = getAvailableActions(state, player).filter(
+    (action) => request.repetitionRule !== "strict" || !request.history.has(getNextPositionKey(state, action, player))
+  );
+  if (actions.length === 0 && getNoLegalActionOutcome(state, player) === null) {
+    return [PASS_ACTION];
+  }
+  return actions;
+};
+
+const analyseRandom: Engine["analyse"] = (state, player, request) => {
+  const start = Date.now();
+  const random = createRandom(request.seed ?? randomSeed());
+  const actions = getPlayableActions(state, player, request);
+  // Shuffled, so the first move is a uniform pick and `count` more are a uniform sample
+  for (let i = actions.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [actions[i], actions[j]] = [actions[j], actions[i]];
+  }
+  const count = request.count ?? 3;
+  return {
+    depth: 0,
+    evaluations: (count > 0 ? actions.slice(0, count) : actions).map((action) => ({ action, score: 0, pv: [action] })),
+    stats: { nodesVisited: 0, cacheHits: 0, cutoffs: 0 },
+    elapsedMs: Date.now() - start,
+    timedOut: false
+  };
+};
+
+export const RANDOM_ENGINE: Engine = {
+  name: "random",
+  description: "Plays a uniformly random legal move; a baseline for self-play",
+  analyse: analyseRandom,
+  think: thinkWith("random", analyseRandom)
+};
+
+// ── Tablebase ───────────────────────────────────────────────────────
+
+/**
+ * Plays from a solved tablebase (see tablebase.ts) and leaves positions it
+ * has no entry for to `fallback`. Strict repetition changes which moves are
+ * legal, so the fallback decides every move under that rule.
+ */
+export const createTablebaseEngine = (tablebase: Tablebase, fallback: Engine = MINIMAX_ENGINE): Engine => {
+  const analyse: Engine["analyse"] = (state, player, request) => {
+    const start = Date.now();
+    const value = request.repetitionRule === "strict" ? null : probeTablebase(tablebase, state, player);
+    if (!value) return fallback.analyse(state, player, request);
+    const analysis: EngineAnalysis = {
+      depth: 0,
+      evaluations: getTablebaseEvaluations(tablebase, state, player, request.count ?? 3),
+      stats: { nodesVisited: 0, cacheHits: 0, cutoffs: 0 },
+      elapsedMs: Date.now() - start,
+      timedOut: false,
+      tablebase: value
+    };
+    request.onProgress?.(analysis);
+    return analysis;
+  };
+  return {
+    name: "tablebase",
+    description: `Perfect play from a solved tablebase; ${fallback.name} where it has no entry`,
+    analyse,
+    think: thinkWith("tablebase", analyse),
+    supportsRules: (rules) => isSameRuleSet(rules, tablebase.rules)
+  };
+};
+
+// ── Engine registry ─────────────────────────────────────────────────
+
+export const DEFAULT_ENGINE = MINIMAX_ENGINE;
+
+const engineRegistry = new Map<string, Engine>([
+  [MINIMAX_ENGINE.name, MINIMAX_ENGINE],
+  [MCTS_ENGINE.name, MCTS_ENGINE],
+  [RANDOM_ENGINE.name, RANDOM_ENGINE]
+]);
+
+export const registerEngine = (engine: Engine): void => {
+  if (
+    !engine ||
+    typeof engine.name !== "string" ||
+    !engine.name ||
+    typeof engine.analyse !== "function" ||
+    typeof engine.think !== "function"
+  ) {
+    throw new Error("Engines must include a non-empty name and analyse and think functions");
+  }
+  engineRegistry.set(engine.name, engine);
+};
+
+export const getEngine = (name?: string): Engine => {
+  if (name && engineRegistry.has(name)) {
+    return engineRegistry.get(name)!;
+  }
+  return DEFAULT_ENGINE;
+};
+
+export const listEngines = (): Engine[] => Array.from(engineRegistry.values());
@@ -1,5 +1,8 @@
-import { GameState, Player, BOARD_SIZE, ACTIVE_SIZE, getActiveIndices } from "./game";
+import { GameState, Player, getActiveIndices, getRelativeWinningLines, getRules } from "./game";
 
+// The search scores won and lost positions itself (see WIN_SCORE in
+// minimax.ts) and only asks plugins about undecided ones, with winner null.
+// Heuristic scores must stay far below WIN_SCORE.
 export type EvaluationFunction = (state: GameState, winner: Player | null, aiPlayer: Player, depth: number) => number;
 
 export interface EvaluationPlugin {
@@ -28,33 +31,20 @@ export const DEFAULT_EVALUATION_PLUGIN: EvaluationPlugin = {
 
 // ── Positional evaluation ───────────────────────────────────────────
 
-/**
- * Winning lines expressed as relative [row, col] offsets within the 3×3 active grid.
- */
-const RELATIVE_LINES: [number, number][][] = [
-  [[0, 0], [0, 1], [0, 2]],
-  [[1, 0], [1, 1], [1, 2]],
-  [[2, 0], [2, 1], [2, 2]],
-  [[0, 0], [1, 0], [2, 0]],
-  [[0, 1], [1, 1], [2, 1]],
-  [[0, 2], [1, 2], [2, 2]],
-  [[0, 0], [1, 1], [2, 2]],
-  [[0, 2], [1, 1], [2, 0]]
-];
-
-const toIndex = (row: number, col: number): number => row * BOARD_SIZE + col;
+const toIndex = (boardSize: number, row: number, col: number): number => row * boardSize + col;
 
 /**
- * Count "threats" (two-in-a-row with an empty third cell) for a given player
- * within the active grid.
+ * Count "threats" (one piece short of a winning line, with the last cell
+ * empty) for a given player within the active grid.
  */
 const countThreats = (state: GameState, player: Player): number => {
+  const rules = getRules(state);
   let threats = 0;
-  for (const line of RELATIVE_LINES) {
-    const cells = line.map(([r, c]) => state.board[toIndex(state.activeY + r, state.activeX + c)]);
+  for (const line of getRelativeWinningLines(rules)) {
+    const cells = line.map(([r, c]) => state.board[toIndex(rules.boardSize, state.activeY + r, state.activeX + c)]);
     const playerCount = cells.filter(c => c === player).length;
     const emptyCount = cells.filter(c => c === " ").length;
-    if (playerCount === 2 && emptyCount === 1) {
+    if (playerCount === rules.winLength - 1 && emptyCount === 1) {
       threats++;
     }
   }
@@ -70,12 +60,21 @@ const countPiecesInActiveGrid = (state: GameState, player: Player): number => {
 };
 
 /**
- * Check if a player occupies the center cell of the active grid.
+ * Check if a player occupies the center of the active grid (any of the four
+ * central cells when the window has an even size).
  */
 const hasCenter = (state: GameState, player: Player): boolean => {
-  const centerRow = state.activeY + 1;
-  const centerCol = state.activeX + 1;
-  return state.board[toIndex(centerRow, centerCol)] === player;
+  const { boardSize, activeSize } = getRules(state);
+  const low = Math.floor((activeSize - 1) / 2);
+  const high = Math.ceil((activeSize - 1) / 2);
+  for (let r = low; r <= high; r++) {
+    for (let c = low; c <= high; c++) {
+      if (state.board[toIndex(boardSize, state.activeY + r, state.activeX + c)] === player) {
+        return true;
+      }
+    }
+  }
+  return false;
 };
 
 const positionalEvaluate: EvaluationFunction = (state, winner, aiPlayer, depth) => {
@@ -89,7 +88,7 @@ const positionalEvaluate: EvaluationFunction = (state, winner, aiPlayer, depth)
   // Positional scoring for non-terminal positions
   let score = 0;
 
-  // Threats (two-in-a-row with empty third): +3 per AI threat, -3 per opponent threat
+  // Threats (one short of a line, last cell empty): +3 per AI threat, -3 per opponent threat
   score += countThreats(state, aiPlayer) * 3;
   score -= countThreats(state, opponent) * 3;
 
@@ -106,7 +105,7 @@ const positionalEvaluate: EvaluationFunction = (state, winner, aiPlayer, depth)
 
 export const POSITIONAL_EVALUATION_PLUGIN: EvaluationPlugin = {
   name: "positional",
-  description: "Scores threats (two-in-a-row), center control, and active-grid presence",
+  description: "Scores threats (one short of a line), center control, and active-grid presence",
   evaluate: positionalEvaluate
 };
 
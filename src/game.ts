@@ -1,7 +1,9 @@
+import { DEFAULT_RULES, RuleSet } from "./rules";
+
 export type Player = "X" | "O";
 export const FIRST_PLAYER: Player = "X";
 export const SECOND_PLAYER: Player = "O";
-export const FIRST_PLAYER_PIECES = 4;
+export const FIRST_PLAYER_PIECES = DEFAULT_RULES.piecesPerPlayer;
 export const MAX_PLACEMENTS_PER_PLAYER = FIRST_PLAYER_PIECES;
 export type Cell = Player | " ";
 export type Board = Cell[];
@@ -11,6 +13,8 @@ export interface GameState {
   activeX: number;
   activeY: number;
   placementsByPlayer: Record<Player, number>;
+  /** Rule set in force; states without one follow the classic rules. */
+  rules?: RuleSet;
 }
 
 export type ShiftDirection = { dx: number; dy: number };
@@ -18,94 +22,104 @@ export type MoveAction = { type: "move"; from: number; to: number };
 export type Action =
   | { type: "place"; index: number }
   | { type: "shift"; dx: number; dy: number }
-  | MoveAction;
+  | MoveAction
+  | { type: "pass" };
+
+/** Hands the turn to the opponent; only for a side with no legal action under the `pass` policy. */
+export const PASS_ACTION: Action = { type: "pass" };
+
+// Classic-rule dimensions, kept for callers that predate rule sets.
+export const BOARD_SIZE = DEFAULT_RULES.boardSize;
+export const ACTIVE_SIZE = DEFAULT_RULES.activeSize;
+export const INITIAL_ACTIVE_COORD = DEFAULT_RULES.initialActiveCoord; // start the active grid near the center
+export const PLACEMENTS_BEFORE_MOVEMENT = DEFAULT_RULES.placementsBeforeMovement;
 
-export const BOARD_SIZE = 5;
-export const ACTIVE_SIZE = 3;
-export const INITIAL_ACTIVE_COORD = 1; // start the active grid near the center
-export const PLACEMENTS_BEFORE_MOVEMENT = 2;
+export const getRules = (state: GameState): RuleSet => state.rules ?? DEFAULT_RULES;
 
-const TOTAL_CELLS = BOARD_SIZE * BOARD_SIZE;
+export type WinningLine = [number, number][];
 
-type WinningLine = [number, number][];
-const relativeWinningLines: WinningLine[] = [
-  [
-    [0, 0],
+const winningLineCache = new WeakMap<RuleSet, WinningLine[]>();
+
+/**
+ * Winning lines expressed as relative [row, col] offsets within the active
+ * window: every horizontal, vertical and diagonal run of `winLength` cells.
+ */
+export const getRelativeWinningLines = (rules: RuleSet): WinningLine[] => {
+  const cached = winningLineCache.get(rules);
+  if (cached) {
+    return cached;
+  }
+  const { activeSize, winLength } = rules;
+  const directions: [number, number][] = [
     [0, 1],
-    [0, 2]
-  ],
-  [
-    [1, 0],
-    [1, 1],
-    [1, 2]
-  ],
-  [
-    [2, 0],
-    [2, 1],
-    [2, 2]
-  ],
-  [
-    [0, 0],
     [1, 0],
-    [2, 0]
-  ],
-  [
-    [0, 1],
-    [1, 1],
-    [2, 1]
-  ],
-  [
-    [0, 2],
-    [1, 2],
-    [2, 2]
-  ],
-  [
-    [0, 0],
     [1, 1],
-    [2, 2]
-  ],
-  [
-    [0, 2],
-    [1, 1],
-    [2, 0]
-  ]
-];
-
-export const createInitialState = (): GameState => ({
-  board: Array.from({ length: TOTAL_CELLS }, () => " ") as Board,
-  activeX: INITIAL_ACTIVE_COORD,
-  activeY: INITIAL_ACTIVE_COORD,
-  placementsByPlayer: { X: 0, O: 0 }
+    [1, -1]
+  ];
+  const lines: WinningLine[] = [];
+  for (const [dr, dc] of directions) {
+    for (let row = 0; row < activeSize; row += 1) {
+      for (let col = 0; col < activeSize; col += 1) {
+        const endRow = row + dr * (winLength - 1);
+        const endCol = col + dc * (winLength - 1);
+        if (endRow < 0 || endRow >= activeSize || endCol < 0 || endCol >= activeSize) {
+          continue;
+        }
+        const line: WinningLine = [];
+        for (let step = 0; step < winLength; step += 1) {
+          line.push([row + dr * step, col + dc * step]);
+        }
+        lines.push(line);
+      }
+    }
+  }
+  winningLineCache.set(rules, lines);
+  return lines;
+};
+
+export const createInitialState = (rules: RuleSet = DEFAULT_RULES): GameState => ({
+  board: Array.from({ length: rules.boardSize * rules.boardSize }, () => " ") as Board,
+  activeX: rules.initialActiveCoord,
+  activeY: rules.initialActiveCoord,
+  placementsByPlayer: { X: 0, O: 0 },
+  rules
 });
 
 export const getOpponent = (player: Player): Player => (player === "X" ? "O" : "X");
 
-const toIndex = (row: number, col: number): number => row * BOARD_SIZE + col;
+const toIndex = (rules: RuleSet, row: number, col: number): number => row * rules.boardSize + col;
 
-export const getActiveIndices = ({ activeX, activeY }: GameState): number[] => {
+export const getActiveIndices = (state: GameState): number[] => {
+  const rules = getRules(state);
+  const { activeX, activeY } = state;
   const indices: number[] = [];
-  for (let row = 0; row < ACTIVE_SIZE; row += 1) {
-    for (let col = 0; col < ACTIVE_SIZE; col += 1) {
-      indices.push(toIndex(activeY + row, activeX + col));
+  for (let row = 0; row < rules.activeSize; row += 1) {
+    for (let col = 0; col < rules.activeSize; col += 1) {
+      indices.push(toIndex(rules, activeY + row, activeX + col));
     }
   }
   return indices;
 };
 
-export const isCellInActiveGrid = (state: GameState, row: number, col: number): boolean =>
-  row >= state.activeY &&
-  row < state.activeY + ACTIVE_SIZE &&
-  col >= state.activeX &&
-  col < state.activeX + ACTIVE_SIZE;
+export const isCellInActiveGrid = (state: GameState, row: number, col: number): boolean => {
+  const { activeSize } = getRules(state);
+  return (
+    row >= state.activeY &&
+    row < state.activeY + activeSize &&
+    col >= state.activeX &&
+    col < state.activeX + activeSize
+  );
+};
 
 export const canShiftGrid = (state: GameState, dx: number, dy: number): boolean => {
+  const { boardSize, activeSize } = getRules(state);
   const targetX = state.activeX + dx;
   const targetY = state.activeY + dy;
   return (
     targetX >= 0 &&
-    targetX <= BOARD_SIZE - ACTIVE_SIZE &&
+    targetX <= boardSize - activeSize &&
     targetY >= 0 &&
-    targetY <= BOARD_SIZE - ACTIVE_SIZE
+    targetY <= boardSize - activeSize
   );
 };
 
@@ -126,10 +140,14 @@ export const getShiftActions = (state: GameState): ShiftDirection[] => {
 };
 
 const hasReachedMovementMinimum = (state: GameState, player: Player): boolean =>
-  state.placementsByPlayer[player] >= PLACEMENTS_BEFORE_MOVEMENT;
+  state.placementsByPlayer[player] >= getRules(state).placementsBeforeMovement;
 
 const hasReachedPlacementLimit = (state: GameState, player: Player): boolean =>
-  state.placementsByPlayer[player] >= MAX_PLACEMENTS_PER_PLAYER;
+  state.placementsByPlayer[player] >= getRules(state).piecesPerPlayer;
+
+const COUNT_WORDS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+
+const countWord = (count: number): string => COUNT_WORDS[count] ?? String(count);
 
 const getPlayerPieceIndices = (state: GameState, player: Player): number[] =>
   state.board.reduce<number[]>((indices, cell, index) => {
@@ -173,14 +191,125 @@ export const getAvailableActions = (state: GameState, player: Player): Action[]
   return [...placements, ...moves, ...shifts];
 };
 
-export const applyAction = (state: GameState, action: Action, player: Player): GameState => {
+/** Stable identifiers for the rules an action can break. */
+export type RuleViolationCode =
+  | "game-over"
+  | "invalid-square"
+  | "placement-limit"
+  | "cell-occupied"
+  | "outside-window"
+  | "movement-locked"
+  | "not-own-piece"
+  | "destination-occupied"
+  | "destination-outside-window"
+  | "invalid-shift"
+  | "shift-off-board"
+  | "pass-not-allowed"
+  | "repetition";
+
+/** An action that breaks a rule. `code` stays stable; `message` is for people. */
+export class RuleViolation extends Error {
+  readonly code: RuleViolationCode;
+
+  constructor(code: RuleViolationCode, message: string) {
+    super(message);
+    this.name = "RuleViolation";
+    this.code = code;
+  }
+}
+
+export type ActionCheck = { ok: true } | { ok: false; violations: RuleViolation[] };
+
+const isSquare = (state: GameState, index: number): boolean =>
+  Number.isInteger(index) && index >= 0 && index < state.board.length;
+
+const isIndexInActiveGrid = (state: GameState, index: number): boolean => {
+  const { boardSize } = getRules(state);
+  return isCellInActiveGrid(state, Math.floor(index / boardSize), index % boardSize);
+};
+
+const movementLocked = (state: GameState, what: string): RuleViolation =>
+  new RuleViolation(
+    "movement-locked",
+    `Must place at least ${countWord(getRules(state).placementsBeforeMovement)} pieces before ${what}`
+  );
+
+/**
+ * Every rule `action` breaks for `player`, in the order `applyAction` checks
+ * them. Whether the game is already over is left to the caller.
+ */
+export const checkAction = (state: GameState, action: Action, player: Player): ActionCheck => {
+  const violations: RuleViolation[] = [];
   if (action.type === "place") {
-    if (hasReachedPlacementLimit(state, player)) {
-      throw new Error("Cannot place more than four pieces; move an existing peg instead");
+    if (!isSquare(state, action.index)) {
+      violations.push(new RuleViolation("invalid-square", `Square ${action.index} is not on the board`));
+    } else {
+      if (hasReachedPlacementLimit(state, player)) {
+        violations.push(new RuleViolation(
+          "placement-limit",
+          `Cannot place more than ${countWord(getRules(state).piecesPerPlayer)} pieces; move an existing peg instead`
+        ));
+      }
+      if (state.board[action.index] !== " ") {
+        violations.push(new RuleViolation("cell-occupied", "Cannot place on an occupied cell"));
+      }
+      if (!isIndexInActiveGrid(state, action.index)) {
+        violations.push(new RuleViolation("outside-window", "Can only place inside the active grid"));
+      }
+    }
+  } else if (action.type === "move") {
+    const squares = [action.from, action.to].filter((index) => !isSquare(state, index));
+    if (squares.length) {
+      violations.push(new RuleViolation("invalid-square", `Square ${squares[0]} is not on the board`));
+    } else {
+      if (!hasReachedMovementMinimum(state, player)) {
+        violations.push(movementLocked(state, "moving a peg"));
+      }
+      if (state.board[action.from] !== player) {
+        violations.push(new RuleViolation("not-own-piece", "Can only move your own pieces"));
+      }
+      if (state.board[action.to] !== " ") {
+        violations.push(new RuleViolation("destination-occupied", "Destination cell must be empty"));
+      }
+      if (!isIndexInActiveGrid(state, action.to)) {
+        violations.push(new RuleViolation("destination-outside-window", "Can only move into the active grid"));
+      }
     }
-    if (state.board[action.index] !== " ") {
-      throw new Error("Cannot place on an occupied cell");
+  } else if (action.type === "pass") {
+    if (getRules(state).noLegalActionPolicy !== "pass") {
+      violations.push(new RuleViolation("pass-not-allowed", "These rules do not allow passing"));
+    } else if (getAvailableActions(state, player).length) {
+      violations.push(new RuleViolation("pass-not-allowed", "Cannot pass while an action is available"));
     }
+  } else {
+    if (!hasReachedMovementMinimum(state, player)) {
+      violations.push(movementLocked(state, "shifting the grid"));
+    }
+    const isStep = (delta: number): boolean => delta === -1 || delta === 0 || delta === 1;
+    if (!isStep(action.dx) || !isStep(action.dy) || (action.dx === 0 && action.dy === 0)) {
+      violations.push(new RuleViolation("invalid-shift", "A shift moves the grid one cell in one of eight directions"));
+    } else if (!canShiftGrid(state, action.dx, action.dy)) {
+      violations.push(new RuleViolation("shift-off-board", "Invalid grid shift"));
+    }
+  }
+  return violations.length ? { ok: false, violations } : { ok: true };
+};
+
+/** A pass leaves the position as it is; only the side to move changes. */
+export const applyPass = (state: GameState): GameState => ({
+  ...state,
+  board: [...state.board] as Board,
+  placementsByPlayer: { ...state.placementsByPlayer }
+});
+
+/** Apply `action` for `player`; throws the first `RuleViolation` if it is illegal. */
+export const applyAction = (state: GameState, action: Action, player: Player): GameState => {
+  const check = checkAction(state, action, player);
+  if (!check.ok) {
+    throw check.violations[0];
+  }
+
+  if (action.type === "place") {
     const boardCopy = [...state.board] as Board;
     boardCopy[action.index] = player;
     return {
@@ -190,25 +319,16 @@ export const applyAction = (state: GameState, action: Action, player: Player): G
       placementsByPlayer: {
         ...state.placementsByPlayer,
         [player]: state.placementsByPlayer[player] + 1
-      }
+      },
+      rules: state.rules
     };
   }
 
+  if (action.type === "pass") {
+    return applyPass(state);
+  }
+
   if (action.type === "move") {
-    if (!hasReachedMovementMinimum(state, player)) {
-      throw new Error("Must place at least two pieces before moving a peg");
-    }
-    if (state.board[action.from] !== player) {
-      throw new Error("Can only move your own pieces");
-    }
-    if (state.board[action.to] !== " ") {
-      throw new Error("Destination cell must be empty");
-    }
-    const targetRow = Math.floor(action.to / BOARD_SIZE);
-    const targetCol = action.to % BOARD_SIZE;
-    if (!isCellInActiveGrid(state, targetRow, targetCol)) {
-      throw new Error("Can only move into the active grid");
-    }
     const boardCopy = [...state.board] as Board;
     boardCopy[action.from] = " ";
     boardCopy[action.to] = player;
@@ -216,46 +336,123 @@ export const applyAction = (state: GameState, action: Action, player: Player): G
       board: boardCopy,
       activeX: state.activeX,
       activeY: state.activeY,
-      placementsByPlayer: { ...state.placementsByPlayer }
+      placementsByPlayer: { ...state.placementsByPlayer },
+      rules: state.rules
     };
   }
 
-  if (!hasReachedMovementMinimum(state, player)) {
-    throw new Error("Must place at least two pieces before shifting the grid");
-  }
-
-  if (!canShiftGrid(state, action.dx, action.dy)) {
-    throw new Error("Invalid grid shift");
-  }
-
   return {
     board: [...state.board] as Board,
     activeX: state.activeX + action.dx,
     activeY: state.activeY + action.dy,
-    placementsByPlayer: { ...state.placementsByPlayer }
+    placementsByPlayer: { ...state.placementsByPlayer },
+    rules: state.rules
   };
 };
 
-export const getWinner = (state: GameState): Player | null => {
+export interface CompletedLine {
+  player: Player;
+  /** Absolute board indices of the cells forming the line. */
+  indices: number[];
+}
+
+export type OutcomeReason = "line" | "simultaneous-lines" | "board-full" | "no-legal-action";
+
+export interface GameOutcome {
+  winner: Player | null;
+  reason: OutcomeReason;
+  /** Every line completed inside the active grid, for either player. */
+  lines: CompletedLine[];
+  /** True when both players completed a line at once (only possible after a shift). */
+  bothCompleted: boolean;
+}
+
+export const getCompletedLines = (state: GameState): CompletedLine[] => {
   const { board, activeX, activeY } = state;
-  for (let i = 0; i < relativeWinningLines.length; i++) {
-    const line = relativeWinningLines[i];
-    const first = board[(activeY + line[0][0]) * BOARD_SIZE + activeX + line[0][1]];
+  const rules = getRules(state);
+  const { boardSize } = rules;
+  const lines = getRelativeWinningLines(rules);
+  const completed: CompletedLine[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const first = board[(activeY + line[0][0]) * boardSize + activeX + line[0][1]];
     if (first === " ") continue;
-    const second = board[(activeY + line[1][0]) * BOARD_SIZE + activeX + line[1][1]];
-    if (second !== first) continue;
-    const third = board[(activeY + line[2][0]) * BOARD_SIZE + activeX + line[2][1]];
-    if (third === first) return first as Player;
+    let complete = true;
+    for (let j = 1; j < line.length; j++) {
+      if (board[(activeY + line[j][0]) * boardSize + activeX + line[j][1]] !== first) {
+        complete = false;
+        break;
+      }
+    }
+    if (complete) {
+      completed.push({
+        player: first as Player,
+        indices: line.map(([row, col]) => (activeY + row) * boardSize + activeX + col)
+      });
+    }
   }
-  return null;
+  return completed;
 };
 
-export const isDraw = (state: GameState): boolean => {
-  const { board } = state;
+const isBoardFull = (board: Board): boolean => {
   for (let i = 0; i < board.length; i++) {
     if (board[i] === " ") return false;
   }
-  return !getWinner(state);
+  return true;
+};
+
+/**
+ * Classify a position as won, drawn or still in play. `mover` is the player
+ * who made the last action; it decides simultaneous lines under the
+ * mover-wins/mover-loses policies and the position is scored as a draw when
+ * it is unknown.
+ */
+export const getGameOutcome = (state: GameState, mover?: Player): GameOutcome | null => {
+  const lines = getCompletedLines(state);
+  if (lines.length) {
+    const players = new Set(lines.map((line) => line.player));
+    if (players.size === 1) {
+      return { winner: lines[0].player, reason: "line", lines, bothCompleted: false };
+    }
+    const policy = getRules(state).simultaneousLinePolicy;
+    let winner: Player | null = null;
+    if (mover && policy === "mover-wins") {
+      winner = mover;
+    } else if (mover && policy === "mover-loses") {
+      winner = getOpponent(mover);
+    }
+    return { winner, reason: "simultaneous-lines", lines, bothCompleted: true };
+  }
+  if (isBoardFull(state.board)) {
+    return { winner: null, reason: "board-full", lines, bothCompleted: false };
+  }
+  return null;
+};
+
+/**
+ * How the game ends when `player` is to move with nothing to choose from,
+ * whether no action exists or a filter such as the strict repetition rule
+ * removed them all. Null under the `pass` policy: the player passes instead.
+ */
+export const getNoLegalActionOutcome = (state: GameState, player: Player): GameOutcome | null => {
+  const policy = getRules(state).noLegalActionPolicy;
+  if (policy === "pass") {
+    return null;
+  }
+  return {
+    winner: policy === "loss" ? getOpponent(player) : null,
+    reason: "no-legal-action",
+    lines: [],
+    bothCompleted: false
+  };
+};
+
+export const getWinner = (state: GameState, mover?: Player): Player | null =>
+  getGameOutcome(state, mover)?.winner ?? null;
+
+export const isDraw = (state: GameState, mover?: Player): boolean => {
+  const outcome = getGameOutcome(state, mover);
+  return outcome !== null && outcome.winner === null;
 };
 
 export const getStateKey = (state: GameState, currentPlayer: Player): string => {
@@ -276,12 +473,11 @@ export const getStateKey = (state: GameState, currentPlayer: Player): string =>
   return key;
 };
 
-export const getActiveCellCoordinates = ({ activeX, activeY }: GameState): [number, number, number, number] => [
-  activeY,
-  activeY + ACTIVE_SIZE - 1,
-  activeX,
-  activeX + ACTIVE_SIZE - 1
-];
+export const getActiveCellCoordinates = (state: GameState): [number, number, number, number] => {
+  const { activeX, activeY } = state;
+  const { activeSize } = getRules(state);
+  return [activeY, activeY + activeSize - 1, activeX, activeX + activeSize - 1];
+};
 
 export const getNextStateKey = (state: GameState, action: Action, player: Player): string => {
   const nextState = applyAction(state, action, player);
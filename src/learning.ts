@@ -1,26 +1,21 @@
-import {
-  Action,
-  applyAction,
-  createInitialState,
-  FIRST_PLAYER,
-  getOpponent,
-  getWinner,
-  GameState,
-  getStateKey,
-  isDraw,
-  Player
-} from "./game";
-import { chooseBestAction, RepetitionRule } from "./minimax";
+import { GameOutcome, Player } from "./game";
+import { RepetitionRule, SearchCore } from "./minimax";
 import { DEFAULT_EVALUATION_PLUGIN, EvaluationPlugin } from "./evaluation";
+import { DEFAULT_RULES, RuleSet } from "./rules";
+import { DrawOptions, DrawReason } from "./draw";
+import { Match, MatchOutcome, MatchTurn } from "./match";
+import { DEFAULT_ENGINE, Engine, EngineLimits, EngineRequest, EngineSettings } from "./engine";
+import { DEFAULT_SKILL_LEVEL, SkillLevel, chooseSkillMove, getSkillDepth, isSkillLimited } from "./levels";
+import { createRandom, createRandomUint32, randomSeed } from "./random";
+import { OpeningBook, chooseBookMove } from "./book";
 
-export interface SelfPlayTurn {
-  stateBefore: GameState;
-  player: Player;
-  action: Action;
-}
+export type SelfPlayTurn = MatchTurn;
 
 export interface SelfPlayEpisodeResult {
   winner: Player | null;
+  drawReason?: DrawReason;
+  /** Final game outcome when the episode ended on the board (win or drawn line/board state). */
+  outcome?: GameOutcome;
   turnCount: number;
   history: SelfPlayTurn[];
   terminatedByMaxTurns?: boolean;
@@ -33,6 +28,27 @@ export interface SelfPlayOptions {
   evaluationPluginO?: EvaluationPlugin;
   maxTurns?: number;
   repetitionRule?: RepetitionRule;
+  rules?: RuleSet;
+  drawOptions?: DrawOptions;
+  searchCore?: SearchCore;
+  /** Share transposition-table entries between symmetric positions. */
+  symmetry?: boolean;
+  /** Engine for both sides unless overridden per side (default minimax). */
+  engine?: Engine;
+  engineX?: Engine;
+  engineO?: Engine;
+  /** Limits for every move; `depthLimit` stands in for `limits.depth`. */
+  limits?: EngineLimits;
+  /** Engine-specific settings such as the MCTS playout policy. */
+  engineSettings?: EngineSettings;
+  /** Skill level for both sides unless overridden per side (default perfect). */
+  level?: SkillLevel;
+  levelX?: SkillLevel;
+  levelO?: SkillLevel;
+  /** Makes episodes with random engines or skill levels repeatable; every move draws its own seed from it. */
+  seed?: number;
+  /** Opening book both sides play from, by weight, while it knows the position. */
+  book?: OpeningBook;
 }
 
 export const runSelfPlayEpisode = (options: SelfPlayOptions = {}): SelfPlayEpisodeResult => {
@@ -42,34 +58,69 @@ export const runSelfPlayEpisode = (options: SelfPlayOptions = {}): SelfPlayEpiso
   const depthLimit = options.depthLimit ?? 6;
   const maxTurns = options.maxTurns ?? 200;
   const repetitionRule = options.repetitionRule ?? "search";
+  const engineX = options.engineX ?? options.engine ?? DEFAULT_ENGINE;
+  const engineO = options.engineO ?? options.engine ?? DEFAULT_ENGINE;
+  const levelX = options.levelX ?? options.level ?? DEFAULT_SKILL_LEVEL;
+  const levelO = options.levelO ?? options.level ?? DEFAULT_SKILL_LEVEL;
+  const depth = options.limits?.depth ?? depthLimit;
+  const settings: EngineSettings = { core: options.searchCore, useSymmetry: options.symmetry, ...options.engineSettings };
+  const nextSeed = createRandomUint32(options.seed ?? randomSeed());
+  const levelRandom = createRandom(nextSeed());
 
-  let state = createInitialState();
-  let currentPlayer: Player = FIRST_PLAYER;
-  const history: SelfPlayTurn[] = [];
+  const match = new Match({
+    rules: options.rules ?? DEFAULT_RULES,
+    drawOptions: options.drawOptions,
+    strictRepetition: repetitionRule === "strict"
+  });
 
-    const historySet = new Set<string>();
-    historySet.add(getStateKey(state, currentPlayer));
+  const finish = (outcome: MatchOutcome, turnCount: number): SelfPlayEpisodeResult => ({
+    winner: outcome.winner,
+    drawReason: outcome.draw?.reason,
+    outcome: outcome.gameOutcome ?? undefined,
+    turnCount,
+    history: [...match.history]
+  });
 
-    for (let turn = 0; turn < maxTurns; turn += 1) {
-      const winner = getWinner(state);
-      if (winner || isDraw(state)) {
-        return { winner, turnCount: turn, history };
-      }
+  for (let turn = 0; turn < maxTurns; turn += 1) {
+    const outcome = match.outcome();
+    if (outcome) {
+      return finish(outcome, turn);
+    }
 
-      const evalPlugin = currentPlayer === "X" ? evalPluginX : evalPluginO;
-      const action = chooseBestAction(state, currentPlayer, historySet, depthLimit, evalPlugin.evaluate, repetitionRule);
-      history.push({ stateBefore: state, player: currentPlayer, action });
-      state = applyAction(state, action, currentPlayer);
-      currentPlayer = getOpponent(currentPlayer);
-      historySet.add(getStateKey(state, currentPlayer));
+    const player = match.currentPlayer;
+    const evalPlugin = player === "X" ? evalPluginX : evalPluginO;
+    const engine = player === "X" ? engineX : engineO;
+    const level = player === "X" ? levelX : levelO;
+    const request: EngineRequest = {
+      history: match.seenPositions,
+      limits: { ...options.limits, depth: getSkillDepth(level, depth) },
+      evaluation: evalPlugin,
+      repetitionRule,
+      seed: nextSeed(),
+      settings
+    };
+    const bookMove = options.book &&
+      chooseBookMove(options.book, match.state, player, levelRandom, repetitionRule === "strict" ? match.seenPositions : undefined);
+    if (bookMove) {
+      match.play(bookMove.action);
+      continue;
     }
+    // Weaker levels choose among every ranked move; an engine that ranks none explains why through think
+    const ranked = isSkillLimited(level) ? engine.analyse(match.state, player, { ...request, count: 0 }).evaluations : [];
+    const action = ranked.length
+      ? chooseSkillMove(ranked, level, levelRandom).action
+      : engine.think(match.state, player, request).action;
+    match.play(action);
+  }
 
-  const finalWinner = getWinner(state);
-  const draw = isDraw(state);
+  const finalOutcome = match.outcome();
+  if (finalOutcome) {
+    return finish(finalOutcome, maxTurns);
+  }
   return {
-    winner: finalWinner ?? (draw ? null : null),
+    winner: null,
     turnCount: maxTurns,
-    history,
+    history: [...match.history],
     terminatedByMaxTurns: true
   };
 };
@@ -83,6 +134,8 @@ export interface SelfPlayTrainingResult {
   episodes: number;
   results: SelfPlayEpisodeResult[];
   winnerCounts: Record<Player | "draw" | "timeout", number>;
+  /** Breakdown of `winnerCounts.draw` by adjudication reason. */
+  drawReasons: Record<DrawReason, number>;
 }
 
 export const runSelfPlayTraining = (
@@ -95,7 +148,20 @@ export const runSelfPlayTraining = (
     evaluationPluginX: options.evaluationPluginX,
     evaluationPluginO: options.evaluationPluginO,
     maxTurns: options.maxTurns,
-    repetitionRule: options.repetitionRule
+    repetitionRule: options.repetitionRule,
+    rules: options.rules,
+    drawOptions: options.drawOptions,
+    searchCore: options.searchCore,
+    symmetry: options.symmetry,
+    engine: options.engine,
+    engineX: options.engineX,
+    engineO: options.engineO,
+    limits: options.limits,
+    engineSettings: options.engineSettings,
+    level: options.level,
+    levelX: options.levelX,
+    levelO: options.levelO,
+    book: options.book
   };
 
   const results: SelfPlayEpisodeResult[] = [];
@@ -105,11 +171,21 @@ export const runSelfPlayTraining = (
     draw: 0,
     timeout: 0
   };
+  const drawReasons: SelfPlayTrainingResult["drawReasons"] = {
+    "board-full": 0,
+    "simultaneous-lines": 0,
+    "no-legal-action": 0,
+    repetition: 0,
+    "no-progress": 0,
+    agreement: 0
+  };
 
   for (let index = 0; index < episodes; index += 1) {
-    const episodeResult = runSelfPlayEpisode(episodeOptions);
+    const episodeResult = runSelfPlayEpisode(
+      options.seed === undefined ? episodeOptions : { ...episodeOptions, seed: options.seed + index }
+    );
     results.push(episodeResult);
-    const { winner, terminatedByMaxTurns } = episodeResult;
+    const { winner, drawReason, terminatedByMaxTurns } = episodeResult;
     if (winner === "X") {
       winnerCounts.X += 1;
     } else if (winner === "O") {
@@ -118,11 +194,14 @@ export const runSelfPlayTraining = (
       winnerCounts.timeout += 1;
     } else {
       winnerCounts.draw += 1;
+      if (drawReason) {
+        drawReasons[drawReason] += 1;
+      }
     }
     if (options.onEpisode) {
       options.onEpisode(episodeResult, index);
     }
   }
 
-  return { episodes, results, winnerCounts };
+  return { episodes, results, winnerCounts, drawReasons };
 };
@@ -0,0 +1,96 @@
+import { Random, randomInt } from "./random";
+
+// Skill levels weaken the AI the way people are weak: they look fewer moves
+// ahead, they pick among the moves that look about as good rather than always
+// the best one, and now and then they simply blunder.
+
+export interface SkillLevel {
+  readonly name: string;
+  readonly description: string;
+  /** Deepest search; unset leaves the engine's own depth alone. */
+  readonly depth?: number;
+  /**
+   * Softmax temperature over the ranked moves' scores: a move is picked with
+   * weight exp((score - best) / temperature). 0 always plays the best move.
+   */
+  readonly temperature: number;
+  /** Chance (0–1) of playing a random move other than the best instead. */
+  readonly blunderChance: number;
+}
+
+export const BEGINNER_LEVEL: SkillLevel = {
+  name: "beginner",
+  description: "Looks one move ahead, plays loosely and blunders often",
+  depth: 1,
+  temperature: 4,
+  blunderChance: 0.3
+};
+
+export const EASY_LEVEL: SkillLevel = {
+  name: "easy",
+  description: "Looks two plies ahead and makes the odd blunder",
+  depth: 2,
+  temperature: 2,
+  blunderChance: 0.15
+};
+
+export const MEDIUM_LEVEL: SkillLevel = {
+  name: "medium",
+  description: "Looks three plies ahead with occasional mistakes",
+  depth: 3,
+  temperature: 1,
+  blunderChance: 0.06
+};
+
+export const HARD_LEVEL: SkillLevel = {
+  name: "hard",
+  description: "Looks four plies ahead and rarely slips",
+  depth: 4,
+  temperature: 0.3,
+  blunderChance: 0.02
+};
+
+export const PERFECT_LEVEL: SkillLevel = {
+  name: "perfect",
+  description: "Full engine strength: always plays its best move",
+  temperature: 0,
+  blunderChance: 0
+};
+
+export const DEFAULT_SKILL_LEVEL = PERFECT_LEVEL;
+
+const SKILL_LEVELS: SkillLevel[] = [BEGINNER_LEVEL, EASY_LEVEL, MEDIUM_LEVEL, HARD_LEVEL, PERFECT_LEVEL];
+
+/** Levels from weakest to strongest. */
+export const listSkillLevels = (): SkillLevel[] => [...SKILL_LEVELS];
+
+export const getSkillLevel = (name?: string): SkillLevel =>
+  SKILL_LEVELS.find((level) => level.name === name) ?? DEFAULT_SKILL_LEVEL;
+
+/** Whether `level` ever plays anything but the best move, and so needs every move ranked. */
+export const isSkillLimited = (level: SkillLevel): boolean => level.temperature > 0 || level.blunderChance > 0;
+
+/** The search depth to use at `level` when the engine would otherwise search to `depth`. */
+export const getSkillDepth = (level: SkillLevel, depth: number): number =>
+  level.depth === undefined ? depth : Math.min(level.depth, depth);
+
+/** Pick a move at `level` from moves ranked best first. */
+export const chooseSkillMove = <T extends { score: number }>(evaluations: T[], level: SkillLevel, random: Random): T => {
+  if (evaluations.length <= 1 || !isSkillLimited(level)) {
+    return evaluations[0];
+  }
+  if (random() < level.blunderChance) {
+    return evaluations[1 + randomInt(random, evaluations.length - 1)];
+  }
+  if (level.temperature <= 0) {
+    return evaluations[0];
+  }
+  const best = Math.max(...evaluations.map((evaluation) => evaluation.score));
+  const weights = evaluations.map((evaluation) => Math.exp((evaluation.score - best) / level.temperature));
+  let pick = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < evaluations.length; i++) {
+    pick -= weights[i];
+    if (pick < 0) return evaluations[i];
+  }
+  return evaluations[0];
+};
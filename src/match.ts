@@ -0,0 +1,322 @@
+import {
+  Action,
+  ActionCheck,
+  FIRST_PLAYER,
+  GameOutcome,
+  GameState,
+  PASS_ACTION,
+  Player,
+  RuleViolation,
+  applyAction,
+  applyPass,
+  checkAction,
+  createInitialState,
+  getAvailableActions,
+  getGameOutcome,
+  getNoLegalActionOutcome,
+  getOpponent,
+  getRules
+} from "./game";
+import { DEFAULT_RULES, RuleSet, createRuleSet, isSameRuleSet } from "./rules";
+import { PositionKey, getPositionKey } from "./zobrist";
+import { assertValidState } from "./validate";
+import {
+  DrawOptions,
+  DrawResult,
+  PositionHistory,
+  adjudicateDraw,
+  createAgreedDraw,
+  createNoLegalActionDraw,
+  createPositionHistory,
+  recordPosition
+} from "./draw";
+
+export interface MatchTurn {
+  player: Player;
+  action: Action;
+  stateBefore: GameState;
+}
+
+export interface MatchOutcome {
+  winner: Player | null;
+  /** Set when the game ended on the board: a completed line, a full board or a side with no legal action. */
+  gameOutcome: GameOutcome | null;
+  /** Set when the game is drawn, whether on the board or by adjudication/agreement. */
+  draw: DrawResult | null;
+}
+
+export interface MatchOptions {
+  rules?: RuleSet;
+  drawOptions?: DrawOptions;
+  /**
+   * Start from a position other than the initial one; it must pass `validateState`.
+   * A state with `rules` of its own sets the match's, and must agree with `rules` when both are given.
+   */
+  initialState?: GameState;
+  firstPlayer?: Player;
+  /** Forbid actions that recreate an earlier position, like the search's `strict` repetition rule. */
+  strictRepetition?: boolean;
+}
+
+export interface SerializedMatch {
+  version: 1;
+  rules: RuleSet;
+  drawOptions: DrawOptions;
+  initialState: Omit<GameState, "rules">;
+  firstPlayer: Player;
+  turns: { player: Player; action: Action }[];
+  agreedDraw: boolean;
+  strictRepetition?: boolean;
+}
+
+const copyState = (state: Omit<GameState, "rules">): Omit<GameState, "rules"> => ({
+  board: [...state.board],
+  activeX: state.activeX,
+  activeY: state.activeY,
+  placementsByPlayer: { ...state.placementsByPlayer }
+});
+
+const matchOver = (): RuleViolation => new RuleViolation("game-over", "The match is already over");
+
+/**
+ * One game from its starting position: the current state and side to move,
+ * every turn played (with undo/redo), and the position history used for
+ * repetition and no-progress draws.
+ */
+export class Match {
+  readonly rules: RuleSet;
+  readonly drawOptions: DrawOptions;
+  /** Starting position and side to move; later positions follow from `history`. */
+  readonly initialState: GameState;
+  readonly firstPlayer: Player;
+  readonly strictRepetition: boolean;
+  private current: GameState;
+  private player: Player;
+  private readonly turns: MatchTurn[] = [];
+  private redoStack: MatchTurn[] = [];
+  private positions: PositionHistory;
+  private agreedDraw: DrawResult | null = null;
+
+  constructor(options: MatchOptions = {}) {
+    const stateRules = options.initialState?.rules;
+    if (stateRules && options.rules && !isSameRuleSet(stateRules, options.rules)) {
+      throw new Error(`The starting position's rules (${stateRules.name}) differ from the match's (${options.rules.name})`);
+    }
+    this.rules = stateRules ?? options.rules ?? DEFAULT_RULES;
+    const initialState = options.initialState ?? createInitialState(this.rules);
+    this.drawOptions = { ...options.drawOptions };
+    this.initialState = { ...initialState, rules: this.rules };
+    this.firstPlayer = options.firstPlayer ?? FIRST_PLAYER;
+    this.strictRepetition = options.strictRepetition ?? false;
+    if (options.initialState) {
+      // Either side may open a fresh board; later positions assume the usual opener
+      const fresh = initialState.placementsByPlayer.X + initialState.placementsByPlayer.O === 0;
+      assertValidState(this.initialState, this.firstPlayer, "reachability", fresh ? this.firstPlayer : FIRST_PLAYER);
+    }
+    this.current = this.initialState;
+    this.player = this.firstPlayer;
+    this.positions = createPositionHistory(this.current, this.player);
+  }
+
+  get state(): GameState {
+    return this.current;
+  }
+
+  get currentPlayer(): Player {
+    return this.player;
+  }
+
+  /** Turns played so far, oldest first. */
+  get history(): readonly MatchTurn[] {
+    return this.turns;
+  }
+
+  get ply(): number {
+    return this.turns.length;
+  }
+
+  get pliesSinceProgress(): number {
+    return this.positions.pliesSinceProgress;
+  }
+
+  /** Every position reached so far, in the form the search's repetition rule expects. */
+  get seenPositions(): Set<PositionKey> {
+    return new Set(this.positions.counts.keys());
+  }
+
+  get canUndo(): boolean {
+    return this.turns.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  outcome(): MatchOutcome | null {
+    // The player who just moved decides simultaneous lines after a shift
+    const gameOutcome = getGameOutcome(this.current, getOpponent(this.player));
+    if (gameOutcome?.winner) {
+      return { winner: gameOutcome.winner, gameOutcome, draw: null };
+    }
+    if (!gameOutcome && !this.agreedDraw && this.playableActions().length === 0) {
+      const stuck = getNoLegalActionOutcome(this.current, this.player);
+      if (stuck) {
+        return { winner: stuck.winner, gameOutcome: stuck, draw: stuck.winner ? null : createNoLegalActionDraw() };
+      }
+    }
+    const draw = this.agreedDraw ?? adjudicateDraw(this.current, this.player, this.positions, this.drawOptions);
+    if (draw) {
+      return { winner: null, gameOutcome, draw };
+    }
+    return null;
+  }
+
+  isOver(): boolean {
+    return this.outcome() !== null;
+  }
+
+  /** Actions for the side to move; just a pass when it has none and the rules allow passing. */
+  legalActions(): Action[] {
+    if (this.isOver()) {
+      return [];
+    }
+    const actions = this.playableActions();
+    return actions.length ? actions : [PASS_ACTION];
+  }
+
+  /**
+   * `checkAction` for the side to move, plus whether the match is already
+   * over, whether a pass is forced, and the strict repetition rule.
+   */
+  check(action: Action): ActionCheck {
+    if (this.isOver()) {
+      return { ok: false, violations: [matchOver()] };
+    }
+    if (action.type === "pass" && getRules(this.current).noLegalActionPolicy === "pass") {
+      return this.playableActions().length
+        ? { ok: false, violations: [new RuleViolation("pass-not-allowed", "Cannot pass while an action is available")] }
+        : { ok: true };
+    }
+    const check = checkAction(this.current, action, this.player);
+    if (check.ok && this.strictRepetition && this.repeatsPosition(action)) {
+      return { ok: false, violations: [new RuleViolation("repetition", "That action repeats an earlier position")] };
+    }
+    return check;
+  }
+
+  /**
+   * The state `action` leads to, without playing it. Only for actions `check`
+   * accepts: a pass the strict repetition rule forces is taken as given, though
+   * `applyAction` alone would see the actions that rule rules out.
+   */
+  stateAfter(action: Action): GameState {
+    return action.type === "pass" ? applyPass(this.current) : applyAction(this.current, action, this.player);
+  }
+
+  /** Play `action` for the side to move. Throws a `RuleViolation` if the match is over or the action is illegal. */
+  play(action: Action): GameState {
+    const check = this.check(action);
+    if (!check.ok) {
+      throw check.violations[0];
+    }
+    this.advance(action);
+    this.redoStack = [];
+    return this.current;
+  }
+
+  /** End the match as a draw by agreement. */
+  agreeDraw(): void {
+    if (this.isOver()) {
+      throw matchOver();
+    }
+    this.agreedDraw = createAgreedDraw();
+  }
+
+  /** Take back the last turn (and any agreed draw). Returns the undone turn, if any. */
+  undo(): MatchTurn | null {
+    const turn = this.turns.pop();
+    if (!turn) {
+      return null;
+    }
+    this.redoStack.push(turn);
+    this.current = turn.stateBefore;
+    this.player = turn.player;
+    this.agreedDraw = null;
+    this.rebuildPositions();
+    return turn;
+  }
+
+  /** Replay the most recently undone turn. Returns it, if any. */
+  redo(): MatchTurn | null {
+    const turn = this.redoStack.pop();
+    if (!turn) {
+      return null;
+    }
+    this.advance(turn.action);
+    return turn;
+  }
+
+  toJSON(): SerializedMatch {
+    return {
+      version: 1,
+      rules: { ...this.rules },
+      drawOptions: { ...this.drawOptions },
+      initialState: copyState(this.initialState),
+      firstPlayer: this.firstPlayer,
+      turns: this.turns.map(({ player, action }) => ({ player, action })),
+      agreedDraw: this.agreedDraw !== null,
+      ...(this.strictRepetition ? { strictRepetition: true } : {})
+    };
+  }
+
+  /** Rebuild a match by replaying its turns; throws if any turn is illegal. */
+  static fromJSON(data: SerializedMatch): Match {
+    if (data.version !== 1) {
+      throw new Error(`Unsupported match format version: ${data.version}`);
+    }
+    const match = new Match({
+      rules: createRuleSet(data.rules),
+      drawOptions: data.drawOptions,
+      initialState: copyState(data.initialState),
+      firstPlayer: data.firstPlayer,
+      strictRepetition: data.strictRepetition
+    });
+    for (const turn of data.turns) {
+      if (turn.player !== match.currentPlayer) {
+        throw new Error(`Turn ${match.ply + 1} was recorded for ${turn.player}, but ${match.currentPlayer} is to move`);
+      }
+      match.play(turn.action);
+    }
+    if (data.agreedDraw) {
+      match.agreeDraw();
+    }
+    return match;
+  }
+
+  /** Legal actions that the strict repetition rule, if on, leaves playable. */
+  private playableActions(): Action[] {
+    const actions = getAvailableActions(this.current, this.player);
+    return this.strictRepetition ? actions.filter((action) => !this.repeatsPosition(action)) : actions;
+  }
+
+  private repeatsPosition(action: Action): boolean {
+    const next = applyAction(this.current, action, this.player);
+    return this.positions.counts.has(getPositionKey(next, getOpponent(this.player)));
+  }
+
+  private advance(action: Action): void {
+    const stateBefore = this.current;
+    this.current = this.stateAfter(action);
+    this.turns.push({ player: this.player, action, stateBefore });
+    this.player = getOpponent(this.player);
+    recordPosition(this.positions, this.current, this.player, action);
+  }
+
+  private rebuildPositions(): void {
+    this.positions = createPositionHistory(this.initialState, this.firstPlayer);
+    for (let i = 0; i < this.turns.length; i++) {
+      const after = i + 1 < this.turns.length ? this.turns[i + 1].stateBefore : this.current;
+      recordPosition(this.positions, after, getOpponent(this.turns[i].player), this.turns[i].action);
+    }
+  }
+}
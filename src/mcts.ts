@@ -0,0 +1,313 @@
+import { Action, GameState, Player, getNoLegalActionOutcome, getOpponent, getRules } from "./game";
+import {
+  Bitboard,
+  MOVE_PASS,
+  OUTCOME_DRAW,
+  OUTCOME_NONE,
+  OUTCOME_X_WINS,
+  applyMove,
+  cloneBitboard,
+  decodeMove,
+  fromBitboard,
+  generateMoves,
+  getBitboardKey,
+  getBitboardOutcome,
+  supportsBitboard,
+  toBitboard,
+  undoMove,
+  writeGameState
+} from "./bitboard";
+import { EvaluationFunction } from "./evaluation";
+import { RepetitionRule } from "./minimax";
+import { Random, createRandom, randomInt, randomSeed } from "./random";
+import { PositionKey } from "./zobrist";
+
+// Monte Carlo Tree Search with UCT selection. Each iteration walks down the
+// tree by the UCB1 formula, adds one new node, plays the game out from there
+// and credits the result to every node on the way back up. Playouts pick
+// moves at random, or by an evaluation plugin's scores (always taking an
+// immediate win, with some random moves mixed in).
+
+export type PlayoutPolicy = "random" | "evaluator";
+
+export const PLAYOUT_POLICIES: PlayoutPolicy[] = ["random", "evaluator"];
+
+export const DEFAULT_MCTS_ITERATIONS = 10_000;
+/** Playouts still undecided after this many plies count as draws. */
+export const DEFAULT_PLAYOUT_PLIES = 50;
+export const DEFAULT_EXPLORATION = Math.SQRT2;
+
+export interface MctsOptions {
+  /** Stop after this many iterations (default 10,000). */
+  iterations?: number;
+  /** Stop after this many milliseconds; 0 or unset for no time limit. At least one iteration always runs. */
+  movetime?: number;
+  /** UCT exploration constant. */
+  exploration?: number;
+  playout?: PlayoutPolicy;
+  /** Plugin that steers `evaluator` playouts. */
+  evaluate?: EvaluationFunction;
+  maxPlayoutPlies?: number;
+  /** Seed for the random number generator; a random one is picked (and reported) when unset. */
+  seed?: number;
+  repetitionRule?: RepetitionRule;
+  /** Root moves to report; 0 or less for all. */
+  count?: number;
+  /** Polled every iteration; true ends the search with the statistics so far. At least one iteration always runs. */
+  shouldStop?: () => boolean;
+  /** Called with the statistics so far every `reportInterval` iterations. */
+  onProgress?: (progress: MctsResult) => void;
+  reportInterval?: number;
+}
+
+export interface MctsMoveStats {
+  action: Action;
+  visits: number;
+  /** Average playout result for the side to move: 1 for wins, 0.5 for draws, 0 for losses. */
+  value: number;
+  /** The action followed by the most visited line below it. */
+  pv: Action[];
+}
+
+export interface MctsResult {
+  /** Root moves, most visited first. */
+  evaluations: MctsMoveStats[];
+  iterations: number;
+  /** Tree nodes created, the root included. */
+  nodes: number;
+  elapsedMs: number;
+  seed: number;
+}
+
+interface MctsNode {
+  /** Encoded move leading here; unused at the root. */
+  move: number;
+  /** Player who made `move`; rewards are from their side. */
+  mover: Player;
+  children: MctsNode[];
+  /** Moves not expanded yet. */
+  untried: number[];
+  visits: number;
+  reward: number;
+  /** Set when the game is over here: the winner, or null for a draw. */
+  result: Player | null | undefined;
+}
+
+const EVALUATOR_EPSILON = 0.1;
+
+/**
+ * The game result after `mover` played into `board`: the winner, null for a
+ * draw, or undefined while the game goes on, with the next player's moves
+ * left in `moves`.
+ */
+const getResult = (board: Bitboard, mover: Player, moves: number[]): Player | null | undefined => {
+  const outcome = getBitboardOutcome(board, mover);
+  if (outcome === OUTCOME_DRAW) return null;
+  if (outcome !== OUTCOME_NONE) return outcome === OUTCOME_X_WINS ? "X" : "O";
+  const player = getOpponent(mover);
+  if (generateMoves(board, player, moves).length === 0) {
+    const policy = board.tables.rules.noLegalActionPolicy;
+    if (policy === "loss") return mover;
+    if (policy === "draw") return null;
+    moves.push(MOVE_PASS);
+  }
+  return undefined;
+};
+
+const createNode = (move: number, mover: Player, board: Bitboard): MctsNode => {
+  const untried: number[] = [];
+  const result = getResult(board, mover, untried);
+  return { move, mover, children: [], untried: result === undefined ? untried : [], visits: 0, reward: 0, result };
+};
+
+const rewardFor = (node: MctsNode, winner: Player | null): number => (winner === null ? 0.5 : winner === node.mover ? 1 : 0);
+
+const selectChild = (node: MctsNode, exploration: number): MctsNode => {
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestScore = -Infinity;
+  for (const child of node.children) {
+    const score = child.reward / child.visits + exploration * Math.sqrt(logVisits / child.visits);
+    if (score > bestScore) {
+      best = child;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+interface PlayoutContext {
+  random: Random;
+  policy: PlayoutPolicy;
+  evaluate?: EvaluationFunction;
+  maxPlies: number;
+  moves: number[];
+  scratch: GameState;
+}
+
+/** Pick a move for `player` in an `evaluator` playout: a win if there is one, else mostly the best-scored move. */
+const chooseGuidedMove = (context: PlayoutContext, board: Bitboard, player: Player, moves: number[]): number => {
+  const { random, evaluate } = context;
+  let bestScore = -Infinity;
+  let best: number[] = [];
+  for (const move of moves) {
+    applyMove(board, move, player);
+    const outcome = getBitboardOutcome(board, player);
+    const wins = outcome !== OUTCOME_NONE && outcome !== OUTCOME_DRAW && (outcome === OUTCOME_X_WINS) === (player === "X");
+    const score = wins
+      ? Infinity
+      : evaluate
+        ? evaluate(writeGameState(board, context.scratch), null, player, 0)
+        : 0;
+    undoMove(board, move, player);
+    if (wins) return move;
+    if (score > bestScore) {
+      bestScore = score;
+      best = [move];
+    } else if (score === bestScore) {
+      best.push(move);
+    }
+  }
+  if (random() < EVALUATOR_EPSILON) return moves[randomInt(random, moves.length)];
+  return best[randomInt(random, best.length)];
+};
+
+/** Play on from `board` with `player` to move; returns the winner, or null for a draw. */
+const playout = (context: PlayoutContext, board: Bitboard, player: Player): Player | null => {
+  let side = player;
+  for (let ply = 0; ply < context.maxPlies; ply++) {
+    const moves = generateMoves(board, side, context.moves);
+    if (moves.length === 0) {
+      const policy = board.tables.rules.noLegalActionPolicy;
+      if (policy === "loss") return getOpponent(side);
+      if (policy === "draw") return null;
+      side = getOpponent(side);
+      continue;
+    }
+    const move = context.policy === "evaluator"
+      ? chooseGuidedMove(context, board, side, moves)
+      : moves[randomInt(context.random, moves.length)];
+    applyMove(board, move, side);
+    const outcome = getBitboardOutcome(board, side);
+    if (outcome === OUTCOME_DRAW) return null;
+    if (outcome !== OUTCOME_NONE) return outcome === OUTCOME_X_WINS ? "X" : "O";
+    side = getOpponent(side);
+  }
+  return null;
+};
+
+const principalVariation = (node: MctsNode): Action[] => {
+  const line: Action[] = [];
+  for (let current = node; ; ) {
+    line.push(decodeMove(current.move));
+    if (!current.children.length) return line;
+    current = current.children.reduce((best, child) => (child.visits > best.visits ? child : best));
+  }
+};
+
+/**
+ * Search `state` for `player` by Monte Carlo Tree Search until the iteration
+ * or time limit is reached. Needs a rule set the bitboard core supports.
+ */
+export const searchMcts = (
+  state: GameState,
+  player: Player,
+  history: Set<PositionKey>,
+  options: MctsOptions = {}
+): MctsResult => {
+  const rules = getRules(state);
+  if (!supportsBitboard(rules)) {
+    throw new Error(`MCTS needs a board of at most 32 cells; rule set "${rules.name}" has ${rules.boardSize ** 2}`);
+  }
+  const start = Date.now();
+  const seed = options.seed ?? randomSeed();
+  const iterations = Math.max(1, options.iterations ?? DEFAULT_MCTS_ITERATIONS);
+  const movetime = options.movetime ?? 0;
+  const exploration = options.exploration ?? DEFAULT_EXPLORATION;
+  const reportInterval = Math.max(1, options.reportInterval ?? 1000);
+  const context: PlayoutContext = {
+    random: createRandom(seed),
+    policy: options.playout ?? "random",
+    evaluate: options.evaluate,
+    maxPlies: options.maxPlayoutPlies ?? DEFAULT_PLAYOUT_PLIES,
+    moves: [],
+    scratch: fromBitboard(toBitboard(state))
+  };
+  const rootBoard = toBitboard(state);
+  const opponent = getOpponent(player);
+
+  // Same root moves as the alpha-beta search: strict repetition filters out
+  // moves back into earlier positions, and a pass stands in for no move at all
+  const rootMoves = generateMoves(rootBoard, player, []).filter((move) => {
+    if (options.repetitionRule !== "strict") return true;
+    applyMove(rootBoard, move, player);
+    const repeats = history.has(getBitboardKey(rootBoard, opponent));
+    undoMove(rootBoard, move, player);
+    return !repeats;
+  });
+  if (rootMoves.length === 0 && getNoLegalActionOutcome(state, player) === null) {
+    rootMoves.push(MOVE_PASS);
+  }
+  const root: MctsNode = { move: MOVE_PASS, mover: opponent, children: [], untried: rootMoves, visits: 0, reward: 0, result: undefined };
+  let nodes = 1;
+
+  const report = (): MctsResult => {
+    const children = [...root.children].sort((a, b) => b.visits - a.visits);
+    const count = options.count ?? 0;
+    return {
+      evaluations: (count > 0 ? children.slice(0, count) : children).map((child) => ({
+        action: decodeMove(child.move),
+        visits: child.visits,
+        value: child.reward / child.visits,
+        pv: principalVariation(child)
+      })),
+      iterations: root.visits,
+      nodes,
+      elapsedMs: Date.now() - start,
+      seed
+    };
+  };
+
+  if (rootMoves.length === 0) {
+    return report();
+  }
+
+  const path: MctsNode[] = [];
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    if (iteration > 0 && ((movetime > 0 && Date.now() - start >= movetime) || options.shouldStop?.())) break;
+    const board = cloneBitboard(rootBoard);
+    let node = root;
+    path.length = 0;
+    path.push(root);
+    // Selection
+    while (node.result === undefined && node.untried.length === 0) {
+      node = selectChild(node, exploration);
+      applyMove(board, node.move, node.mover);
+      path.push(node);
+    }
+    // Expansion
+    if (node.result === undefined) {
+      const index = randomInt(context.random, node.untried.length);
+      const move = node.untried[index];
+      node.untried[index] = node.untried[node.untried.length - 1];
+      node.untried.pop();
+      const mover = getOpponent(node.mover);
+      applyMove(board, move, mover);
+      const child = createNode(move, mover, board);
+      node.children.push(child);
+      nodes++;
+      node = child;
+      path.push(node);
+    }
+    // Simulation and backpropagation
+    const winner = node.result !== undefined ? node.result : playout(context, board, getOpponent(node.mover));
+    for (const visited of path) {
+      visited.visits++;
+      visited.reward += rewardFor(visited, winner);
+    }
+    if (options.onProgress && (iteration + 1) % reportInterval === 0) {
+      options.onProgress(report());
+    }
+  }
+  return report();
+};
@@ -1,289 +1,1104 @@
-import { Action, applyAction, GameState, getAvailableActions, getOpponent, getStateKey, isDraw, getWinner, Player } from "./game";
+import {
+  Action,
+  PASS_ACTION,
+  applyAction,
+  applyPass,
+  GameState,
+  getAvailableActions,
+  getGameOutcome,
+  getNoLegalActionOutcome,
+  getOpponent,
+  getStateKey,
+  getRules,
+  Player
+} from "./game";
+import {
+  PositionKey,
+  ZobristHash,
+  ZobristTables,
+  assertHashConsistent,
+  getZobristTables,
+  hashAfterAction,
+  hashState,
+  isHashVerificationEnabled,
+  toPositionKey
+} from "./zobrist";
 import { DEFAULT_EVALUATION_PLUGIN, EvaluationFunction } from "./evaluation";
+import {
+  SymmetryTransform,
+  fromCanonicalAction,
+  getCanonicalPositionKey,
+  getCanonicalStateKey,
+  inverseTransform,
+  transformAction
+} from "./symmetry";
+import { assertValidState } from "./validate";
+import { OpeningBook, chooseBookMove } from "./book";
+import { Random } from "./random";
+import {
+  NO_MOVE,
+  TTFlag,
+  TranspositionTable,
+  createTranspositionTable,
+  decodeTableAction,
+  encodeTableAction,
+  probeTable,
+  startTableSearch,
+  storeEntry
+} from "./ttable";
+import {
+  Bitboard,
+  MOVE_MOVE,
+  MOVE_PASS,
+  MOVE_PLACE,
+  OUTCOME_DRAW,
+  OUTCOME_NONE,
+  OUTCOME_X_WINS,
+  applyMove,
+  decodeMove,
+  encodeAction,
+  fromBitboard,
+  generateMoves,
+  getBitboardKey,
+  getBitboardOutcome,
+  getBitboardStateKey,
+  supportsBitboard,
+  toBitboard,
+  undoMove,
+  writeGameState
+} from "./bitboard";
 
 export interface MinimaxStats {
   nodesVisited: number;
   cacheHits: number;
   cutoffs: number;
+  /** Transposition-table probes rejected as hash collisions (verification mode only). */
+  hashCollisions?: number;
 }
 
+/** Collision counting starts at zero only when verification is on, so callers can tell the modes apart. */
+const createStats = (): MinimaxStats =>
+  isHashVerificationEnabled()
+    ? { nodesVisited: 0, cacheHits: 0, cutoffs: 0, hashCollisions: 0 }
+    : { nodesVisited: 0, cacheHits: 0, cutoffs: 0 };
+
 export interface MinimaxResult {
   score: number;
   action?: Action;
   pv: Action[];
+  /** Set when `score` is a proven result rather than a heuristic one. */
+  forcedWin?: ForcedWin;
 }
 
 export type RepetitionRule = "search" | "strict";
 const DEFAULT_REPETITION_RULE: RepetitionRule = "search";
 
+/**
+ * Position representation used by the search: `array` works on `GameState`
+ * objects, `bitboard` on the in-place bitboard core. Both return identical
+ * results; rule sets too large for a bitboard always use `array`.
+ */
+export type SearchCore = "array" | "bitboard";
+const DEFAULT_SEARCH_CORE: SearchCore = "array";
+
 const defaultEvaluationFunction: EvaluationFunction = DEFAULT_EVALUATION_PLUGIN.evaluate;
 
 const evaluateTerminal = (state: GameState, winner: Player | null, aiPlayer: Player, depth: number, evaluate: EvaluationFunction): number =>
   evaluate(state, winner, aiPlayer, depth);
 
-// --- Transposition table ---
+// --- Proven results ---
+// Decided positions are scored by the search itself, never by the evaluation
+// plugin: WIN_SCORE minus the plies from the search root to the end of the
+// game, positive when the side it is scored for wins. Plugins must keep their
+// heuristic scores well below PROVEN_THRESHOLD, so that every score above it
+// is a forced win and its distance can be read back exactly.
 
-const enum TTFlag {
-  EXACT = 0,
-  LOWERBOUND = 1,
-  UPPERBOUND = 2,
-}
+export const WIN_SCORE = 1_000_000;
+const PROVEN_THRESHOLD = WIN_SCORE - 10_000;
 
-interface TTEntry {
-  score: number;
-  depth: number; // remaining depth (maxDepth - depth)
-  flag: TTFlag;
-  bestAction?: Action;
+/** A forced win: `winner` completes it `plies` plies after the searched position. */
+export interface ForcedWin {
+  winner: Player;
+  plies: number;
 }
 
+const isProvenScore = (score: number): boolean => Math.abs(score) >= PROVEN_THRESHOLD;
+
+/** Score at `ply` (counted from the search root) for the side to move, when `winner` has won. */
+const provenScore = (winner: Player, player: Player, ply: number): number =>
+  (winner === player ? 1 : -1) * (WIN_SCORE - ply);
+
+/**
+ * The forced win behind `score`, a score from `player`'s side found by a
+ * search that started `ply` plies above the position it is for; null when the
+ * score is heuristic.
+ */
+export const getForcedWin = (score: number, player: Player, ply = 0): ForcedWin | null =>
+  isProvenScore(score)
+    ? { winner: score > 0 ? player : getOpponent(player), plies: WIN_SCORE - Math.abs(score) - ply }
+    : null;
+
+// The table is shared between plies and searches, so proven scores are stored
+// counted from the entry's own position and converted back on the way out.
+const toTableScore = (score: number, ply: number): number =>
+  isProvenScore(score) ? score + Math.sign(score) * ply : score;
+const fromTableScore = (score: number, ply: number): number =>
+  isProvenScore(score) ? score - Math.sign(score) * ply : score;
+
+// --- Time limit ---
+// `searchIterative` arms a deadline and the caller's stop check for the
+// iterations after the first; both cores poll them every few thousand nodes
+// and unwind by throwing SEARCH_TIMEOUT.
+
+const DEADLINE_CHECK_INTERVAL = 2048;
+const SEARCH_TIMEOUT = new Error("Search time limit reached");
+let searchDeadline = Infinity;
+let searchStop: (() => boolean) | null = null;
+
+const checkDeadline = (stats: MinimaxStats): void => {
+  if (stats.nodesVisited % DEADLINE_CHECK_INTERVAL === 0 && (Date.now() >= searchDeadline || searchStop?.())) {
+    throw SEARCH_TIMEOUT;
+  }
+};
+
+// --- Search algorithm ---
+// Both cores search in negamax form: every node scores the position for the
+// side to move, so a child's score is negated on the way up. Leaves still call
+// the evaluation function for `aiPlayer` and flip the sign for the opponent.
+
+/**
+ * `pvs` (the default) searches the first action of each node with the full
+ * window and the rest with a null window, re-searching only those that beat
+ * it, and orders actions with killer moves and a history heuristic.
+ * `alphabeta` is plain alpha-beta with static ordering, kept as a baseline.
+ */
+export type SearchAlgorithm = "alphabeta" | "pvs";
+const DEFAULT_SEARCH_ALGORITHM: SearchAlgorithm = "pvs";
+
+/** Smallest window above `alpha` that still tells "better than alpha" apart, for any score scale. */
+const nullWindowBeta = (alpha: number): number => alpha + Math.max(1, Math.abs(alpha)) * Number.EPSILON;
+
+const sideSign = (player: Player, aiPlayer: Player): number => (player === aiPlayer ? 1 : -1);
+
 // --- Move ordering ---
-// Try moves in this priority: place-center, place-other, move, shift
-// This helps alpha-beta prune more effectively.
+// The TT move goes first. Under PVS the ply's two killer moves (the last
+// actions to cause a cutoff at that ply) follow, then the static priority:
+// place-center, place-diagonal, place-other, move, shift. Within each of those
+// classes the history score decides — the summed remaining depth² of every
+// cutoff the action caused for that side — which is what separates one peg
+// move or shift from another. Actions are identified by integer codes
+// (`encodeTableAction` on the array core, encoded moves on the bitboard core).
+
+interface MoveOrdering {
+  readonly dynamic: boolean;
+  /** Two most recent cutoff codes per ply. */
+  readonly killers: number[][];
+  readonly historyScores: Map<number, number>;
+}
+
+const createMoveOrdering = (algorithm: SearchAlgorithm): MoveOrdering => ({
+  dynamic: algorithm === "pvs",
+  killers: [],
+  historyScores: new Map()
+});
+
+const HISTORY_LIMIT = 2 ** 24;
+const KILLER_PRIORITY = 2 ** 40;
+
+const historyKey = (code: number, player: Player): number => code * 2 + (player === "X" ? 0 : 1);
+
+/** Search order for a node's actions, as indices into `codes`. */
+const orderMoves = (
+  ordering: MoveOrdering,
+  codes: number[],
+  staticScores: number[],
+  ply: number,
+  player: Player,
+  ttCode: number
+): number[] => {
+  const killers = ordering.dynamic ? ordering.killers[ply] : undefined;
+  const priorities = codes.map((code, i) => {
+    if (!ordering.dynamic) return staticScores[i];
+    const killer = killers ? (killers[0] === code ? 2 : killers[1] === code ? 1 : 0) : 0;
+    return killer * KILLER_PRIORITY
+      + staticScores[i] * HISTORY_LIMIT
+      + Math.min(ordering.historyScores.get(historyKey(code, player)) ?? 0, HISTORY_LIMIT - 1);
+  });
+  const order = codes.map((_, i) => i).sort((a, b) => priorities[b] - priorities[a]);
+  if (ttCode !== NO_MOVE) {
+    const ttIndex = order.findIndex((i) => codes[i] === ttCode);
+    if (ttIndex > 0) {
+      order.unshift(order.splice(ttIndex, 1)[0]);
+    }
+  }
+  return order;
+};
+
+const recordCutoff = (ordering: MoveOrdering, ply: number, player: Player, code: number, remainingDepth: number): void => {
+  if (!ordering.dynamic) return;
+  const killers = (ordering.killers[ply] ??= [NO_MOVE, NO_MOVE]);
+  if (killers[0] !== code) {
+    killers[1] = killers[0];
+    killers[0] = code;
+  }
+  const key = historyKey(code, player);
+  ordering.historyScores.set(key, (ordering.historyScores.get(key) ?? 0) + remainingDepth * remainingDepth);
+};
 
 const moveOrderScore = (action: Action, state: GameState): number => {
   if (action.type === "place") {
     // Prefer center of active grid
-    const row = Math.floor(action.index / 5);
-    const col = action.index % 5;
-    const centerRow = state.activeY + 1;
-    const centerCol = state.activeX + 1;
-    if (row === centerRow && col === centerCol) return 100;
-    // Prefer corners of active grid
-    const dr = Math.abs(row - centerRow);
-    const dc = Math.abs(col - centerCol);
-    if (dr === 1 && dc === 1) return 80;
+    const { boardSize, activeSize } = getRules(state);
+    const row = Math.floor(action.index / boardSize);
+    const col = action.index % boardSize;
+    const centerOffset = (activeSize - 1) / 2;
+    const dr = Math.abs(row - (state.activeY + centerOffset));
+    const dc = Math.abs(col - (state.activeX + centerOffset));
+    if (dr === 0 && dc === 0) return 100;
+    // Prefer diagonal cells (corners on the classic 3×3 window)
+    if (dr === dc) return 80;
     return 60;
   }
   if (action.type === "move") return 40;
   return 20; // shift
 };
 
-const sortActions = (actions: Action[], state: GameState): void => {
-  // In-place sort by move ordering heuristic (descending score = best first)
-  actions.sort((a, b) => moveOrderScore(b, state) - moveOrderScore(a, state));
+const tableFlag = (score: number, alpha: number, beta: number): TTFlag => {
+  if (score <= alpha) return TTFlag.UPPERBOUND;
+  if (score >= beta) return TTFlag.LOWERBOUND;
+  return TTFlag.EXACT;
 };
 
-export const minimax = (
+// --- Array search ---
+
+interface ArraySearchContext {
+  aiPlayer: Player;
+  maxDepth: number;
+  visited: Set<PositionKey>;
+  history: Set<PositionKey>;
+  stats: MinimaxStats;
+  evaluate: EvaluationFunction;
+  ttable: TranspositionTable | null;
+  repetitionRule: RepetitionRule;
+  useSymmetry: boolean;
+  zobrist: ZobristTables;
+  ordering: MoveOrdering;
+}
+
+const evaluateForSide = (
+  context: ArraySearchContext,
+  state: GameState,
+  winner: Player | null,
+  player: Player,
+  depth: number
+): number => winner
+  ? provenScore(winner, player, depth)
+  : sideSign(player, context.aiPlayer) * evaluateTerminal(state, null, context.aiPlayer, depth, context.evaluate);
+
+/** Negamax over `GameState` objects; the score is for `currentPlayer`. */
+const negamax = (
+  context: ArraySearchContext,
   state: GameState,
   currentPlayer: Player,
-  aiPlayer: Player,
   depth: number,
-  maxDepth: number,
-  visited: Set<string>,
-  history: Set<string>,
-  stats: MinimaxStats,
-  evaluate: EvaluationFunction = defaultEvaluationFunction,
-  alpha: number = -Infinity,
-  beta: number = Infinity,
-  ttable: Map<string, TTEntry> | null = null,
-  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE
+  alpha: number,
+  beta: number,
+  hash: ZobristHash
 ): MinimaxResult => {
+  const { stats, visited, history, ttable, zobrist, ordering } = context;
   stats.nodesVisited++;
-
-  const winner = getWinner(state);
-  if (winner) {
-    return { score: evaluateTerminal(state, winner, aiPlayer, depth, evaluate), pv: [] };
+  checkDeadline(stats);
+  const verify = isHashVerificationEnabled();
+  if (verify) {
+    assertHashConsistent(hash, state);
   }
 
-  if (isDraw(state)) {
-    return { score: evaluateTerminal(state, null, aiPlayer, depth, evaluate), pv: [] };
+  // The player who just moved decides simultaneous lines after a shift
+  const outcome = getGameOutcome(state, getOpponent(currentPlayer));
+  if (outcome) {
+    return { score: evaluateForSide(context, state, outcome.winner, currentPlayer, depth), pv: [] };
   }
 
-  if (depth >= maxDepth) {
-    return { score: evaluateTerminal(state, null, aiPlayer, depth, evaluate), pv: [] };
+  if (depth >= context.maxDepth) {
+    return { score: evaluateForSide(context, state, null, currentPlayer, depth), pv: [] };
   }
 
-  const key = getStateKey(state, currentPlayer);
+  const key = toPositionKey(hash, currentPlayer, zobrist);
   if (visited.has(key)) {
-    return { score: evaluateTerminal(state, null, aiPlayer, depth, evaluate), pv: [] };
+    return { score: evaluateForSide(context, state, null, currentPlayer, depth), pv: [] };
   }
 
   // --- Transposition table probe ---
-  const remainingDepth = maxDepth - depth;
-  if (ttable) {
-    const entry = ttable.get(key);
-    if (entry && entry.depth >= remainingDepth) {
-      stats.cacheHits++;
-      if (entry.flag === TTFlag.EXACT) {
-        return { score: entry.score, action: entry.bestAction, pv: entry.bestAction ? [entry.bestAction] : [] };
-      }
-      if (entry.flag === TTFlag.LOWERBOUND) {
-        alpha = Math.max(alpha, entry.score);
-      } else if (entry.flag === TTFlag.UPPERBOUND) {
-        beta = Math.min(beta, entry.score);
-      }
-      if (alpha >= beta) {
-        stats.cutoffs++;
-        return { score: entry.score, action: entry.bestAction, pv: entry.bestAction ? [entry.bestAction] : [] };
-      }
+  // With symmetry on, all eight images of a position share one entry whose
+  // best action is stored in the canonical orientation.
+  const remainingDepth = context.maxDepth - depth;
+  const canonical = ttable && context.useSymmetry ? getCanonicalPositionKey(state, currentPlayer) : null;
+  const tableKey = canonical ? canonical.key : key;
+  const verifyKey = verify
+    ? (canonical ? getCanonicalStateKey(state, currentPlayer) : getStateKey(state, currentPlayer))
+    : undefined;
+  let entry = ttable ? probeTable(ttable, tableKey) : undefined;
+  if (entry && verify && entry.verifyKey !== verifyKey) {
+    stats.hashCollisions = (stats.hashCollisions ?? 0) + 1;
+    entry = undefined;
+  }
+  const storedAction = entry && entry.move !== NO_MOVE ? decodeTableAction(entry.move) : undefined;
+  const entryAction = storedAction && canonical
+    ? fromCanonicalAction(storedAction, canonical.transform, getRules(state))
+    : storedAction;
+  // The stored entry's bound is classified against the window this node was given
+  const alphaOrig = alpha;
+  const betaOrig = beta;
+  if (entry && entry.depth >= remainingDepth) {
+    stats.cacheHits++;
+    const entryScore = fromTableScore(entry.score, depth);
+    if (entry.flag === TTFlag.EXACT) {
+      return { score: entryScore, action: entryAction, pv: entryAction ? [entryAction] : [] };
+    }
+    if (entry.flag === TTFlag.LOWERBOUND) {
+      alpha = Math.max(alpha, entryScore);
+    } else if (entry.flag === TTFlag.UPPERBOUND) {
+      beta = Math.min(beta, entryScore);
+    }
+    if (alpha >= beta) {
+      stats.cutoffs++;
+      return { score: entryScore, action: entryAction, pv: entryAction ? [entryAction] : [] };
     }
   }
 
   visited.add(key);
 
+  const opponent = getOpponent(currentPlayer);
   const allActions = getAvailableActions(state, currentPlayer);
-  const actions = repetitionRule === "strict"
-    ? allActions.filter(action => {
-        const nextState = applyAction(state, action, currentPlayer);
-        const nextPlayer = getOpponent(currentPlayer);
-        const nextKey = getStateKey(nextState, nextPlayer);
-        return !history.has(nextKey);
-      })
+  const actions = context.repetitionRule === "strict"
+    ? allActions.filter(action =>
+        !history.has(toPositionKey(hashAfterAction(hash, state, action, currentPlayer), opponent, zobrist))
+      )
     : allActions;
 
   if (actions.length === 0) {
-    visited.delete(key);
-    return { score: evaluateTerminal(state, null, aiPlayer, depth, evaluate), pv: [] };
-  }
-
-  // Move ordering for better alpha-beta cutoffs
-  sortActions(actions, state);
-
-  // If we have a TT best move, try it first
-  if (ttable) {
-    const ttEntry = ttable.get(key);
-    if (ttEntry?.bestAction) {
-      const bestIdx = actions.findIndex(a =>
-        a.type === ttEntry.bestAction!.type &&
-        JSON.stringify(a) === JSON.stringify(ttEntry.bestAction!)
-      );
-      if (bestIdx > 0) {
-        const [best] = actions.splice(bestIdx, 1);
-        actions.unshift(best);
-      }
+    const stuck = getNoLegalActionOutcome(state, currentPlayer);
+    if (stuck) {
+      visited.delete(key);
+      return { score: evaluateForSide(context, state, stuck.winner, currentPlayer, depth), pv: [] };
     }
+    // Pass: `key` stays in `visited`, so a second pass in a row ends the line as a cycle
+    const result = negamax(context, state, opponent, depth + 1, -beta, -alpha, hash);
+    visited.delete(key);
+    return { score: -result.score, action: PASS_ACTION, pv: [PASS_ACTION, ...result.pv] };
   }
 
-  const opponent = getOpponent(currentPlayer);
-  const isMaximizing = currentPlayer === aiPlayer;
+  const codes = actions.map(encodeTableAction);
+  const order = orderMoves(
+    ordering,
+    codes,
+    actions.map((action) => moveOrderScore(action, state)),
+    depth,
+    currentPlayer,
+    entryAction ? encodeTableAction(entryAction) : NO_MOVE
+  );
 
-  let bestScore = isMaximizing ? -Infinity : Infinity;
+  let bestScore = -Infinity;
   let bestAction: Action | undefined;
   let bestPV: Action[] = [];
   let localAlpha = alpha;
-  let localBeta = beta;
 
-  for (const action of actions) {
+  for (let n = 0; n < order.length; n++) {
+    const action = actions[order[n]];
     const nextState = applyAction(state, action, currentPlayer);
-    const result = minimax(
-      nextState, opponent, aiPlayer, depth + 1, maxDepth,
-      visited, history, stats, evaluate, localAlpha, localBeta, ttable, repetitionRule
-    );
+    const nextHash = hashAfterAction(hash, state, action, currentPlayer);
+    const nullBeta = nullWindowBeta(localAlpha);
+    let result: MinimaxResult | null = null;
+    if (n > 0 && ordering.dynamic && localAlpha > -Infinity && nullBeta < beta) {
+      result = negamax(context, nextState, opponent, depth + 1, -nullBeta, -localAlpha, nextHash);
+      if (-result.score > localAlpha && -result.score < beta) result = null;
+    }
+    result ??= negamax(context, nextState, opponent, depth + 1, -beta, -localAlpha, nextHash);
 
-    if (isMaximizing) {
-      if (result.score > bestScore) {
-        bestScore = result.score;
-        bestAction = action;
-        bestPV = [action, ...result.pv];
-      }
-      localAlpha = Math.max(localAlpha, bestScore);
-    } else {
-      if (result.score < bestScore) {
-        bestScore = result.score;
-        bestAction = action;
-        bestPV = [action, ...result.pv];
-      }
-      localBeta = Math.min(localBeta, bestScore);
+    const score = -result.score;
+    if (score > bestScore) {
+      bestScore = score;
+      bestAction = action;
+      bestPV = [action, ...result.pv];
     }
+    localAlpha = Math.max(localAlpha, bestScore);
 
     // Alpha-beta cutoff
-    if (localAlpha >= localBeta) {
+    if (localAlpha >= beta) {
       stats.cutoffs++;
+      recordCutoff(ordering, depth, currentPlayer, codes[order[n]], remainingDepth);
       break;
     }
   }
 
   // --- Transposition table store ---
   if (ttable) {
-    let flag: TTFlag;
-    if (bestScore <= alpha) {
-      flag = TTFlag.UPPERBOUND;
-    } else if (bestScore >= beta) {
-      flag = TTFlag.LOWERBOUND;
-    } else {
-      flag = TTFlag.EXACT;
+    const tableAction = bestAction && canonical
+      ? transformAction(bestAction, canonical.transform, getRules(state))
+      : bestAction;
+    storeEntry(ttable, tableKey, {
+      score: toTableScore(bestScore, depth),
+      depth: remainingDepth,
+      flag: tableFlag(bestScore, alphaOrig, betaOrig),
+      move: tableAction ? encodeTableAction(tableAction) : NO_MOVE,
+      verifyKey
+    });
+  }
+
+  visited.delete(key);
+  return { score: bestScore, action: bestAction, pv: bestPV };
+};
+
+/**
+ * Search `state` with `currentPlayer` to move. Unlike the internal negamax,
+ * `alpha`, `beta` and the returned score are all from `aiPlayer`'s side.
+ */
+export const minimax = (
+  state: GameState,
+  currentPlayer: Player,
+  aiPlayer: Player,
+  depth: number,
+  maxDepth: number,
+  visited: Set<PositionKey>,
+  history: Set<PositionKey>,
+  stats: MinimaxStats,
+  evaluate: EvaluationFunction = defaultEvaluationFunction,
+  alpha: number = -Infinity,
+  beta: number = Infinity,
+  ttable: TranspositionTable | null = null,
+  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE,
+  hash: ZobristHash = hashState(state),
+  useSymmetry = false,
+  algorithm: SearchAlgorithm = DEFAULT_SEARCH_ALGORITHM
+): MinimaxResult => {
+  const context: ArraySearchContext = {
+    aiPlayer,
+    maxDepth,
+    visited,
+    history,
+    stats,
+    evaluate,
+    ttable,
+    repetitionRule,
+    useSymmetry,
+    zobrist: getZobristTables(getRules(state)),
+    ordering: createMoveOrdering(algorithm)
+  };
+  const sign = sideSign(currentPlayer, aiPlayer);
+  const result = sign === 1
+    ? negamax(context, state, currentPlayer, depth, alpha, beta, hash)
+    : negamax(context, state, currentPlayer, depth, -beta, -alpha, hash);
+  const score = sign * result.score;
+  const forcedWin = getForcedWin(score, aiPlayer, depth);
+  return forcedWin ? { ...result, score, forcedWin } : { ...result, score };
+};
+
+// --- Bitboard search ---
+// Mirrors the array negamax move for move (same ordering, cycle guard and TT
+// policy) but applies and undoes encoded moves on a single bitboard.
+
+export interface BitboardMinimaxResult {
+  score: number;
+  move?: number;
+  pv: number[];
+}
+
+export interface BitboardSearchContext {
+  board: Bitboard;
+  aiPlayer: Player;
+  maxDepth: number;
+  visited: Set<number>;
+  history: Set<PositionKey>;
+  stats: MinimaxStats;
+  evaluate: EvaluationFunction;
+  ttable: TranspositionTable | null;
+  repetitionRule: RepetitionRule;
+  /** Share transposition-table entries between rotated and mirrored positions. */
+  useSymmetry: boolean;
+  /** Reused `GameState` handed to the evaluation function at leaves. */
+  scratch: GameState;
+  /** Killer and history tables, kept for as long as the context. */
+  ordering: MoveOrdering;
+}
+
+export const createBitboardSearchContext = (
+  state: GameState,
+  aiPlayer: Player,
+  maxDepth: number,
+  history: Set<PositionKey>,
+  stats: MinimaxStats,
+  evaluate: EvaluationFunction = defaultEvaluationFunction,
+  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE,
+  ttable: TranspositionTable | null = createTranspositionTable(),
+  useSymmetry = false,
+  algorithm: SearchAlgorithm = DEFAULT_SEARCH_ALGORITHM
+): BitboardSearchContext => {
+  const board = toBitboard(state);
+  return {
+    board,
+    aiPlayer,
+    maxDepth,
+    visited: new Set<number>(),
+    history,
+    stats,
+    evaluate,
+    ttable,
+    repetitionRule,
+    useSymmetry,
+    scratch: fromBitboard(board),
+    ordering: createMoveOrdering(algorithm)
+  };
+};
+
+const bitboardMoveOrderScore = (move: number, board: Bitboard): number => {
+  const type = move & 3;
+  if (type === MOVE_PLACE) {
+    const { boardSize, activeSize } = board.tables.rules;
+    const index = move >> 2;
+    const centerOffset = (activeSize - 1) / 2;
+    const dr = Math.abs(Math.floor(index / boardSize) - (board.activeY + centerOffset));
+    const dc = Math.abs((index % boardSize) - (board.activeX + centerOffset));
+    if (dr === 0 && dc === 0) return 100;
+    if (dr === dc) return 80;
+    return 60;
+  }
+  if (type === MOVE_MOVE) return 40;
+  return 20;
+};
+
+const transformMove = (move: number, transform: SymmetryTransform, board: Bitboard): number =>
+  encodeAction(transformAction(decodeMove(move), transform, board.tables.rules));
+
+// The default evaluation never looks at the position, so the board is only
+// written out for the others
+const getLeafState = (context: BitboardSearchContext): GameState =>
+  context.evaluate === defaultEvaluationFunction ? context.scratch : writeGameState(context.board, context.scratch);
+
+const evaluateBitboardLeaf = (
+  context: BitboardSearchContext,
+  winner: Player | null,
+  player: Player,
+  depth: number
+): number => winner
+  ? provenScore(winner, player, depth)
+  : sideSign(player, context.aiPlayer)
+    * evaluateTerminal(getLeafState(context), null, context.aiPlayer, depth, context.evaluate);
+
+const negamaxBitboard = (
+  context: BitboardSearchContext,
+  currentPlayer: Player,
+  depth: number,
+  alpha: number,
+  beta: number
+): BitboardMinimaxResult => {
+  const { board, stats, visited, ttable, history, ordering } = context;
+  stats.nodesVisited++;
+  checkDeadline(stats);
+  const verify = isHashVerificationEnabled();
+  if (verify) {
+    assertHashConsistent({ hi: board.hashHi, lo: board.hashLo }, writeGameState(board, context.scratch));
+  }
+
+  const outcome = getBitboardOutcome(board, getOpponent(currentPlayer));
+  if (outcome !== OUTCOME_NONE) {
+    const winner = outcome === OUTCOME_DRAW ? null : outcome === OUTCOME_X_WINS ? "X" : "O";
+    return { score: evaluateBitboardLeaf(context, winner, currentPlayer, depth), pv: [] };
+  }
+
+  if (depth >= context.maxDepth) {
+    return { score: evaluateBitboardLeaf(context, null, currentPlayer, depth), pv: [] };
+  }
+
+  const key = getBitboardKey(board, currentPlayer);
+  if (visited.has(key)) {
+    return { score: evaluateBitboardLeaf(context, null, currentPlayer, depth), pv: [] };
+  }
+
+  const remainingDepth = context.maxDepth - depth;
+  const canonical = ttable && context.useSymmetry
+    ? getCanonicalPositionKey(writeGameState(board, context.scratch), currentPlayer)
+    : null;
+  const tableKey = canonical ? canonical.key : key;
+  const verifyKey = verify
+    ? (canonical ? getCanonicalStateKey(context.scratch, currentPlayer) : getBitboardStateKey(board, currentPlayer))
+    : undefined;
+  let entry = ttable ? probeTable(ttable, tableKey) : undefined;
+  if (entry && verify && entry.verifyKey !== verifyKey) {
+    stats.hashCollisions = (stats.hashCollisions ?? 0) + 1;
+    entry = undefined;
+  }
+  const storedMove = entry && entry.move !== NO_MOVE ? entry.move : undefined;
+  const entryMove = storedMove !== undefined && canonical
+    ? transformMove(storedMove, inverseTransform(canonical.transform), board)
+    : storedMove;
+  const alphaOrig = alpha;
+  const betaOrig = beta;
+  if (entry && entry.depth >= remainingDepth) {
+    stats.cacheHits++;
+    const entryScore = fromTableScore(entry.score, depth);
+    if (entry.flag === TTFlag.EXACT) {
+      return { score: entryScore, move: entryMove, pv: entryMove !== undefined ? [entryMove] : [] };
+    }
+    if (entry.flag === TTFlag.LOWERBOUND) {
+      alpha = Math.max(alpha, entryScore);
+    } else if (entry.flag === TTFlag.UPPERBOUND) {
+      beta = Math.min(beta, entryScore);
+    }
+    if (alpha >= beta) {
+      stats.cutoffs++;
+      return { score: entryScore, move: entryMove, pv: entryMove !== undefined ? [entryMove] : [] };
+    }
+  }
+
+  visited.add(key);
+
+  const opponent = getOpponent(currentPlayer);
+  const moves = generateMoves(board, currentPlayer, []);
+  if (context.repetitionRule === "strict") {
+    let kept = 0;
+    for (let i = 0; i < moves.length; i++) {
+      applyMove(board, moves[i], currentPlayer);
+      const repeats = history.has(getBitboardKey(board, opponent));
+      undoMove(board, moves[i], currentPlayer);
+      if (!repeats) moves[kept++] = moves[i];
+    }
+    moves.length = kept;
+  }
+
+  if (moves.length === 0) {
+    const policy = board.tables.rules.noLegalActionPolicy;
+    if (policy !== "pass") {
+      visited.delete(key);
+      return { score: evaluateBitboardLeaf(context, policy === "loss" ? opponent : null, currentPlayer, depth), pv: [] };
+    }
+    const result = negamaxBitboard(context, opponent, depth + 1, -beta, -alpha);
+    visited.delete(key);
+    return { score: -result.score, move: MOVE_PASS, pv: [MOVE_PASS, ...result.pv] };
+  }
+
+  const order = orderMoves(
+    ordering,
+    moves,
+    moves.map((move) => bitboardMoveOrderScore(move, board)),
+    depth,
+    currentPlayer,
+    entryMove ?? NO_MOVE
+  );
+
+  let bestScore = -Infinity;
+  let bestMove: number | undefined;
+  let bestPV: number[] = [];
+  let localAlpha = alpha;
+
+  for (let n = 0; n < order.length; n++) {
+    const move = moves[order[n]];
+    applyMove(board, move, currentPlayer);
+    const nullBeta = nullWindowBeta(localAlpha);
+    let result: BitboardMinimaxResult | null = null;
+    if (n > 0 && ordering.dynamic && localAlpha > -Infinity && nullBeta < beta) {
+      result = negamaxBitboard(context, opponent, depth + 1, -nullBeta, -localAlpha);
+      if (-result.score > localAlpha && -result.score < beta) result = null;
+    }
+    result ??= negamaxBitboard(context, opponent, depth + 1, -beta, -localAlpha);
+    undoMove(board, move, currentPlayer);
+
+    const score = -result.score;
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+      bestPV = [move, ...result.pv];
     }
-    const existing = ttable.get(key);
-    if (!existing || existing.depth <= remainingDepth) {
-      ttable.set(key, { score: bestScore, depth: remainingDepth, flag, bestAction });
+    localAlpha = Math.max(localAlpha, bestScore);
+
+    if (localAlpha >= beta) {
+      stats.cutoffs++;
+      recordCutoff(ordering, depth, currentPlayer, move, remainingDepth);
+      break;
     }
   }
 
+  if (ttable) {
+    const tableMove = bestMove !== undefined && canonical
+      ? transformMove(bestMove, canonical.transform, board)
+      : bestMove;
+    storeEntry(ttable, tableKey, {
+      score: toTableScore(bestScore, depth),
+      depth: remainingDepth,
+      flag: tableFlag(bestScore, alphaOrig, betaOrig),
+      move: tableMove ?? NO_MOVE,
+      verifyKey
+    });
+  }
+
   visited.delete(key);
-  return { score: bestScore, action: bestAction, pv: bestPV };
+  return { score: bestScore, move: bestMove, pv: bestPV };
+};
+
+/** Bitboard counterpart of `minimax`: window and score are from `context.aiPlayer`'s side. */
+export const minimaxBitboard = (
+  context: BitboardSearchContext,
+  currentPlayer: Player,
+  depth: number,
+  alpha: number = -Infinity,
+  beta: number = Infinity
+): BitboardMinimaxResult => {
+  const sign = sideSign(currentPlayer, context.aiPlayer);
+  const result = sign === 1
+    ? negamaxBitboard(context, currentPlayer, depth, alpha, beta)
+    : negamaxBitboard(context, currentPlayer, depth, -beta, -alpha);
+  return { ...result, score: sign * result.score };
 };
 
 export interface EngineEvaluation {
   score: number;
   action: Action;
   pv: Action[];
+  /** Set when `score` is a proven result rather than a heuristic one. */
+  forcedWin?: ForcedWin;
+}
+
+/**
+ * The root of a search, set up once so that repeated searches of its actions
+ * (deeper iterations, aspiration re-searches) share one transposition table.
+ */
+interface RootSearch {
+  /** Root actions after the repetition filter; a lone pass when the rules force one. */
+  readonly actions: Action[];
+  /** Evaluate `actions[i]` for each index to `depthLimit`, inside the (alpha, beta) window. */
+  search(indices: number[], depthLimit: number, alpha: number, beta: number): EngineEvaluation[];
 }
 
+const createArrayRootSearch = (
+  state: GameState,
+  aiPlayer: Player,
+  history: Set<PositionKey>,
+  stats: MinimaxStats,
+  evaluate: EvaluationFunction,
+  repetitionRule: RepetitionRule,
+  useSymmetry: boolean,
+  ttable: TranspositionTable,
+  algorithm: SearchAlgorithm
+): RootSearch => {
+  const opponent = getOpponent(aiPlayer);
+  const zobrist = getZobristTables(getRules(state));
+  const rootHash = hashState(state);
+  const allActions = getAvailableActions(state, aiPlayer);
+  const playable = repetitionRule === "strict"
+    ? allActions.filter(action => !history.has(toPositionKey(hashAfterAction(rootHash, state, action, aiPlayer), opponent, zobrist)))
+    : allActions;
+  const stuck = playable.length === 0 && getNoLegalActionOutcome(state, aiPlayer) !== null;
+  const actions = stuck ? [] : playable.length ? playable : [PASS_ACTION];
+  const rootKey = toPositionKey(rootHash, aiPlayer, zobrist);
+  const context: ArraySearchContext = {
+    aiPlayer,
+    maxDepth: 1,
+    visited: new Set<PositionKey>(),
+    history,
+    stats,
+    evaluate,
+    ttable,
+    repetitionRule,
+    useSymmetry,
+    zobrist,
+    ordering: createMoveOrdering(algorithm)
+  };
+
+  return {
+    actions,
+    search: (indices, depthLimit, alpha, beta) => indices.map((index) => {
+      const action = actions[index];
+      context.maxDepth = depthLimit;
+      context.visited = new Set<PositionKey>([rootKey]);
+      // A forced pass may stand in for actions the strict rule ruled out, which `applyAction` would still see
+      const next = action.type === "pass" ? applyPass(state) : applyAction(state, action, aiPlayer);
+      const result = negamax(
+        context, next, opponent, 1, -beta, -alpha,
+        hashAfterAction(rootHash, state, action, aiPlayer)
+      );
+      return withForcedWin({ score: -result.score, action, pv: [action, ...result.pv] }, aiPlayer);
+    })
+  };
+};
+
+const withForcedWin = (evaluation: EngineEvaluation, aiPlayer: Player): EngineEvaluation => {
+  const forcedWin = getForcedWin(evaluation.score, aiPlayer);
+  return forcedWin ? { ...evaluation, forcedWin } : evaluation;
+};
+
+const createBitboardRootSearch = (
+  state: GameState,
+  aiPlayer: Player,
+  history: Set<PositionKey>,
+  stats: MinimaxStats,
+  evaluate: EvaluationFunction,
+  repetitionRule: RepetitionRule,
+  useSymmetry: boolean,
+  ttable: TranspositionTable,
+  algorithm: SearchAlgorithm
+): RootSearch => {
+  const context = createBitboardSearchContext(
+    state, aiPlayer, 1, history, stats, evaluate, repetitionRule, ttable, useSymmetry, algorithm
+  );
+  const { board } = context;
+  const opponent = getOpponent(aiPlayer);
+  const rootKey = getBitboardKey(board, aiPlayer);
+
+  const rootMoves = generateMoves(board, aiPlayer, []).filter((move) => {
+    if (repetitionRule !== "strict") return true;
+    applyMove(board, move, aiPlayer);
+    const repeats = history.has(getBitboardKey(board, opponent));
+    undoMove(board, move, aiPlayer);
+    return !repeats;
+  });
+  if (rootMoves.length === 0 && getNoLegalActionOutcome(state, aiPlayer) === null) {
+    rootMoves.push(MOVE_PASS);
+  }
+
+  return {
+    actions: rootMoves.map(decodeMove),
+    search: (indices, depthLimit, alpha, beta) => indices.map((index) => {
+      const move = rootMoves[index];
+      context.maxDepth = depthLimit;
+      context.visited = new Set<number>([rootKey]);
+      applyMove(board, move, aiPlayer);
+      const result = negamaxBitboard(context, opponent, 1, -beta, -alpha);
+      undoMove(board, move, aiPlayer);
+      const action = decodeMove(move);
+      return withForcedWin({ score: -result.score, action, pv: [action, ...result.pv.map(decodeMove)] }, aiPlayer);
+    })
+  };
+};
+
+const createRootSearch = (
+  state: GameState,
+  aiPlayer: Player,
+  history: Set<PositionKey>,
+  stats: MinimaxStats,
+  evaluate: EvaluationFunction,
+  repetitionRule: RepetitionRule,
+  core: SearchCore,
+  useSymmetry: boolean,
+  ttable: TranspositionTable = createTranspositionTable(),
+  algorithm: SearchAlgorithm = DEFAULT_SEARCH_ALGORITHM
+): RootSearch => {
+  // Malformed states would index past the board; consistency is the caller's business
+  assertValidState(state, aiPlayer, "structure");
+  const rules = getRules(state);
+  const bitboard = core === "bitboard" && supportsBitboard(rules);
+  // Scores are from aiPlayer's side and best moves use the core's encoding,
+  // so a table carried over from a different kind of search starts empty
+  startTableSearch(ttable, [rules, aiPlayer, evaluate, repetitionRule, bitboard, useSymmetry]);
+  return bitboard
+    ? createBitboardRootSearch(state, aiPlayer, history, stats, evaluate, repetitionRule, useSymmetry, ttable, algorithm)
+    : createArrayRootSearch(state, aiPlayer, history, stats, evaluate, repetitionRule, useSymmetry, ttable, algorithm);
+};
+
+const allIndices = (root: RootSearch): number[] => root.actions.map((_, index) => index);
+
+/** `root` limited to `actions`, kept in root order; indices then refer to the shorter list. */
+const restrictRoot = (root: RootSearch, actions: Action[]): RootSearch => {
+  const wanted = new Set(actions.map(encodeTableAction));
+  const kept = allIndices(root).filter((index) => wanted.has(encodeTableAction(root.actions[index])));
+  return {
+    actions: kept.map((index) => root.actions[index]),
+    search: (indices, depthLimit, alpha, beta) => root.search(indices.map((index) => kept[index]), depthLimit, alpha, beta)
+  };
+};
+
+/** The actions a search from this position considers at the root, in search order. */
+export const getRootActions = (
+  state: GameState,
+  aiPlayer: Player,
+  history: Set<PositionKey>,
+  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE,
+  core: SearchCore = DEFAULT_SEARCH_CORE
+): Action[] =>
+  createRootSearch(state, aiPlayer, history, createStats(), defaultEvaluationFunction, repetitionRule, core, false).actions;
+
+const topEvaluations = (evaluations: EngineEvaluation[], count: number): EngineEvaluation[] => {
+  evaluations.sort((a, b) => b.score - a.score);
+  return count > 0 ? evaluations.slice(0, count) : evaluations;
+};
+
 export const getEngineEvaluations = (
   state: GameState,
   aiPlayer: Player,
-  history: Set<string>,
+  history: Set<PositionKey>,
   depthLimit = 6,
   count = 3,
   evaluate: EvaluationFunction = defaultEvaluationFunction,
-  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE
+  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE,
+  core: SearchCore = DEFAULT_SEARCH_CORE,
+  useSymmetry = false,
+  ttable?: TranspositionTable,
+  algorithm: SearchAlgorithm = DEFAULT_SEARCH_ALGORITHM
 ): { evaluations: EngineEvaluation[]; stats: MinimaxStats } => {
-  const stats: MinimaxStats = { nodesVisited: 0, cacheHits: 0, cutoffs: 0 };
-  const allActions = getAvailableActions(state, aiPlayer);
-  const actions = repetitionRule === "strict"
-    ? allActions.filter(action => {
-        const nextState = applyAction(state, action, aiPlayer);
-        const nextPlayer = getOpponent(aiPlayer);
-        const nextKey = getStateKey(nextState, nextPlayer);
-        return !history.has(nextKey);
-      })
-    : allActions;
+  const stats = createStats();
+  const root = createRootSearch(
+    state, aiPlayer, history, stats, evaluate, repetitionRule, core, useSymmetry, ttable, algorithm
+  );
+  const evaluations = root.search(allIndices(root), depthLimit, -Infinity, Infinity);
+  return { evaluations: topEvaluations(evaluations, count), stats };
+};
 
-  if (actions.length === 0) {
-    return { evaluations: [], stats };
-  }
+// --- Iterative deepening ---
 
-  const opponent = getOpponent(aiPlayer);
-  const rootKey = getStateKey(state, aiPlayer);
+export const DEFAULT_ASPIRATION_WINDOW = 5;
 
-  // Shared transposition table across all root-move searches
-  const ttable = new Map<string, TTEntry>();
+export interface IterativeSearchOptions {
+  /** Deepest iteration (default 6). */
+  maxDepth?: number;
+  /** Time budget in milliseconds; 0 (the default) searches every depth up to `maxDepth`. */
+  movetime?: number;
+  /** How many of the best root actions to report (default 3; 0 or less reports all). */
+  count?: number;
+  evaluate?: EvaluationFunction;
+  repetitionRule?: RepetitionRule;
+  core?: SearchCore;
+  useSymmetry?: boolean;
+  /** Search algorithm (default `pvs`). */
+  algorithm?: SearchAlgorithm;
+  /** Transposition table to search with and keep filling; a fresh one by default. */
+  table?: TranspositionTable;
+  /** Only consider these root actions (the rest of the tree is unaffected). */
+  searchActions?: Action[];
+  /** Half-width of the window around the previous iteration's best score; 0 disables aspiration. */
+  aspirationWindow?: number;
+  /** Called after every completed iteration. */
+  onDepth?: (progress: SearchProgress) => void;
+  /** Polled along with the time limit; true ends the search early, keeping the last completed iteration. */
+  shouldStop?: () => boolean;
+}
 
-  const evaluations = actions.map((action) => {
-    const nextState = applyAction(state, action, aiPlayer);
-    const visited = new Set<string>([rootKey]);
-    const result = minimax(
-      nextState, opponent, aiPlayer, 1, depthLimit,
-      visited, history, stats, evaluate, -Infinity, Infinity, ttable, repetitionRule
-    );
-    return {
-      score: result.score,
-      action,
-      pv: [action, ...result.pv]
-    };
-  });
+export interface SearchProgress {
+  /** Deepest completed iteration. */
+  depth: number;
+  evaluations: EngineEvaluation[];
+  /** Running totals over every iteration so far. */
+  stats: MinimaxStats;
+  elapsedMs: number;
+}
 
-  evaluations.sort((a, b) => b.score - a.score);
-  return {
-    evaluations: count > 0 ? evaluations.slice(0, count) : evaluations,
-    stats
+export interface IterativeSearchResult extends SearchProgress {
+  /** The time budget ran out before `maxDepth` was completed. */
+  timedOut: boolean;
+  /** `shouldStop` ended the search before `maxDepth` was completed. */
+  stopped?: boolean;
+}
+
+/**
+ * One iteration inside an aspiration window around `guess`. Root actions that
+ * fail high, and those failing low when they could still make the reported
+ * top `count`, are searched again with a full window.
+ */
+const searchAspiration = (root: RootSearch, depth: number, guess: number, window: number, count: number): EngineEvaluation[] => {
+  const alpha = guess - window;
+  const beta = guess + window;
+  const indices = allIndices(root);
+  const evaluations = root.search(indices, depth, alpha, beta);
+  const retry = (fails: (score: number) => boolean): void => {
+    const failed = indices.filter((index) => fails(evaluations[index].score));
+    root.search(failed, depth, -Infinity, Infinity).forEach((evaluation, i) => {
+      evaluations[failed[i]] = evaluation;
+    });
   };
+  retry((score) => score >= beta);
+  const aboveAlpha = evaluations.filter((evaluation) => evaluation.score > alpha).length;
+  if (count <= 0 || aboveAlpha < count) {
+    retry((score) => score <= alpha);
+    return evaluations;
+  }
+  // The rest are only upper bounds, below every reported score
+  return evaluations.filter((evaluation) => evaluation.score > alpha);
+};
+
+/**
+ * Iterative deepening: search depth 1, 2, … up to `maxDepth`, reusing the
+ * transposition table between iterations and narrowing each iteration to an
+ * aspiration window around the previous best score. When `movetime` runs out,
+ * or `shouldStop` says so, the unfinished iteration is dropped and the last
+ * completed one is returned; depth 1 always completes.
+ */
+export const searchIterative = (
+  state: GameState,
+  aiPlayer: Player,
+  history: Set<PositionKey>,
+  options: IterativeSearchOptions = {}
+): IterativeSearchResult => {
+  const maxDepth = Math.max(1, options.maxDepth ?? 6);
+  const count = options.count ?? 3;
+  const window = options.aspirationWindow ?? DEFAULT_ASPIRATION_WINDOW;
+  const start = Date.now();
+  const stats = createStats();
+  const fullRoot = createRootSearch(
+    state, aiPlayer, history, stats,
+    options.evaluate ?? defaultEvaluationFunction,
+    options.repetitionRule ?? DEFAULT_REPETITION_RULE,
+    options.core ?? DEFAULT_SEARCH_CORE,
+    options.useSymmetry ?? false,
+    options.table,
+    options.algorithm
+  );
+  const root = options.searchActions ? restrictRoot(fullRoot, options.searchActions) : fullRoot;
+  let progress: SearchProgress = { depth: 0, evaluations: [], stats, elapsedMs: 0 };
+  if (root.actions.length === 0) {
+    return { ...progress, timedOut: false };
+  }
+  try {
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const guess = progress.evaluations[0]?.score;
+      const evaluations = window > 0 && guess !== undefined
+        ? searchAspiration(root, depth, guess, window, count)
+        : root.search(allIndices(root), depth, -Infinity, Infinity);
+      progress = { depth, evaluations: topEvaluations(evaluations, count), stats: { ...stats }, elapsedMs: Date.now() - start };
+      options.onDepth?.(progress);
+      if (depth < maxDepth && options.shouldStop?.()) {
+        return { ...progress, timedOut: false, stopped: true };
+      }
+      if (options.movetime && options.movetime > 0) {
+        if (progress.elapsedMs >= options.movetime) {
+          return { ...progress, timedOut: depth < maxDepth };
+        }
+        searchDeadline = start + options.movetime;
+      }
+      searchStop = options.shouldStop ?? null;
+    }
+  } catch (error) {
+    if (error !== SEARCH_TIMEOUT) throw error;
+    const stopped = options.shouldStop?.() ?? false;
+    return { ...progress, stats: { ...stats }, elapsedMs: Date.now() - start, timedOut: !stopped, stopped };
+  } finally {
+    searchDeadline = Infinity;
+    searchStop = null;
+  }
+  return { ...progress, timedOut: false };
 };
 
 export const chooseBestAction = (
   state: GameState,
   aiPlayer: Player,
-  history: Set<string>,
+  history: Set<PositionKey>,
   depthLimit = 6,
   evaluate: EvaluationFunction = defaultEvaluationFunction,
-  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE
+  repetitionRule: RepetitionRule = DEFAULT_REPETITION_RULE,
+  core: SearchCore = DEFAULT_SEARCH_CORE,
+  useSymmetry = false,
+  book?: OpeningBook,
+  random: Random = Math.random
 ): Action => {
-  const { evaluations } = getEngineEvaluations(state, aiPlayer, history, depthLimit, 1, evaluate, repetitionRule);
+  // A book move, picked by weight, saves searching a known opening
+  const bookMove = book && chooseBookMove(book, state, aiPlayer, random, repetitionRule === "strict" ? history : undefined);
+  if (bookMove) {
+    return bookMove.action;
+  }
+  const { evaluations } = getEngineEvaluations(
+    state, aiPlayer, history, depthLimit, 1, evaluate, repetitionRule, core, useSymmetry
+  );
   if (evaluations.length === 0) {
     throw new Error(
       repetitionRule === "strict"
-        ? "Minimax could not find a move (all moves likely repeat history in strict mode)"
-        : "Minimax could not find a move"
+        ? "Minimax could not find a move (all moves likely repeat history in strict mode, and the rules do not allow passing)"
+        : `Minimax could not find a move (${aiPlayer} has no legal action, and the rules do not allow passing)`
     );
   }
   return evaluations[0].action!;
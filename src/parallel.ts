@@ -0,0 +1,300 @@
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { Action, GameState, Player } from "./game";
+import { getEvaluationPlugin } from "./evaluation";
+import {
+  EngineEvaluation,
+  IterativeSearchOptions,
+  IterativeSearchResult,
+  MinimaxStats,
+  SearchProgress,
+  getRootActions,
+  searchIterative
+} from "./minimax";
+import { createTranspositionTable, encodeTableAction } from "./ttable";
+import { PositionKey, isHashVerificationEnabled } from "./zobrist";
+
+// Parallel root search: the root actions are dealt round-robin to the worker
+// threads of a search pool, each of which runs `searchIterative` on its share
+// with its own transposition table. Every root action is still searched to the
+// same depth as on one thread, so the merged scores and ranking match the
+// serial search. A pool's threads keep a table per side between searches, so a
+// pool that lasts the whole game keeps them for the whole game; without one,
+// a pool is started for the search and closed after it. A caller's `table` is
+// only used on one thread; workers cannot share it.
+
+export interface ParallelSearchProgress extends SearchProgress {
+  /** Threads that searched; never more than there are root actions. */
+  threads: number;
+}
+
+export interface ParallelSearchOptions
+  extends Omit<IterativeSearchOptions, "evaluate" | "searchActions" | "onDepth" | "shouldStop"> {
+  /** Threads to spread the root actions across; 1 (the default) searches on the calling thread. */
+  threads?: number;
+  /** Threads to search on instead of starting new ones; its size takes the place of `threads`. */
+  pool?: SearchPool;
+  /**
+   * Evaluation plugin name. Workers look it up in their own registry, so only
+   * the built-in plugins are available to them.
+   */
+  evaluation?: string;
+  /** Size of each table of the pool started for the search (or of the calling thread's, without a `table`); 16 MB by default. */
+  hashMegabytes?: number;
+  onDepth?: (progress: ParallelSearchProgress) => void;
+  /**
+   * Aborting stops the search early with the deepest depth every thread
+   * completed. A search on the calling thread only sees it before it starts.
+   */
+  signal?: AbortSignal;
+}
+
+export type ParallelSearchResult = IterativeSearchResult & ParallelSearchProgress;
+
+/** What a worker is asked to search (see search-worker.ts). */
+export interface WorkerTask {
+  state: GameState;
+  player: Player;
+  history: PositionKey[];
+  actions: Action[];
+  options: Omit<IterativeSearchOptions, "evaluate" | "searchActions" | "onDepth" | "shouldStop" | "movetime" | "table">;
+  evaluation?: string;
+  movetime: number;
+  startedAt: number;
+}
+
+/** What a pool's threads are started with. */
+export interface SearchWorkerData {
+  hashMegabytes?: number;
+  verifyHash: boolean;
+  /** Shared with the pool, which sets it to 1 to stop the running search. */
+  stopFlag: Int32Array;
+}
+
+export type SearchPoolCommand = { type: "search"; task: WorkerTask } | { type: "clear" };
+
+export type WorkerMessage =
+  | { type: "depth"; progress: SearchProgress }
+  | { type: "done"; result: IterativeSearchResult }
+  | { type: "error"; message: string };
+
+export interface SearchPoolOptions {
+  threads: number;
+  /** Size of each thread's table per side (default 16 MB). */
+  hashMegabytes?: number;
+}
+
+export interface SearchPool {
+  readonly threads: number;
+  /**
+   * Search one task on each of the first `tasks.length` threads; aborting
+   * `signal` stops them all. One search at a time.
+   */
+  run: (
+    tasks: WorkerTask[],
+    onDepth: (thread: number, progress: SearchProgress) => void,
+    signal?: AbortSignal
+  ) => Promise<IterativeSearchResult[]>;
+  /** Empty the kept tables, for a new game. */
+  clearHash: () => void;
+  close: () => Promise<void>;
+}
+
+const WORKER_SCRIPT = path.join(__dirname, "search-worker.js");
+
+interface PoolThread {
+  worker: Worker;
+  current: {
+    resolve: (result: IterativeSearchResult) => void;
+    reject: (error: Error) => void;
+    onDepth: (progress: SearchProgress) => void;
+  } | null;
+}
+
+const startPoolThread = (data: SearchWorkerData): PoolThread => {
+  const worker = new Worker(WORKER_SCRIPT, { workerData: data });
+  // An idle thread does not keep the process alive
+  worker.unref();
+  const thread: PoolThread = { worker, current: null };
+  const settle = (): NonNullable<PoolThread["current"]> => {
+    const search = thread.current!;
+    thread.current = null;
+    worker.unref();
+    return search;
+  };
+  worker.on("message", (message: WorkerMessage) => {
+    if (!thread.current) return;
+    if (message.type === "depth") {
+      thread.current.onDepth(message.progress);
+    } else if (message.type === "done") {
+      settle().resolve(message.result);
+    } else {
+      settle().reject(new Error(message.message));
+    }
+  });
+  worker.on("error", (error: Error) => {
+    if (thread.current) settle().reject(error);
+  });
+  worker.on("exit", (code) => {
+    if (thread.current) settle().reject(new Error(`Search worker stopped with exit code ${code}`));
+  });
+  return thread;
+};
+
+const searchOnThread = (
+  thread: PoolThread,
+  task: WorkerTask,
+  onDepth: (progress: SearchProgress) => void
+): Promise<IterativeSearchResult> =>
+  new Promise((resolve, reject) => {
+    thread.current = { resolve, reject, onDepth };
+    thread.worker.ref();
+    const command: SearchPoolCommand = { type: "search", task };
+    thread.worker.postMessage(command);
+  });
+
+export const createSearchPool = (options: SearchPoolOptions): SearchPool => {
+  const stopFlag = new Int32Array(new SharedArrayBuffer(4));
+  const data: SearchWorkerData = { hashMegabytes: options.hashMegabytes, verifyHash: isHashVerificationEnabled(), stopFlag };
+  const threads = Array.from({ length: Math.max(1, Math.floor(options.threads)) }, () => startPoolThread(data));
+  let searching = false;
+
+  const run: SearchPool["run"] = async (tasks, onDepth, signal) => {
+    if (searching) {
+      throw new Error("The search pool is already searching");
+    }
+    searching = true;
+    const stop = (): void => {
+      Atomics.store(stopFlag, 0, 1);
+    };
+    Atomics.store(stopFlag, 0, signal?.aborted ? 1 : 0);
+    signal?.addEventListener("abort", stop);
+    const searches = tasks.map((task, index) =>
+      searchOnThread(threads[index], task, (progress) => onDepth(index, progress))
+    );
+    // Every thread must be idle again before the next search, even when one fails
+    const settled = await Promise.allSettled(
+      searches.map((search) => search.catch((error: Error) => {
+        stop();
+        throw error;
+      }))
+    );
+    signal?.removeEventListener("abort", stop);
+    searching = false;
+    const failed = settled.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (failed) throw failed.reason;
+    return settled.map((result) => (result as PromiseFulfilledResult<IterativeSearchResult>).value);
+  };
+
+  return {
+    threads: threads.length,
+    run,
+    clearHash: () => {
+      const command: SearchPoolCommand = { type: "clear" };
+      for (const thread of threads) thread.worker.postMessage(command);
+    },
+    close: async () => {
+      await Promise.all(threads.map((thread) => thread.worker.terminate()));
+    }
+  };
+};
+
+const sumStats = (parts: MinimaxStats[]): MinimaxStats => {
+  const total: MinimaxStats = { nodesVisited: 0, cacheHits: 0, cutoffs: 0 };
+  for (const stats of parts) {
+    total.nodesVisited += stats.nodesVisited;
+    total.cacheHits += stats.cacheHits;
+    total.cutoffs += stats.cutoffs;
+    if (stats.hashCollisions !== undefined) {
+      total.hashCollisions = (total.hashCollisions ?? 0) + stats.hashCollisions;
+    }
+  }
+  return total;
+};
+
+/**
+ * Spread an iterative-deepening search over `threads` worker threads, or the
+ * threads of `pool`. Reports
+ * a depth through `onDepth` once every thread has completed it, and returns
+ * the deepest depth all threads completed, with their node counts combined.
+ */
+export const searchParallel = async (
+  state: GameState,
+  aiPlayer: Player,
+  history: Set<PositionKey>,
+  options: ParallelSearchOptions = {}
+): Promise<ParallelSearchResult> => {
+  const { threads: requested = 1, pool, evaluation, hashMegabytes, onDepth, movetime = 0, table, signal, ...searchOptions } = options;
+  const actions = getRootActions(state, aiPlayer, history, options.repetitionRule, options.core);
+  const threads = Math.max(1, Math.min(pool ? pool.threads : requested, actions.length));
+  if (threads === 1) {
+    const evaluate = getEvaluationPlugin(evaluation).evaluate;
+    const result = searchIterative(state, aiPlayer, history, {
+      ...searchOptions,
+      movetime,
+      table: table ?? createTranspositionTable(hashMegabytes),
+      evaluate,
+      onDepth: onDepth && ((progress) => onDepth({ ...progress, threads })),
+      shouldStop: signal && (() => signal.aborted)
+    });
+    return { ...result, threads };
+  }
+
+  const start = Date.now();
+  const count = options.count ?? 3;
+  const rootOrder = new Map(actions.map((action, index) => [encodeTableAction(action), index]));
+  const order = (evaluation: EngineEvaluation): number => rootOrder.get(encodeTableAction(evaluation.action)) ?? 0;
+  // Same order as a serial search: best score first, ties in root order
+  const merge = (parts: SearchProgress[]): ParallelSearchProgress => {
+    const evaluations = parts
+      .flatMap((part) => part.evaluations)
+      .sort((a, b) => b.score - a.score || order(a) - order(b));
+    return {
+      depth: parts[0].depth,
+      evaluations: count > 0 ? evaluations.slice(0, count) : evaluations,
+      stats: sumStats(parts.map((part) => part.stats)),
+      elapsedMs: Date.now() - start,
+      threads
+    };
+  };
+
+  const shares: Action[][] = Array.from({ length: threads }, () => []);
+  actions.forEach((action, index) => shares[index % threads].push(action));
+  const reports: SearchProgress[][] = shares.map(() => []);
+  let reported = 0;
+  const tasks: WorkerTask[] = shares.map((share) => ({
+    state,
+    player: aiPlayer,
+    history: [...history],
+    actions: share,
+    options: searchOptions,
+    evaluation,
+    movetime,
+    startedAt: start
+  }));
+  const searchPool = pool ?? createSearchPool({ threads, hashMegabytes });
+  let results: IterativeSearchResult[];
+  try {
+    results = await searchPool.run(
+      tasks,
+      (thread, progress) => {
+        reports[thread].push(progress);
+        while (reports.every((list) => list.length > reported)) {
+          reported++;
+          onDepth?.(merge(reports.map((list) => list[reported - 1])));
+        }
+      },
+      signal
+    );
+  } finally {
+    if (!pool) await searchPool.close();
+  }
+
+  const depth = Math.min(...results.map((result) => result.depth));
+  return {
+    ...merge(reports.map((list) => list[depth - 1])),
+    stats: sumStats(results.map((result) => result.stats)),
+    timedOut: results.some((result) => result.timedOut),
+    stopped: results.some((result) => result.stopped)
+  };
+};
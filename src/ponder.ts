@@ -0,0 +1,107 @@
+import { Action, GameState, Player, applyAction, applyPass, getOpponent } from "./game";
+import { PositionKey, getNextPositionKey, getPositionKey } from "./zobrist";
+
+// Pondering: searching on the opponent's time. While the opponent thinks, the
+// engine assumes they will play the reply it expects (the first move of its
+// principal variation for them) and searches the position after it. When they
+// do, that search goes on as the engine's own and is already well under way;
+// when they don't, it is stopped, having still filled the transposition table.
+
+export interface PonderStats {
+  /** Replies predicted so far, and how many the opponent actually played. */
+  predictions: number;
+  hits: number;
+}
+
+export const createPonderStats = (): PonderStats => ({ predictions: 0, hits: 0 });
+
+/**
+ * Search for `player` until done or until `signal` is aborted, reporting
+ * progress as it goes; `P` is the type of the reports when it differs from
+ * the result's.
+ */
+export type PonderSearch<T, P = T> = (
+  state: GameState,
+  player: Player,
+  history: Set<PositionKey>,
+  signal: AbortSignal,
+  onProgress: (progress: P) => void
+) => Promise<T>;
+
+export interface Ponder<T, P = T> {
+  /** The opponent's move the search assumes. */
+  readonly prediction: Action;
+  /**
+   * Record the move the opponent actually played. On a hit the search carries
+   * on for `result`; on a miss it is stopped (`cancel` waits for it to end).
+   */
+  settle: (action: Action) => boolean;
+  /**
+   * The search's result after a hit. Its progress goes to `onProgress` from
+   * now on, starting with the latest report; aborting `signal` ends it early.
+   */
+  result: (onProgress?: (progress: P) => void, signal?: AbortSignal) => Promise<T>;
+  /** Stop the search and wait for it to end. */
+  cancel: () => Promise<void>;
+}
+
+/**
+ * Start searching the position after `opponent` plays `prediction`, for the
+ * side that replies to it. `history` holds the positions seen before the
+ * prediction; `stats` counts the predictions settled.
+ */
+export const startPonder = <T, P = T>(
+  state: GameState,
+  opponent: Player,
+  history: Set<PositionKey>,
+  prediction: Action,
+  search: PonderSearch<T, P>,
+  stats: PonderStats
+): Ponder<T, P> => {
+  const player = getOpponent(opponent);
+  // A pass is only ever predicted when it is forced
+  const next = prediction.type === "pass" ? applyPass(state) : applyAction(state, prediction, opponent);
+  const key = getPositionKey(next, player);
+  const controller = new AbortController();
+  let latest: P | null = null;
+  let follow: ((progress: P) => void) | undefined;
+  const running = search(next, player, new Set([...history, key]), controller.signal, (progress) => {
+    latest = progress;
+    follow?.(progress);
+  });
+  // Nobody waits for the result of a stopped search
+  const ended = running.then(
+    () => undefined,
+    () => undefined
+  );
+  let settled: boolean | null = null;
+
+  return {
+    prediction,
+    settle: (action) => {
+      if (settled !== null) return settled;
+      settled = getNextPositionKey(state, action, opponent) === key;
+      stats.predictions++;
+      if (settled) stats.hits++;
+      else controller.abort();
+      return settled;
+    },
+    result: async (onProgress, signal) => {
+      if (!settled) throw new Error("Only a ponder hit has a result");
+      if (latest) onProgress?.(latest);
+      follow = onProgress;
+      const stop = (): void => controller.abort();
+      if (signal?.aborted) stop();
+      signal?.addEventListener("abort", stop);
+      try {
+        return await running;
+      } finally {
+        signal?.removeEventListener("abort", stop);
+      }
+    },
+    cancel: async () => {
+      controller.abort();
+      await ended;
+    }
+  };
+};
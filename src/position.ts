@@ -0,0 +1,204 @@
+import { Board, Cell, GameState, Player, getRules } from "./game";
+import {
+  DEFAULT_RULES,
+  NO_LEGAL_ACTION_POLICIES,
+  RuleSet,
+  SIMULTANEOUS_LINE_POLICIES,
+  createRuleSet,
+  getRulePreset,
+  listRulePresets
+} from "./rules";
+import { assertValidState } from "./validate";
+
+// Position strings: a compact, FEN-like description of a position.
+//
+//   2X2/1XO2/2O2/5/5 B2 X 2,2
+//
+// Fields, separated by spaces:
+//   1. Board rows from A to the last row, separated by "/". Each row lists its
+//      cells left to right as X, O, or a digit counting consecutive empties.
+//   2. Top-left square of the active window.
+//   3. Side to move (X or O).
+//   4. Placements made so far, as "X,O".
+//   5. Optional rule preset name, written only for non-default rule sets or
+//      when overrides follow.
+//   6. Optional overrides, named like the CLI flags: simultaneous-lines=<policy>
+//      and no-legal-action=<policy> where they differ from the preset, and
+//      repetition-rule=strict for strict repetition.
+//
+//   2X2/1XO2/2O2/5/5 B2 X 2,2 classic no-legal-action=pass repetition-rule=strict
+
+export interface ParsedPosition {
+  state: GameState;
+  player: Player;
+  /** Set when the string asks for strict repetition. */
+  strictRepetition?: true;
+}
+
+export interface PositionOptions {
+  /** Write `repetition-rule=strict`. */
+  strictRepetition?: boolean;
+}
+
+/** Row letter plus 1-based column, e.g. `B3`. */
+export const formatSquare = (index: number, rules: RuleSet): string => {
+  const row = String.fromCharCode(65 + Math.floor(index / rules.boardSize));
+  return `${row}${(index % rules.boardSize) + 1}`;
+};
+
+export const parseSquare = (name: string, rules: RuleSet): number => {
+  const match = /^([A-Za-z])(\d+)$/.exec(name);
+  const row = match ? match[1].toUpperCase().charCodeAt(0) - 65 : -1;
+  const col = match ? Number(match[2]) - 1 : -1;
+  if (row < 0 || row >= rules.boardSize || col < 0 || col >= rules.boardSize) {
+    throw new Error(`Invalid square "${name}"`);
+  }
+  return row * rules.boardSize + col;
+};
+
+const formatRow = (cells: Cell[]): string => {
+  let text = "";
+  let empties = 0;
+  for (const cell of cells) {
+    if (cell === " ") {
+      empties++;
+      continue;
+    }
+    if (empties) text += empties;
+    empties = 0;
+    text += cell;
+  }
+  return empties ? text + empties : text;
+};
+
+/** Overrides of `rules`' preset policies and of the repetition rule, as position string fields. */
+const formatOverrides = (rules: RuleSet, options: PositionOptions): string[] => {
+  const preset = getRulePreset(rules.name);
+  const overrides: string[] = [];
+  if (rules.simultaneousLinePolicy !== preset.simultaneousLinePolicy) {
+    overrides.push(`simultaneous-lines=${rules.simultaneousLinePolicy}`);
+  }
+  if (rules.noLegalActionPolicy !== preset.noLegalActionPolicy) {
+    overrides.push(`no-legal-action=${rules.noLegalActionPolicy}`);
+  }
+  if (options.strictRepetition) {
+    overrides.push("repetition-rule=strict");
+  }
+  return overrides;
+};
+
+export const formatPosition = (state: GameState, player: Player, options: PositionOptions = {}): string => {
+  const rules = getRules(state);
+  const rows = Array.from({ length: rules.boardSize }, (_, row) =>
+    formatRow(state.board.slice(row * rules.boardSize, (row + 1) * rules.boardSize))
+  );
+  const window = formatSquare(state.activeY * rules.boardSize + state.activeX, rules);
+  const fields = [rows.join("/"), window, player, `${state.placementsByPlayer.X},${state.placementsByPlayer.O}`];
+  const overrides = formatOverrides(rules, options);
+  if (rules.name !== DEFAULT_RULES.name || overrides.length > 0) {
+    fields.push(rules.name, ...overrides);
+  }
+  return fields.join(" ");
+};
+
+const parseRow = (text: string, boardSize: number, rowNumber: number): Cell[] => {
+  const cells: Cell[] = [];
+  for (const token of text.match(/\d+|./g) ?? []) {
+    if (/^\d+$/.test(token)) {
+      cells.push(...Array<Cell>(Number(token)).fill(" "));
+    } else if (token === "X" || token === "O") {
+      cells.push(token);
+    } else {
+      throw new Error(`Invalid position: unexpected "${token}" in row ${rowNumber}`);
+    }
+  }
+  if (cells.length !== boardSize) {
+    throw new Error(`Invalid position: row ${rowNumber} has ${cells.length} cells, expected ${boardSize}`);
+  }
+  return cells;
+};
+
+/** `rules` with the policy overrides among `fields` applied; reports whether strict repetition was asked for. */
+const parseOverrides = (fields: string[], rules: RuleSet): { rules: RuleSet; strictRepetition: boolean } => {
+  let { simultaneousLinePolicy, noLegalActionPolicy } = rules;
+  let strictRepetition = false;
+  for (const field of fields) {
+    const [name, value] = field.split("=");
+    if (name === "simultaneous-lines") {
+      const policy = SIMULTANEOUS_LINE_POLICIES.find((entry) => entry === value);
+      if (!policy) throw new Error(`Invalid position: unknown simultaneous-line policy "${value}"`);
+      simultaneousLinePolicy = policy;
+    } else if (name === "no-legal-action") {
+      const policy = NO_LEGAL_ACTION_POLICIES.find((entry) => entry === value);
+      if (!policy) throw new Error(`Invalid position: unknown no-legal-action policy "${value}"`);
+      noLegalActionPolicy = policy;
+    } else if (name === "repetition-rule" && (value === "strict" || value === "search")) {
+      strictRepetition = value === "strict";
+    } else {
+      throw new Error(`Invalid position: unknown override "${field}"`);
+    }
+  }
+  const changed = simultaneousLinePolicy !== rules.simultaneousLinePolicy || noLegalActionPolicy !== rules.noLegalActionPolicy;
+  return {
+    rules: changed ? createRuleSet({ ...rules, simultaneousLinePolicy, noLegalActionPolicy }) : rules,
+    strictRepetition
+  };
+};
+
+/**
+ * Parse a position string. `rules` applies when the string names no preset;
+ * overrides in the string apply on top of the preset it names.
+ * Throws if the string is malformed or the position fails `validateState`.
+ */
+export const parsePosition = (text: string, rules: RuleSet = DEFAULT_RULES): ParsedPosition => {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length < 4) {
+    throw new Error("Invalid position: expected board, window, side to move and placements");
+  }
+  const [boardField, windowField, playerField, placementsField, rulesField, ...overrideFields] = fields;
+
+  if (rulesField !== undefined) {
+    if (!listRulePresets().some((preset) => preset.name === rulesField)) {
+      throw new Error(`Invalid position: unknown rule preset "${rulesField}"`);
+    }
+    rules = getRulePreset(rulesField);
+  }
+  const overrides = parseOverrides(overrideFields, rules);
+  rules = overrides.rules;
+
+  const rows = boardField.split("/");
+  if (rows.length !== rules.boardSize) {
+    throw new Error(`Invalid position: expected ${rules.boardSize} rows, found ${rows.length}`);
+  }
+  const board = rows.flatMap((row, index) => parseRow(row, rules.boardSize, index + 1)) as Board;
+
+  let windowIndex: number;
+  try {
+    windowIndex = parseSquare(windowField, rules);
+  } catch {
+    throw new Error(`Invalid position: bad window square "${windowField}"`);
+  }
+  const activeX = windowIndex % rules.boardSize;
+  const activeY = Math.floor(windowIndex / rules.boardSize);
+  const maxOffset = rules.boardSize - rules.activeSize;
+  if (activeX > maxOffset || activeY > maxOffset) {
+    throw new Error(`Invalid position: the window at ${windowField} does not fit on the board`);
+  }
+
+  if (playerField !== "X" && playerField !== "O") {
+    throw new Error(`Invalid position: side to move must be X or O, not "${playerField}"`);
+  }
+
+  const placements = /^(\d+),(\d+)$/.exec(placementsField);
+  if (!placements) {
+    throw new Error(`Invalid position: placements must look like "2,1", not "${placementsField}"`);
+  }
+  const placementsByPlayer = { X: Number(placements[1]), O: Number(placements[2]) };
+  if (placementsByPlayer.X > rules.piecesPerPlayer || placementsByPlayer.O > rules.piecesPerPlayer) {
+    throw new Error(`Invalid position: at most ${rules.piecesPerPlayer} placements per player`);
+  }
+
+  const state: GameState = { board, activeX, activeY, placementsByPlayer, rules };
+  assertValidState(state, playerField);
+  return { state, player: playerField, ...(overrides.strictRepetition ? { strictRepetition: true } : {}) };
+};
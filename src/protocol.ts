@@ -0,0 +1,317 @@
+import { GameState, Player, createInitialState } from "./game";
+import { DrawOptions } from "./draw";
+import { EngineMove } from "./engine";
+import { EngineThread, ThreadedProgress, createEngineThread } from "./engine-thread";
+import { DEFAULT_EVALUATION_PLUGIN, listEvaluationPlugins } from "./evaluation";
+import { Match } from "./match";
+import { RepetitionRule } from "./minimax";
+import { parsePosition } from "./position";
+import { formatRecordAction, parseRecordAction } from "./record";
+import { RuleSet } from "./rules";
+
+// A line-based engine protocol modelled on UCI, for match harnesses and GUIs
+// that talk to the engine over stdin/stdout:
+//
+//   uci                          → "id" lines, the options, "uciok"
+//   isready                      → "readyok"
+//   newgame                      → forget the previous game ("ucinewgame" also works)
+//   setoption name <Eval|RepetitionRule|MultiPV> value <v>
+//   position <startpos|position string> [moves <move> …]
+//   go [depth <n> | movetime <ms> | infinite]
+//   stop                         → end the search; its "bestmove" follows
+//   quit
+//
+// A search reports "info depth … multipv … score cp|mate … nodes … time … pv …"
+// after every iteration and ends with "bestmove <move>". Moves are in record
+// notation (C3, B2-C3, @up-left, pass). Searches are the minimax search of
+// getEngineEvaluations, run on an engine thread so `stop` is read while they run.
+
+export const PROTOCOL_ENGINE_NAME = "TicTacTwo";
+export const MAX_MULTI_PV = 16;
+
+// `go movetime` and `go infinite` keep deepening until stopped
+const OPEN_SEARCH_MAX_DEPTH = 64;
+
+// Answered even while a search runs; anything else waits for its best move
+const IMMEDIATE_COMMANDS = ["stop", "isready", "quit"];
+
+export interface ProtocolOptions {
+  rules: RuleSet;
+  /** Receives each output line, without its newline. */
+  write: (line: string) => void;
+  drawOptions?: DrawOptions;
+  /** Depth searched by a bare `go` (default 6). */
+  depth?: number;
+  /** Engine thread to search on; by default the session starts, and closes, its own. */
+  thread?: EngineThread;
+  /** Transposition table size for the session's own engine thread. */
+  hashMegabytes?: number;
+  /** Evaluation plugin name (the `Eval` option). */
+  evaluation?: string;
+  repetitionRule?: RepetitionRule;
+  /** Lines reported per iteration (the `MultiPV` option, default 1). */
+  multiPv?: number;
+}
+
+export interface ProtocolSession {
+  /** Handle one input line; false once `quit` has been read. */
+  handle: (line: string) => boolean;
+  /** Let a running search report its best move; an infinite one, which nothing else would end, is stopped. */
+  finish: () => Promise<void>;
+  /** Stop any search and close the session's own engine thread. */
+  close: () => Promise<void>;
+}
+
+interface RunningSearch {
+  controller: AbortController;
+  infinite: boolean;
+  done: Promise<void>;
+  /** The final line of an infinite search that ended before `stop`. */
+  pending: string | null;
+}
+
+const clampMultiPv = (value: number): number => Math.min(MAX_MULTI_PV, Math.max(1, Math.floor(value)));
+
+/** `cp <score>`, or `mate <moves>` for a proven result (negative when the side to move loses). */
+const formatScore = (evaluation: EngineMove, player: Player): string => {
+  if (!evaluation.forcedWin) return `cp ${evaluation.score}`;
+  const moves = Math.ceil(evaluation.forcedWin.plies / 2);
+  return `mate ${evaluation.forcedWin.winner === player ? moves : -moves}`;
+};
+
+export const createProtocolSession = (options: ProtocolOptions): ProtocolSession => {
+  const { rules, write } = options;
+  const thread = options.thread ?? createEngineThread({ hashMegabytes: options.hashMegabytes });
+  let evaluation = options.evaluation ?? DEFAULT_EVALUATION_PLUGIN.name;
+  let repetitionRule: RepetitionRule = options.repetitionRule ?? "search";
+  let multiPv = clampMultiPv(options.multiPv ?? 1);
+  let search: RunningSearch | null = null;
+  const queued: string[] = [];
+
+  // The match plays by its starting position's rules, and a position string's
+  // `repetition-rule=strict` holds for that position's match
+  const createMatch = (
+    initialState: GameState = createInitialState(rules),
+    firstPlayer?: Player,
+    strictRepetition = false
+  ): Match =>
+    new Match({
+      drawOptions: options.drawOptions,
+      initialState,
+      firstPlayer,
+      strictRepetition: strictRepetition || repetitionRule === "strict"
+    });
+  let match = createMatch();
+
+  const info = (message: string): void => write(`info string ${message}`);
+
+  const endSearch = (line: string): void => {
+    search = null;
+    write(line);
+    while (!search && queued.length > 0) handle(queued.shift()!);
+  };
+
+  const identify = (): void => {
+    write(`id name ${PROTOCOL_ENGINE_NAME}`);
+    write(`id author ${PROTOCOL_ENGINE_NAME} contributors`);
+    const plugins = listEvaluationPlugins().map((plugin) => ` var ${plugin.name}`).join("");
+    write(`option name Eval type combo default ${evaluation}${plugins}`);
+    write(`option name RepetitionRule type combo default ${repetitionRule} var search var strict`);
+    write(`option name MultiPV type spin default ${multiPv} min 1 max ${MAX_MULTI_PV}`);
+    write(`info string rules ${rules.name}`);
+    write("uciok");
+  };
+
+  const setOption = (words: string[]): void => {
+    const valueAt = words.indexOf("value");
+    if (words[0] !== "name" || valueAt < 2) {
+      info("Expected: setoption name <option> value <value>");
+      return;
+    }
+    const name = words.slice(1, valueAt).join(" ").toLowerCase();
+    const value = words.slice(valueAt + 1).join(" ");
+    if (name === "eval") {
+      if (!listEvaluationPlugins().some((plugin) => plugin.name === value)) {
+        info(`Unknown evaluation plugin "${value}"`);
+        return;
+      }
+      evaluation = value;
+    } else if (name === "repetitionrule") {
+      if (value !== "search" && value !== "strict") {
+        info(`Unknown repetition rule "${value}" (expected search or strict)`);
+        return;
+      }
+      repetitionRule = value;
+    } else if (name === "multipv") {
+      const count = Number(value);
+      if (!Number.isFinite(count)) {
+        info(`MultiPV must be a number, not "${value}"`);
+        return;
+      }
+      multiPv = clampMultiPv(count);
+    } else {
+      info(`Unknown option "${words.slice(1, valueAt).join(" ")}"`);
+    }
+  };
+
+  // The position is replayed through a match, so moves are checked and the
+  // positions they pass through count for the repetition rules.
+  const setPosition = (words: string[]): void => {
+    const movesAt = words.indexOf("moves");
+    const setup = movesAt === -1 ? words : words.slice(0, movesAt);
+    const moves = movesAt === -1 ? [] : words.slice(movesAt + 1);
+    try {
+      let next: Match;
+      if (setup.length === 1 && setup[0] === "startpos") {
+        next = createMatch();
+      } else if (setup.length > 0) {
+        // A position naming another preset, or overriding its policies, plays by those rules
+        const parsed = parsePosition(setup.join(" "), rules);
+        next = createMatch(parsed.state, parsed.player, parsed.strictRepetition);
+      } else {
+        info("Expected: position <startpos|position string> [moves <move> …]");
+        return;
+      }
+      for (const move of moves) {
+        try {
+          next.play(parseRecordAction(move, next.rules));
+        } catch (error) {
+          throw new Error(`Illegal move "${move}": ${(error as Error).message}`);
+        }
+      }
+      match = next;
+    } catch (error) {
+      info((error as Error).message);
+    }
+  };
+
+  const reportProgress = (progress: ThreadedProgress, player: Player, ruleSet: RuleSet): void => {
+    progress.evaluations.forEach((evaluation, index) => {
+      const pv = evaluation.pv.map((action) => formatRecordAction(action, ruleSet)).join(" ");
+      const hashfull = progress.hash ? ` hashfull ${Math.round(progress.hash.fill * 1000)}` : "";
+      write(
+        `info depth ${progress.depth} multipv ${index + 1} score ${formatScore(evaluation, player)}` +
+          ` nodes ${progress.stats.nodesVisited} time ${Math.round(progress.elapsedMs)}${hashfull} pv ${pv}`
+      );
+    });
+  };
+
+  const parseGo = (words: string[]): { depth: number; movetime?: number; infinite: boolean } | null => {
+    const depth = options.depth ?? 6;
+    if (words.length === 0) return { depth, infinite: false };
+    if (words[0] === "infinite") return { depth: OPEN_SEARCH_MAX_DEPTH, infinite: true };
+    const value = Number(words[1]);
+    if (!Number.isFinite(value) || value < 1) return null;
+    if (words[0] === "depth") return { depth: Math.floor(value), infinite: false };
+    if (words[0] === "movetime") return { depth: OPEN_SEARCH_MAX_DEPTH, movetime: value, infinite: false };
+    return null;
+  };
+
+  const go = (words: string[]): void => {
+    const limits = parseGo(words);
+    if (!limits) {
+      info("Expected: go [depth <n> | movetime <ms> | infinite]");
+      return;
+    }
+    const { state, currentPlayer: player, rules: ruleSet } = match;
+    if (match.outcome()) {
+      info("The game is over");
+      write("bestmove (none)");
+      return;
+    }
+    const controller = new AbortController();
+    const running: RunningSearch = { controller, infinite: limits.infinite, done: Promise.resolve(), pending: null };
+    const report = (line: string): void => {
+      if (running.infinite && !controller.signal.aborted) {
+        running.pending = line;
+        return;
+      }
+      endSearch(line);
+    };
+    running.done = thread
+      .analyse(state, player, {
+        history: match.seenPositions,
+        limits: { depth: limits.depth, movetime: limits.movetime },
+        count: multiPv,
+        evaluation,
+        repetitionRule: match.strictRepetition ? "strict" : repetitionRule,
+        signal: controller.signal,
+        onProgress: (progress) => reportProgress(progress, player, ruleSet)
+      })
+      .then(
+        (analysis) => {
+          const best = analysis.evaluations[0];
+          report(best ? `bestmove ${formatRecordAction(best.action, ruleSet)}` : "bestmove (none)");
+        },
+        (error: Error) => {
+          info(error.message);
+          report("bestmove (none)");
+        }
+      );
+    search = running;
+  };
+
+  const stop = (): void => {
+    if (!search) return;
+    search.controller.abort();
+    if (search.pending) endSearch(search.pending);
+  };
+
+  const handle = (line: string): boolean => {
+    const [command, ...words] = line.trim().split(/\s+/);
+    if (search && !IMMEDIATE_COMMANDS.includes(command)) {
+      queued.push(line);
+      return true;
+    }
+    switch (command) {
+      case "":
+        break;
+      case "uci":
+        identify();
+        break;
+      case "isready":
+        write("readyok");
+        break;
+      case "newgame":
+      case "ucinewgame":
+        thread.clearHash();
+        match = createMatch();
+        break;
+      case "setoption":
+        setOption(words);
+        break;
+      case "position":
+        setPosition(words);
+        break;
+      case "go":
+        go(words);
+        break;
+      case "stop":
+        stop();
+        break;
+      case "quit":
+        queued.length = 0;
+        search?.controller.abort();
+        return false;
+      default:
+        info(`Unknown command "${command}"`);
+    }
+    return true;
+  };
+
+  return {
+    handle,
+    finish: async () => {
+      while (search) {
+        if (search.infinite) stop();
+        await search?.done;
+      }
+    },
+    close: async () => {
+      queued.length = 0;
+      search?.controller.abort();
+      await search?.done;
+      if (!options.thread) await thread.close();
+    }
+  };
+};
@@ -0,0 +1,29 @@
+// Seedable pseudo-random numbers (mulberry32): small, fast and deterministic
+// for a given seed, so hashes are stable across runs and seeded engine games
+// can be replayed.
+
+/** Unsigned 32-bit integers. */
+export const createRandomUint32 = (seed: number): (() => number) => {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  };
+};
+
+/** Floats in [0, 1), like `Math.random`. */
+export type Random = () => number;
+
+export const createRandom = (seed: number): Random => {
+  const next = createRandomUint32(seed);
+  return () => next() / 0x100000000;
+};
+
+/** A fresh seed for callers that were not given one. */
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000);
+
+/** Integer in [0, n). */
+export const randomInt = (random: Random, n: number): number => Math.floor(random() * n);
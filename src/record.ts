@@ -0,0 +1,357 @@
+import { Action, Player, createInitialState, getOpponent, FIRST_PLAYER } from "./game";
+import {
+  NO_LEGAL_ACTION_POLICIES,
+  RuleSet,
+  SIMULTANEOUS_LINE_POLICIES,
+  createRuleSet,
+  getRulePreset,
+  listRulePresets
+} from "./rules";
+import { DEFAULT_NO_PROGRESS_PLIES, DEFAULT_REPETITION_LIMIT, DrawOptions } from "./draw";
+import { Match } from "./match";
+import { formatPosition, formatSquare, parsePosition, parseSquare } from "./position";
+
+// Game records: a PGN-style text format for sharing and replaying games.
+//
+//   [Event "Self-play"]
+//   [Date "2026.10.19"]
+//   [X "Engine"]
+//   [O "Engine"]
+//   [XEval "default"]
+//   [OEval "positional"]
+//   [Depth "6"]
+//   [Rules "classic"]
+//   [Result "1/2-1/2"]
+//   [Position "2X2/1XO2/2O2/5/5 B2 X 2,2"]
+//
+//   1. B2 {[%eval 20]} C3 2. B3 D4 3. @up-left {a quiet shift} B2-C2 1/2-1/2
+//
+// Move text numbers each X/O pair. A placement is the target square, a move is
+// `from-to`, a shift is `@` plus its direction and a pass is `pass`. `{…}` after a move is a
+// comment; a leading `[%eval N]` inside it is the engine score for that move,
+// from the mover's perspective. A `Position` tag (see position.ts) marks a game
+// that started somewhere other than the initial position.
+
+export type GameResult = "1-0" | "0-1" | "1/2-1/2" | "*";
+
+export const GAME_RESULTS: readonly GameResult[] = ["1-0", "0-1", "1/2-1/2", "*"];
+
+/** Tags written first, in this order; any others follow in insertion order. */
+export const STANDARD_TAGS = ["Event", "Date", "X", "O", "XEval", "OEval", "Depth", "Rules", "Result"];
+
+export interface GameRecordMove {
+  player: Player;
+  action: Action;
+  comment?: string;
+  score?: number;
+}
+
+export interface GameRecord {
+  tags: Record<string, string>;
+  moves: GameRecordMove[];
+  result: GameResult;
+}
+
+export const SHIFT_DIRECTION_NAMES: Record<string, string> = {
+  "-1,0": "left",
+  "1,0": "right",
+  "0,-1": "up",
+  "0,1": "down",
+  "-1,-1": "up-left",
+  "1,-1": "up-right",
+  "-1,1": "down-left",
+  "1,1": "down-right"
+};
+
+// ── Squares and actions ─────────────────────────────────────────────
+
+export { formatSquare, parseSquare };
+
+export const formatRecordAction = (action: Action, rules: RuleSet): string => {
+  if (action.type === "place") return formatSquare(action.index, rules);
+  if (action.type === "move") return `${formatSquare(action.from, rules)}-${formatSquare(action.to, rules)}`;
+  if (action.type === "pass") return "pass";
+  return `@${SHIFT_DIRECTION_NAMES[`${action.dx},${action.dy}`]}`;
+};
+
+export const parseRecordAction = (token: string, rules: RuleSet): Action => {
+  if (token === "pass") {
+    return { type: "pass" };
+  }
+  if (token.startsWith("@")) {
+    const entry = Object.entries(SHIFT_DIRECTION_NAMES).find(([, name]) => name === token.slice(1));
+    if (!entry) {
+      throw new Error(`Unknown shift direction "${token.slice(1)}"`);
+    }
+    const [dx, dy] = entry[0].split(",").map(Number);
+    return { type: "shift", dx, dy };
+  }
+  const squares = token.split("-");
+  if (squares.length === 2) {
+    return { type: "move", from: parseSquare(squares[0], rules), to: parseSquare(squares[1], rules) };
+  }
+  return { type: "place", index: parseSquare(token, rules) };
+};
+
+// ── Rules and results ───────────────────────────────────────────────
+
+/** Rule set named by the `Rules` tag, with optional `SimultaneousLines` and `NoLegalAction` overrides. */
+export const getRecordRules = (tags: Record<string, string>): RuleSet => {
+  const name = tags.Rules ?? getRulePreset().name;
+  if (!listRulePresets().some((preset) => preset.name === name)) {
+    throw new Error(`Unknown rule preset "${name}"`);
+  }
+  const preset = getRulePreset(name);
+  const policy = tags.SimultaneousLines ?? preset.simultaneousLinePolicy;
+  const stuckPolicy = tags.NoLegalAction ?? preset.noLegalActionPolicy;
+  if (policy === preset.simultaneousLinePolicy && stuckPolicy === preset.noLegalActionPolicy) {
+    return preset;
+  }
+  const simultaneousLinePolicy = SIMULTANEOUS_LINE_POLICIES.find((entry) => entry === policy);
+  if (!simultaneousLinePolicy) {
+    throw new Error(`Unknown simultaneous-line policy "${policy}"`);
+  }
+  const noLegalActionPolicy = NO_LEGAL_ACTION_POLICIES.find((entry) => entry === stuckPolicy);
+  if (!noLegalActionPolicy) {
+    throw new Error(`Unknown no-legal-action policy "${stuckPolicy}"`);
+  }
+  return createRuleSet({ ...preset, simultaneousLinePolicy, noLegalActionPolicy });
+};
+
+/** Tags describing `rules`; only the overrides that differ from the preset are written. */
+export const getRuleTags = (rules: RuleSet): Record<string, string> => {
+  const preset = getRulePreset(rules.name);
+  const tags: Record<string, string> = { Rules: rules.name };
+  if (rules.simultaneousLinePolicy !== preset.simultaneousLinePolicy) {
+    tags.SimultaneousLines = rules.simultaneousLinePolicy;
+  }
+  if (rules.noLegalActionPolicy !== preset.noLegalActionPolicy) {
+    tags.NoLegalAction = rules.noLegalActionPolicy;
+  }
+  return tags;
+};
+
+/** Tags for the draw limits and repetition rule of `match`; only non-default settings are written. */
+export const getMatchSettingTags = (match: Match): Record<string, string> => {
+  const tags: Record<string, string> = {};
+  const { repetitionLimit = DEFAULT_REPETITION_LIMIT, noProgressPlies = DEFAULT_NO_PROGRESS_PLIES } = match.drawOptions;
+  if (repetitionLimit !== DEFAULT_REPETITION_LIMIT) {
+    tags.RepetitionLimit = String(repetitionLimit);
+  }
+  if (noProgressPlies !== DEFAULT_NO_PROGRESS_PLIES) {
+    tags.NoProgressPlies = String(noProgressPlies);
+  }
+  if (match.strictRepetition) {
+    tags.RepetitionRule = "strict";
+  }
+  return tags;
+};
+
+const parseLimitTag = (tags: Record<string, string>, name: string): number | undefined => {
+  if (tags[name] === undefined) return undefined;
+  const value = Number(tags[name]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a whole number, not "${tags[name]}"`);
+  }
+  return value;
+};
+
+/** Draw options from the `RepetitionLimit` and `NoProgressPlies` tags; absent ones keep their defaults. */
+export const getRecordDrawOptions = (tags: Record<string, string>): DrawOptions => {
+  const drawOptions: DrawOptions = {};
+  const repetitionLimit = parseLimitTag(tags, "RepetitionLimit");
+  const noProgressPlies = parseLimitTag(tags, "NoProgressPlies");
+  if (repetitionLimit !== undefined) drawOptions.repetitionLimit = repetitionLimit;
+  if (noProgressPlies !== undefined) drawOptions.noProgressPlies = noProgressPlies;
+  return drawOptions;
+};
+
+/** Whether the `RepetitionRule` tag asks for strict repetition. */
+export const getRecordStrictRepetition = (tags: Record<string, string>): boolean => {
+  const rule = tags.RepetitionRule ?? "search";
+  if (rule !== "search" && rule !== "strict") {
+    throw new Error(`Unknown repetition rule "${rule}"`);
+  }
+  return rule === "strict";
+};
+
+export const getMatchResult = (match: Match): GameResult => {
+  const outcome = match.outcome();
+  if (!outcome) return "*";
+  if (outcome.winner === "X") return "1-0";
+  if (outcome.winner === "O") return "0-1";
+  return "1/2-1/2";
+};
+
+// ── Building and replaying records ──────────────────────────────────
+
+export interface MoveAnnotation {
+  comment?: string;
+  score?: number;
+}
+
+/**
+ * Record of `match` so far. `tags` (players, engines, date…) are added to
+ * the derived Rules, draw setting, Position and Termination tags; Result always
+ * reflects the match.
+ * `annotations[ply]` adds a comment or score to the move at that ply.
+ */
+export const createGameRecord = (
+  match: Match,
+  tags: Record<string, string> = {},
+  annotations: Record<number, MoveAnnotation> = {}
+): GameRecord => {
+  const result = getMatchResult(match);
+  const outcome = match.outcome();
+  const termination: Record<string, string> = outcome
+    ? { Termination: outcome.draw?.reason ?? outcome.gameOutcome?.reason ?? "line" }
+    : {};
+  const start = formatPosition(match.initialState, match.firstPlayer);
+  const position: Record<string, string> =
+    start === formatPosition(createInitialState(match.rules), FIRST_PLAYER) ? {} : { Position: start };
+  return {
+    tags: { ...getRuleTags(match.rules), ...getMatchSettingTags(match), ...position, ...termination, ...tags, Result: result },
+    moves: match.history.map(({ player, action }, ply) => ({ player, action, ...annotations[ply] })),
+    result
+  };
+};
+
+/**
+ * Replay a record into a `Match`, from its Position tag if any and with its
+ * draw settings, ending it as agreed when its Termination tag says so; throws
+ * if any move is illegal.
+ */
+export const replayGameRecord = (record: GameRecord): Match => {
+  const rules = getRecordRules(record.tags);
+  const start = record.tags.Position !== undefined ? parsePosition(record.tags.Position, rules) : null;
+  const match = new Match({
+    rules,
+    initialState: start?.state,
+    firstPlayer: start?.player ?? record.moves[0]?.player ?? FIRST_PLAYER,
+    drawOptions: getRecordDrawOptions(record.tags),
+    strictRepetition: getRecordStrictRepetition(record.tags)
+  });
+  record.moves.forEach(({ player, action }, ply) => {
+    if (player !== match.currentPlayer) {
+      throw new Error(`Move ${ply + 1} was recorded for ${player}, but ${match.currentPlayer} is to move`);
+    }
+    match.play(action);
+  });
+  // A draw by agreement is only in the tags; the moves leave the game open
+  if (record.tags.Termination === "agreement" && !match.isOver()) {
+    match.agreeDraw();
+  }
+  return match;
+};
+
+// ── Text format ─────────────────────────────────────────────────────
+
+const MAX_LINE_LENGTH = 80;
+
+const escapeTag = (value: string): string => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+const formatComment = ({ comment, score }: GameRecordMove): string | null => {
+  // Comments cannot contain the closing brace
+  const parts = [score !== undefined ? `[%eval ${score}]` : "", (comment ?? "").replace(/}/g, "")].filter(Boolean);
+  return parts.length ? `{${parts.join(" ")}}` : null;
+};
+
+export const formatGameRecord = (record: GameRecord): string => {
+  const rules = getRecordRules(record.tags);
+  const tags: Record<string, string> = { ...record.tags, Result: record.result };
+  const names = [
+    ...STANDARD_TAGS.filter((name) => name in tags),
+    ...Object.keys(tags).filter((name) => !STANDARD_TAGS.includes(name))
+  ];
+  const header = names.map((name) => `[${name} "${escapeTag(tags[name])}"]`);
+
+  // Numbers count X/O pairs; a record that opens with O starts at "1..."
+  const offset = record.moves[0]?.player === "O" ? 1 : 0;
+  const tokens: string[] = [];
+  record.moves.forEach((move, ply) => {
+    const moveNumber = Math.floor((ply + offset) / 2) + 1;
+    if (move.player === "X") {
+      tokens.push(`${moveNumber}.`);
+    } else if (ply === 0) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(formatRecordAction(move.action, rules));
+    const comment = formatComment(move);
+    if (comment) tokens.push(comment);
+  });
+  tokens.push(record.result);
+
+  const lines: string[] = [];
+  let line = "";
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  lines.push(line);
+  return `${header.join("\n")}\n\n${lines.join("\n")}\n`;
+};
+
+const TAG_PATTERN = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+
+export const parseGameRecord = (text: string): GameRecord => {
+  const tags: Record<string, string> = {};
+  const lines = text.split(/\r?\n/);
+  let index = 0;
+  for (; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line) continue;
+    const tag = TAG_PATTERN.exec(line);
+    if (!tag) break;
+    tags[tag[1]] = tag[2].replace(/\\(.)/g, "$1");
+  }
+  const rules = getRecordRules(tags);
+  const body = lines.slice(index).join("\n");
+
+  const moves: GameRecordMove[] = [];
+  let result: GameResult | null = null;
+  let player: Player | null = null;
+  const tokenPattern = /\{([^}]*)\}|(\S+)/g;
+  let token: RegExpExecArray | null;
+  while ((token = tokenPattern.exec(body))) {
+    if (result) {
+      throw new Error(`Unexpected text after the result: "${token[0]}"`);
+    }
+    if (token[1] !== undefined) {
+      const last = moves[moves.length - 1];
+      if (!last) {
+        throw new Error("A comment must follow a move");
+      }
+      const annotation = /^\s*\[%eval\s+(-?\d+(?:\.\d+)?)\]\s*/.exec(token[1]);
+      if (annotation) last.score = Number(annotation[1]);
+      const comment = token[1].slice(annotation ? annotation[0].length : 0).trim();
+      if (comment) last.comment = comment;
+      continue;
+    }
+    const word = token[2];
+    if (GAME_RESULTS.includes(word as GameResult)) {
+      result = word as GameResult;
+      continue;
+    }
+    const number = /^(\d+)(\.|\.\.\.)$/.exec(word);
+    if (number) {
+      // "1..." opens a record where O moves first
+      if (!moves.length) player = number[2] === "..." ? "O" : "X";
+      continue;
+    }
+    const mover: Player = player ?? FIRST_PLAYER;
+    moves.push({ player: mover, action: parseRecordAction(word, rules) });
+    player = getOpponent(mover);
+  }
+
+  if (!result) {
+    throw new Error("The move text must end with a result (1-0, 0-1, 1/2-1/2 or *)");
+  }
+  if (tags.Result !== undefined && tags.Result !== result) {
+    throw new Error(`Result tag "${tags.Result}" does not match the move text result "${result}"`);
+  }
+  return { tags: { ...tags, Result: result }, moves, result };
+};
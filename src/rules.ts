@@ -0,0 +1,174 @@
+/**
+ * What happens when a grid shift completes lines for both players at once:
+ * the player who shifted wins, the player who shifted loses, or the game is
+ * drawn.
+ */
+export type SimultaneousLinePolicy = "mover-wins" | "mover-loses" | "draw";
+
+export const SIMULTANEOUS_LINE_POLICIES: SimultaneousLinePolicy[] = ["mover-wins", "mover-loses", "draw"];
+
+/**
+ * What happens when the side to move has no legal action: it passes the turn
+ * to its opponent, it loses, or the game is drawn.
+ */
+export type NoLegalActionPolicy = "pass" | "loss" | "draw";
+
+export const NO_LEGAL_ACTION_POLICIES: NoLegalActionPolicy[] = ["pass", "loss", "draw"];
+
+/**
+ * A rule set describes the geometry and piece economy of a TicTacTwo variant.
+ * Every game-layer helper reads its numbers from here instead of hard-coded
+ * constants, so larger boards, bigger windows and longer lines all share the
+ * same engine.
+ */
+export interface RuleSet {
+  readonly name: string;
+  readonly description: string;
+  /** Width and height of the full board. */
+  readonly boardSize: number;
+  /** Width and height of the sliding active window. */
+  readonly activeSize: number;
+  /** Number of pieces in a row (inside the active window) needed to win. */
+  readonly winLength: number;
+  /** Maximum number of pieces each player may place. */
+  readonly piecesPerPlayer: number;
+  /** Placements a player must make before moving pegs or shifting the window. */
+  readonly placementsBeforeMovement: number;
+  /** Row/column of the active window's top-left corner at the start. */
+  readonly initialActiveCoord: number;
+  /** Result when a single action completes lines for both players. */
+  readonly simultaneousLinePolicy: SimultaneousLinePolicy;
+  /** Result when the side to move has no legal action. */
+  readonly noLegalActionPolicy: NoLegalActionPolicy;
+}
+
+export type RuleSetOptions = Omit<RuleSet, "name" | "description" | "simultaneousLinePolicy" | "noLegalActionPolicy"> & {
+  name: string;
+  description?: string;
+  simultaneousLinePolicy?: SimultaneousLinePolicy;
+  noLegalActionPolicy?: NoLegalActionPolicy;
+};
+
+const isPositiveInteger = (value: number): boolean => Number.isInteger(value) && value > 0;
+
+export const createRuleSet = (options: RuleSetOptions): RuleSet => {
+  const {
+    name,
+    boardSize,
+    activeSize,
+    winLength,
+    piecesPerPlayer,
+    placementsBeforeMovement,
+    initialActiveCoord,
+    simultaneousLinePolicy = "draw",
+    noLegalActionPolicy = "draw"
+  } = options;
+  if (!name) {
+    throw new Error("Rule sets must include a non-empty name");
+  }
+  if (![boardSize, activeSize, winLength, piecesPerPlayer].every(isPositiveInteger)) {
+    throw new Error("Board size, active size, win length and piece count must be positive integers");
+  }
+  if (boardSize > 26) {
+    throw new Error("Boards larger than 26 rows cannot be labelled A–Z");
+  }
+  if (activeSize > boardSize) {
+    throw new Error("The active window cannot be larger than the board");
+  }
+  if (winLength > activeSize) {
+    throw new Error("The win length must fit inside the active window");
+  }
+  if (!Number.isInteger(placementsBeforeMovement) || placementsBeforeMovement < 0 || placementsBeforeMovement > piecesPerPlayer) {
+    throw new Error("Placements before movement must be between zero and the piece count");
+  }
+  if (!Number.isInteger(initialActiveCoord) || initialActiveCoord < 0 || initialActiveCoord > boardSize - activeSize) {
+    throw new Error("The initial active window must lie on the board");
+  }
+  if (!SIMULTANEOUS_LINE_POLICIES.includes(simultaneousLinePolicy)) {
+    throw new Error(`Unknown simultaneous-line policy: ${simultaneousLinePolicy}`);
+  }
+  if (!NO_LEGAL_ACTION_POLICIES.includes(noLegalActionPolicy)) {
+    throw new Error(`Unknown no-legal-action policy: ${noLegalActionPolicy}`);
+  }
+  return {
+    name,
+    description: options.description ?? `${boardSize}×${boardSize} board, ${activeSize}×${activeSize} window, ${winLength} in a row`,
+    boardSize,
+    activeSize,
+    winLength,
+    piecesPerPlayer,
+    placementsBeforeMovement,
+    initialActiveCoord,
+    simultaneousLinePolicy,
+    noLegalActionPolicy
+  };
+};
+
+/** Whether two rule sets play the same game, whatever their names. */
+export const isSameRuleSet = (a: RuleSet, b: RuleSet): boolean =>
+  a.boardSize === b.boardSize
+  && a.activeSize === b.activeSize
+  && a.winLength === b.winLength
+  && a.piecesPerPlayer === b.piecesPerPlayer
+  && a.placementsBeforeMovement === b.placementsBeforeMovement
+  && a.initialActiveCoord === b.initialActiveCoord
+  && a.simultaneousLinePolicy === b.simultaneousLinePolicy
+  && a.noLegalActionPolicy === b.noLegalActionPolicy;
+
+// ── Built-in presets ────────────────────────────────────────────────
+
+export const CLASSIC_RULES: RuleSet = createRuleSet({
+  name: "classic",
+  description: "5×5 board, 3×3 window, three in a row, four pieces each",
+  boardSize: 5,
+  activeSize: 3,
+  winLength: 3,
+  piecesPerPlayer: 4,
+  placementsBeforeMovement: 2,
+  initialActiveCoord: 1
+});
+
+export const GRAND_RULES: RuleSet = createRuleSet({
+  name: "grand",
+  description: "6×6 board, 4×4 window, four in a row, six pieces each",
+  boardSize: 6,
+  activeSize: 4,
+  winLength: 4,
+  piecesPerPlayer: 6,
+  placementsBeforeMovement: 3,
+  initialActiveCoord: 1
+});
+
+export const GRAND_THREE_RULES: RuleSet = createRuleSet({
+  name: "grand-three",
+  description: "6×6 board, 4×4 window, three in a row, five pieces each",
+  boardSize: 6,
+  activeSize: 4,
+  winLength: 3,
+  piecesPerPlayer: 5,
+  placementsBeforeMovement: 2,
+  initialActiveCoord: 1
+});
+
+export const DEFAULT_RULES = CLASSIC_RULES;
+
+// ── Preset registry ─────────────────────────────────────────────────
+
+const presetRegistry = new Map<string, RuleSet>([
+  [CLASSIC_RULES.name, CLASSIC_RULES],
+  [GRAND_RULES.name, GRAND_RULES],
+  [GRAND_THREE_RULES.name, GRAND_THREE_RULES]
+]);
+
+export const registerRulePreset = (rules: RuleSet): void => {
+  presetRegistry.set(rules.name, createRuleSet(rules));
+};
+
+export const getRulePreset = (name?: string): RuleSet => {
+  if (name && presetRegistry.has(name)) {
+    return presetRegistry.get(name)!;
+  }
+  return DEFAULT_RULES;
+};
+
+export const listRulePresets = (): RuleSet[] => Array.from(presetRegistry.values());
@@ -0,0 +1,53 @@
+import { parentPort, workerData } from "worker_threads";
+import { GameState, Player, getRules } from "./game";
+import { getEvaluationPlugin } from "./evaluation";
+import { searchIterative } from "./minimax";
+import { RuleSet, isSameRuleSet } from "./rules";
+import { TranspositionTable, createTranspositionTable } from "./ttable";
+import { setHashVerification } from "./zobrist";
+import { SearchPoolCommand, SearchWorkerData, WorkerMessage } from "./parallel";
+
+// One thread of a search pool (see parallel.ts): runs iterative deepening over
+// the root actions it is given, posting every completed depth. It keeps a
+// transposition table per side from one search to the next.
+
+const data = workerData as SearchWorkerData;
+const post = (message: WorkerMessage): void => parentPort?.postMessage(message);
+
+setHashVerification(data.verifyHash);
+
+let tables: Partial<Record<Player, TranspositionTable>> = {};
+
+// States arrive as copies. Tables only keep their entries for the same rules
+// object, so every search with equal rules gets the first copy's.
+let knownRules: RuleSet | null = null;
+const withKnownRules = (state: GameState): GameState => {
+  const rules = getRules(state);
+  if (!knownRules || !isSameRuleSet(knownRules, rules)) knownRules = rules;
+  return { ...state, rules: knownRules };
+};
+
+parentPort?.on("message", (command: SearchPoolCommand) => {
+  if (command.type === "clear") {
+    tables = {};
+    return;
+  }
+  const { task } = command;
+  // Starting the search took part of the budget
+  const movetime = task.movetime > 0 ? Math.max(1, task.movetime - (Date.now() - task.startedAt)) : 0;
+  try {
+    const table = (tables[task.player] ??= createTranspositionTable(data.hashMegabytes));
+    const result = searchIterative(withKnownRules(task.state), task.player, new Set(task.history), {
+      ...task.options,
+      movetime,
+      table,
+      evaluate: getEvaluationPlugin(task.evaluation).evaluate,
+      searchActions: task.actions,
+      onDepth: (progress) => post({ type: "depth", progress }),
+      shouldStop: () => Atomics.load(data.stopFlag, 0) === 1
+    });
+    post({ type: "done", result });
+  } catch (error) {
+    post({ type: "error", message: (error as Error).message });
+  }
+});
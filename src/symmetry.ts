@@ -0,0 +1,227 @@
+import { Action, GameState, Player, getRules, getStateKey } from "./game";
+import { RuleSet } from "./rules";
+import { PositionKey, getZobristTables, placedIndex, playerIndex, toPositionKey } from "./zobrist";
+
+// The board and the window are both square and the initial window is
+// centred, so every rule set has the full 8-fold dihedral symmetry: each
+// rotation or reflection of a position is equivalent to the original, with
+// actions mapped through the same transform.
+
+export type SymmetryTransform =
+  | "identity"
+  | "rotate-90"
+  | "rotate-180"
+  | "rotate-270"
+  | "mirror-columns"
+  | "mirror-rows"
+  | "transpose"
+  | "anti-transpose";
+
+export const SYMMETRY_TRANSFORMS: readonly SymmetryTransform[] = [
+  "identity",
+  "rotate-90",
+  "rotate-180",
+  "rotate-270",
+  "mirror-columns",
+  "mirror-rows",
+  "transpose",
+  "anti-transpose"
+];
+
+const INVERSE_TRANSFORMS: Record<SymmetryTransform, SymmetryTransform> = {
+  identity: "identity",
+  "rotate-90": "rotate-270",
+  "rotate-180": "rotate-180",
+  "rotate-270": "rotate-90",
+  "mirror-columns": "mirror-columns",
+  "mirror-rows": "mirror-rows",
+  transpose: "transpose",
+  "anti-transpose": "anti-transpose"
+};
+
+export const inverseTransform = (transform: SymmetryTransform): SymmetryTransform => INVERSE_TRANSFORMS[transform];
+
+/**
+ * Map a (row, col) pair on a board whose last index is `last`. With
+ * `last = 0` this is the linear part of the transform, used for shift vectors.
+ */
+const transformCoordinates = (transform: SymmetryTransform, row: number, col: number, last: number): [number, number] => {
+  switch (transform) {
+    case "identity":
+      return [row, col];
+    case "rotate-90":
+      return [col, last - row];
+    case "rotate-180":
+      return [last - row, last - col];
+    case "rotate-270":
+      return [last - col, row];
+    case "mirror-columns":
+      return [row, last - col];
+    case "mirror-rows":
+      return [last - row, col];
+    case "transpose":
+      return [col, row];
+    default:
+      return [last - col, last - row];
+  }
+};
+
+export const transformIndex = (index: number, transform: SymmetryTransform, rules: RuleSet): number => {
+  const { boardSize } = rules;
+  const [row, col] = transformCoordinates(transform, Math.floor(index / boardSize), index % boardSize, boardSize - 1);
+  return row * boardSize + col;
+};
+
+/** Top-left corner of the transformed window, as `[activeX, activeY]`. */
+const transformWindow = (activeX: number, activeY: number, transform: SymmetryTransform, rules: RuleSet): [number, number] => {
+  const last = rules.boardSize - 1;
+  const far = rules.activeSize - 1;
+  const [rowA, colA] = transformCoordinates(transform, activeY, activeX, last);
+  const [rowB, colB] = transformCoordinates(transform, activeY + far, activeX + far, last);
+  return [Math.min(colA, colB), Math.min(rowA, rowB)];
+};
+
+export const transformState = (state: GameState, transform: SymmetryTransform): GameState => {
+  const rules = getRules(state);
+  const board = [...state.board];
+  for (let index = 0; index < state.board.length; index++) {
+    board[transformIndex(index, transform, rules)] = state.board[index];
+  }
+  const [activeX, activeY] = transformWindow(state.activeX, state.activeY, transform, rules);
+  return {
+    board,
+    activeX,
+    activeY,
+    placementsByPlayer: { ...state.placementsByPlayer },
+    rules: state.rules
+  };
+};
+
+export const transformAction = (action: Action, transform: SymmetryTransform, rules: RuleSet): Action => {
+  if (action.type === "place") {
+    return { type: "place", index: transformIndex(action.index, transform, rules) };
+  }
+  if (action.type === "move") {
+    return {
+      type: "move",
+      from: transformIndex(action.from, transform, rules),
+      to: transformIndex(action.to, transform, rules)
+    };
+  }
+  if (action.type === "pass") {
+    return action;
+  }
+  const [dy, dx] = transformCoordinates(transform, action.dy, action.dx, 0);
+  // `|| 0` keeps -0 out of the result so actions still compare equal
+  return { type: "shift", dx: dx || 0, dy: dy || 0 };
+};
+
+export interface CanonicalPosition {
+  /** The symmetric position with the smallest `getStateKey`. */
+  state: GameState;
+  /** Transform that maps the original position onto `state`. */
+  transform: SymmetryTransform;
+  key: string;
+}
+
+export const canonicalizeState = (state: GameState, player: Player): CanonicalPosition => {
+  let best: CanonicalPosition | null = null;
+  for (const transform of SYMMETRY_TRANSFORMS) {
+    const candidate = transform === "identity" ? state : transformState(state, transform);
+    const key = getStateKey(candidate, player);
+    if (!best || key < best.key) {
+      best = { state: candidate, transform, key };
+    }
+  }
+  return best!;
+};
+
+/** Same string for every rotation and reflection of a position. */
+export const getCanonicalStateKey = (state: GameState, player: Player): string => canonicalizeState(state, player).key;
+
+/** Map an action chosen in the canonical position back to the original one. */
+export const fromCanonicalAction = (action: Action, transform: SymmetryTransform, rules: RuleSet): Action =>
+  transformAction(action, inverseTransform(transform), rules);
+
+// ── Canonical Zobrist keys ──────────────────────────────────────────
+
+interface SymmetryTables {
+  /** `cellMaps[t][cell]` is the image of `cell` under `SYMMETRY_TRANSFORMS[t]`. */
+  cellMaps: Int32Array[];
+  /** `windowMaps[t][offset]` is the image of a window offset (`activeY * span + activeX`). */
+  windowMaps: Int32Array[];
+}
+
+const symmetryCache = new WeakMap<RuleSet, SymmetryTables>();
+
+const getSymmetryTables = (rules: RuleSet): SymmetryTables => {
+  const cached = symmetryCache.get(rules);
+  if (cached) {
+    return cached;
+  }
+  const cellCount = rules.boardSize * rules.boardSize;
+  const span = rules.boardSize - rules.activeSize + 1;
+  const tables: SymmetryTables = {
+    cellMaps: SYMMETRY_TRANSFORMS.map((transform) =>
+      Int32Array.from({ length: cellCount }, (_, index) => transformIndex(index, transform, rules))
+    ),
+    windowMaps: SYMMETRY_TRANSFORMS.map((transform) =>
+      Int32Array.from({ length: span * span }, (_, offset) => {
+        const [x, y] = transformWindow(offset % span, Math.floor(offset / span), transform, rules);
+        return y * span + x;
+      })
+    )
+  };
+  symmetryCache.set(rules, tables);
+  return tables;
+};
+
+export interface CanonicalPositionKey {
+  key: PositionKey;
+  transform: SymmetryTransform;
+}
+
+/**
+ * The smallest `getPositionKey` over all eight images of the position,
+ * computed from the Zobrist tables without building the transformed states.
+ * The transform may differ from the one `canonicalizeState` picks; both are
+ * consistent within their own key space.
+ */
+export const getCanonicalPositionKey = (state: GameState, player: Player): CanonicalPositionKey => {
+  const rules = getRules(state);
+  const zobrist = getZobristTables(rules);
+  const { cellMaps, windowMaps } = getSymmetryTables(rules);
+  const his = new Uint32Array(SYMMETRY_TRANSFORMS.length);
+  const los = new Uint32Array(SYMMETRY_TRANSFORMS.length);
+  for (let cell = 0; cell < state.board.length; cell++) {
+    const value = state.board[cell];
+    if (value === " ") continue;
+    const base = playerIndex(value) * zobrist.cellCount;
+    for (let t = 0; t < SYMMETRY_TRANSFORMS.length; t++) {
+      const feature = base + cellMaps[t][cell];
+      his[t] ^= zobrist.pieceHi[feature];
+      los[t] ^= zobrist.pieceLo[feature];
+    }
+  }
+  let sharedHi = 0;
+  let sharedLo = 0;
+  for (const owner of ["X", "O"] as Player[]) {
+    const index = placedIndex(zobrist, owner, state.placementsByPlayer[owner]);
+    sharedHi ^= zobrist.placedHi[index];
+    sharedLo ^= zobrist.placedLo[index];
+  }
+  const offset = state.activeY * zobrist.windowSpan + state.activeX;
+  let best: CanonicalPositionKey | null = null;
+  for (let t = 0; t < SYMMETRY_TRANSFORMS.length; t++) {
+    const window = windowMaps[t][offset];
+    const hash = {
+      hi: (his[t] ^ sharedHi ^ zobrist.windowHi[window]) >>> 0,
+      lo: (los[t] ^ sharedLo ^ zobrist.windowLo[window]) >>> 0
+    };
+    const key = toPositionKey(hash, player, zobrist);
+    if (!best || key < best.key) {
+      best = { key, transform: SYMMETRY_TRANSFORMS[t] };
+    }
+  }
+  return best!;
+};
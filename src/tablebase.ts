@@ -0,0 +1,544 @@
+import {
+  Action,
+  GameState,
+  PASS_ACTION,
+  Player,
+  applyAction,
+  createInitialState,
+  getAvailableActions,
+  getGameOutcome,
+  getOpponent,
+  getRules
+} from "./game";
+import {
+  Bitboard,
+  BitboardTables,
+  MOVE_PASS,
+  OUTCOME_DRAW,
+  OUTCOME_NONE,
+  OUTCOME_X_WINS,
+  applyMove,
+  generateMoves,
+  getBitboardOutcome,
+  getBitboardTables,
+  supportsBitboard,
+  toBitboard,
+  undoMove
+} from "./bitboard";
+import { EngineEvaluation, WIN_SCORE } from "./minimax";
+import { DEFAULT_RULES, RuleSet, createRuleSet, isSameRuleSet } from "./rules";
+
+// Retrograde-analysis solver. Every position reachable from the initial one
+// is enumerated, the decided ones are scored, and results are propagated
+// backwards through un-made moves: a position is won when some action reaches
+// a position lost for the opponent, and lost once every action reaches one
+// the opponent wins. What is left when nothing changes any more is a draw.
+//
+// Values depend on the position alone (board, window, side to move). The
+// history-based draw rules — repetition limit, no-progress limit, strict
+// repetition — are not part of it.
+
+export interface Tablebase {
+  readonly rules: RuleSet;
+  /** Position keys in ascending order (see `getTablebaseKey`). */
+  readonly keys: Float64Array;
+  /** `plies << 2 | value` for the position at the same index. */
+  readonly entries: Uint16Array;
+}
+
+/** The game-theoretic value of a position. */
+export interface TablebaseValue {
+  /** Null for a draw. */
+  winner: Player | null;
+  /** Plies until `winner` completes the win when both sides play perfectly; 0 for draws. */
+  plies: number;
+}
+
+export interface TablebaseMove extends TablebaseValue {
+  action: Action;
+}
+
+export interface TablebaseSummary {
+  positions: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  /** Longest forced win, in plies. */
+  longestWin: number;
+  /** Value of the initial position with the first player to move. */
+  initial: TablebaseValue;
+}
+
+export interface SolveOptions {
+  /** Stop with an error rather than enumerate more positions than this. */
+  maxPositions?: number;
+  /** Called with the number of positions found or solved so far. */
+  onProgress?: (phase: "enumerate" | "solve", positions: number) => void;
+}
+
+// Values for the side to move
+const UNKNOWN = 0;
+const WIN = 1;
+const LOSS = 2;
+const DRAW = 3;
+const MAX_PLIES = 0x3fff;
+const PROGRESS_INTERVAL = 1 << 20;
+
+// ── Position keys ───────────────────────────────────────────────────
+// A key packs the board as a base-3 number, the window offset and the side
+// to move. Placement counters are not needed: pieces never leave the board,
+// so they equal the piece counts.
+
+interface KeyCodec {
+  readonly tables: BitboardTables;
+  readonly windowCount: number;
+  readonly powers: Float64Array;
+}
+
+const codecCache = new WeakMap<RuleSet, KeyCodec>();
+
+const getKeyCodec = (rules: RuleSet): KeyCodec => {
+  const cached = codecCache.get(rules);
+  if (cached) {
+    return cached;
+  }
+  if (!supportsBitboard(rules)) {
+    throw new Error(`Rule set "${rules.name}" is too large for a tablebase`);
+  }
+  const tables = getBitboardTables(rules);
+  const windowCount = tables.windowSpan * tables.windowSpan;
+  if (3 ** tables.cellCount * windowCount * 2 > Number.MAX_SAFE_INTEGER) {
+    throw new Error(`Rule set "${rules.name}" is too large for a tablebase`);
+  }
+  const powers = new Float64Array(tables.cellCount);
+  for (let cell = 0; cell < powers.length; cell++) {
+    powers[cell] = 3 ** cell;
+  }
+  const codec = { tables, windowCount, powers };
+  codecCache.set(rules, codec);
+  return codec;
+};
+
+const lowestBit = (mask: number): number => 31 - Math.clz32(mask & -mask);
+
+const countBits = (mask: number): number => {
+  let count = 0;
+  for (let rest = mask; rest; rest &= rest - 1) count++;
+  return count;
+};
+
+const packKey = (codec: KeyCodec, x: number, o: number, window: number, player: Player): number => {
+  let cells = 0;
+  for (let rest = x; rest; rest &= rest - 1) cells += codec.powers[lowestBit(rest)];
+  for (let rest = o; rest; rest &= rest - 1) cells += 2 * codec.powers[lowestBit(rest)];
+  return (cells * codec.windowCount + window) * 2 + (player === "X" ? 0 : 1);
+};
+
+const encodeKey = (codec: KeyCodec, board: Bitboard, player: Player): number =>
+  packKey(codec, board.x, board.o, board.activeY * codec.tables.windowSpan + board.activeX, player);
+
+/** Overwrite `board` with the position behind `key`; returns the side to move. */
+const decodeKey = (codec: KeyCodec, key: number, board: Bitboard): Player => {
+  const player: Player = key % 2 === 0 ? "X" : "O";
+  const rest = Math.floor(key / 2);
+  const window = rest % codec.windowCount;
+  let cells = Math.floor(rest / codec.windowCount);
+  let x = 0;
+  let o = 0;
+  for (let cell = 0; cells > 0; cell++) {
+    const digit = cells % 3;
+    if (digit === 1) x = (x | (1 << cell)) >>> 0;
+    else if (digit === 2) o = (o | (1 << cell)) >>> 0;
+    cells = (cells - digit) / 3;
+  }
+  board.x = x;
+  board.o = o;
+  board.activeX = window % codec.tables.windowSpan;
+  board.activeY = Math.floor(window / codec.tables.windowSpan);
+  board.placedX = countBits(x);
+  board.placedO = countBits(o);
+  return player;
+};
+
+// Hashes are not needed here; apply/undo keep updating them harmlessly.
+const createScratchBoard = (tables: BitboardTables): Bitboard => ({
+  x: 0,
+  o: 0,
+  activeX: 0,
+  activeY: 0,
+  placedX: 0,
+  placedO: 0,
+  hashHi: 0,
+  hashLo: 0,
+  tables
+});
+
+/** Key under which `state` with `player` to move is stored. */
+export const getTablebaseKey = (state: GameState, player: Player): number =>
+  encodeKey(getKeyCodec(getRules(state)), toBitboard(state), player);
+
+// ── Enumeration ─────────────────────────────────────────────────────
+
+/** Insert-only set of keys that also remembers their insertion order. */
+interface KeySet {
+  keys: Float64Array;
+  size: number;
+  slots: Int32Array;
+}
+
+const createKeySet = (): KeySet => ({ keys: new Float64Array(1024), size: 0, slots: new Int32Array(2048) });
+
+const slotOf = (key: number, mask: number): number =>
+  (Math.imul((key >>> 0) ^ Math.floor(key / 0x100000000), 0x9e3779b1) >>> 0) & mask;
+
+const addKey = (set: KeySet, key: number): void => {
+  const mask = set.slots.length - 1;
+  let slot = slotOf(key, mask);
+  for (let index = set.slots[slot]; index !== 0; index = set.slots[slot]) {
+    if (set.keys[index - 1] === key) return;
+    slot = (slot + 1) & mask;
+  }
+  if (set.size === set.keys.length) {
+    const keys = new Float64Array(set.keys.length * 2);
+    keys.set(set.keys);
+    set.keys = keys;
+  }
+  set.keys[set.size++] = key;
+  set.slots[slot] = set.size;
+  // Keep the load factor at or below one half
+  if (set.size * 2 > set.slots.length) {
+    const slots = new Int32Array(set.slots.length * 2);
+    const grownMask = slots.length - 1;
+    for (let index = 0; index < set.size; index++) {
+      let target = slotOf(set.keys[index], grownMask);
+      while (slots[target] !== 0) target = (target + 1) & grownMask;
+      slots[target] = index + 1;
+    }
+    set.slots = slots;
+  }
+};
+
+/** The decided value of the position in `board` with `player` to move, or UNKNOWN. */
+const getTerminalValue = (board: Bitboard, player: Player, moves: number[]): number => {
+  const outcome = getBitboardOutcome(board, getOpponent(player));
+  if (outcome === OUTCOME_DRAW) return DRAW;
+  if (outcome !== OUTCOME_NONE) return (outcome === OUTCOME_X_WINS) === (player === "X") ? WIN : LOSS;
+  if (generateMoves(board, player, moves).length === 0) {
+    const policy = board.tables.rules.noLegalActionPolicy;
+    if (policy === "loss") return LOSS;
+    if (policy === "draw") return DRAW;
+  }
+  return UNKNOWN;
+};
+
+/** Breadth-first walk from the initial position; returns every reachable key, sorted. */
+const enumeratePositions = (codec: KeyCodec, maxPositions: number, options: SolveOptions): Float64Array => {
+  const set = createKeySet();
+  const board = toBitboard(createInitialState(codec.tables.rules));
+  addKey(set, encodeKey(codec, board, "X"));
+  const moves: number[] = [];
+  for (let next = 0; next < set.size; next++) {
+    const player = decodeKey(codec, set.keys[next], board);
+    if (getTerminalValue(board, player, moves) !== UNKNOWN) continue;
+    const opponent = getOpponent(player);
+    if (moves.length === 0) moves.push(MOVE_PASS);
+    for (const move of moves) {
+      applyMove(board, move, player);
+      addKey(set, encodeKey(codec, board, opponent));
+      undoMove(board, move, player);
+    }
+    if (set.size > maxPositions) {
+      throw new Error(
+        `Rule set "${codec.tables.rules.name}" has more than ${maxPositions.toLocaleString()} reachable positions`
+      );
+    }
+    if (next > 0 && next % PROGRESS_INTERVAL === 0) options.onProgress?.("enumerate", set.size);
+  }
+  return set.keys.slice(0, set.size).sort();
+};
+
+const findKey = (keys: Float64Array, key: number): number => {
+  let low = 0;
+  let high = keys.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    const value = keys[middle];
+    if (value === key) return middle;
+    if (value < key) low = middle + 1;
+    else high = middle - 1;
+  }
+  return -1;
+};
+
+// ── Retrograde analysis ─────────────────────────────────────────────
+
+/**
+ * Keys of the positions from which the opponent of `player` could have
+ * reached the one in `board` with a placement, a peg move or a shift. Passes
+ * are left to the caller, since they depend on the previous position having
+ * no action at all.
+ */
+const collectPredecessors = (codec: KeyCodec, board: Bitboard, player: Player, out: number[]): void => {
+  out.length = 0;
+  const { rules, windowSpan, windowCells, cellCount } = codec.tables;
+  const mover = getOpponent(player);
+  const own = mover === "X" ? board.x : board.o;
+  const other = mover === "X" ? board.o : board.x;
+  const occupied = (board.x | board.o) >>> 0;
+  const window = board.activeY * windowSpan + board.activeX;
+  const canMove = countBits(own) >= rules.placementsBeforeMovement;
+  const key = (ownPieces: number, activeWindow: number): number =>
+    mover === "X"
+      ? packKey(codec, ownPieces, other, activeWindow, mover)
+      : packKey(codec, other, ownPieces, activeWindow, mover);
+
+  for (const cell of windowCells[window]) {
+    if (!(own & (1 << cell))) continue;
+    const without = (own & ~(1 << cell)) >>> 0;
+    // Placed on `cell`, or moved there from another cell that is empty now
+    out.push(key(without, window));
+    if (!canMove) continue;
+    for (let from = 0; from < cellCount; from++) {
+      if (from !== cell && !(occupied & (1 << from))) {
+        out.push(key((without | (1 << from)) >>> 0, window));
+      }
+    }
+  }
+  if (!canMove) return;
+  const maxOffset = windowSpan - 1;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const fromX = board.activeX - dx;
+      const fromY = board.activeY - dy;
+      if ((dx !== 0 || dy !== 0) && fromX >= 0 && fromX <= maxOffset && fromY >= 0 && fromY <= maxOffset) {
+        out.push(key(own, fromY * windowSpan + fromX));
+      }
+    }
+  }
+};
+
+/** Whether `player` passed to reach the position in `board`: the same board with them to move and no action. */
+const passedFrom = (codec: KeyCodec, board: Bitboard, player: Player, moves: number[]): boolean => {
+  const mover = getOpponent(player);
+  return codec.tables.rules.noLegalActionPolicy === "pass"
+    && getBitboardOutcome(board, player) === OUTCOME_NONE
+    && generateMoves(board, mover, moves).length === 0;
+};
+
+/**
+ * Solve `rules` completely: enumerate every position reachable from the
+ * initial one and compute its value and distance to the end of the game.
+ * Memory grows with the number of reachable positions (about 30 bytes each).
+ */
+export const solveTablebase = (rules: RuleSet = DEFAULT_RULES, options: SolveOptions = {}): Tablebase => {
+  const codec = getKeyCodec(rules);
+  const keys = enumeratePositions(codec, options.maxPositions ?? Infinity, options);
+  const count = keys.length;
+  const values = new Uint8Array(count);
+  const plies = new Uint16Array(count);
+  // Actions not yet known to reach a position the opponent wins
+  const remaining = new Uint16Array(count);
+  const queue = new Int32Array(count);
+  let queued = 0;
+  const board = createScratchBoard(codec.tables);
+  const moves: number[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const player = decodeKey(codec, keys[index], board);
+    const value = getTerminalValue(board, player, moves);
+    values[index] = value;
+    if (value === WIN || value === LOSS) {
+      queue[queued++] = index;
+    } else if (value === UNKNOWN) {
+      remaining[index] = Math.max(1, moves.length);
+    }
+  }
+
+  const predecessors: number[] = [];
+  for (let head = 0; head < queued; head++) {
+    const index = queue[head];
+    const player = decodeKey(codec, keys[index], board);
+    const lost = values[index] === LOSS;
+    const distance = plies[index] + 1;
+    if (distance > MAX_PLIES) {
+      throw new Error(`Rule set "${rules.name}" has wins longer than ${MAX_PLIES} plies`);
+    }
+    collectPredecessors(codec, board, player, predecessors);
+    if (passedFrom(codec, board, player, moves)) {
+      predecessors.push(encodeKey(codec, board, getOpponent(player)));
+    }
+    for (const key of predecessors) {
+      const previous = findKey(keys, key);
+      if (previous < 0 || values[previous] !== UNKNOWN) continue;
+      if (lost) {
+        values[previous] = WIN;
+      } else if (--remaining[previous] === 0) {
+        values[previous] = LOSS;
+      } else {
+        continue;
+      }
+      plies[previous] = distance;
+      queue[queued++] = previous;
+    }
+    if (head > 0 && head % PROGRESS_INTERVAL === 0) options.onProgress?.("solve", head);
+  }
+
+  const entries = new Uint16Array(count);
+  for (let index = 0; index < count; index++) {
+    entries[index] = (plies[index] << 2) | (values[index] === UNKNOWN ? DRAW : values[index]);
+  }
+  return { rules, keys, entries };
+};
+
+// ── Queries ─────────────────────────────────────────────────────────
+
+const toValue = (entry: number, player: Player): TablebaseValue => {
+  const value = entry & 3;
+  if (value === DRAW) return { winner: null, plies: 0 };
+  return { winner: value === WIN ? player : getOpponent(player), plies: entry >> 2 };
+};
+
+/**
+ * Value of `state` with `player` to move; null when the tablebase does not
+ * cover it (other rules, or a position the game cannot reach).
+ */
+export const probeTablebase = (tablebase: Tablebase, state: GameState, player: Player): TablebaseValue | null => {
+  if (!isSameRuleSet(tablebase.rules, getRules(state))) return null;
+  const index = findKey(tablebase.keys, getTablebaseKey(state, player));
+  return index < 0 ? null : toValue(tablebase.entries[index], player);
+};
+
+// Wins first (shortest first), then draws, then losses (longest first)
+const rankFor = (value: TablebaseValue, player: Player): number => {
+  if (value.winner === null) return 0;
+  return value.winner === player ? MAX_PLIES + 1 - value.plies : value.plies - MAX_PLIES - 1;
+};
+
+/**
+ * Every action for `player` with the value of the position it leads to, best
+ * first; empty when the tablebase does not cover the position.
+ */
+export const getTablebaseMoves = (tablebase: Tablebase, state: GameState, player: Player): TablebaseMove[] => {
+  if (!probeTablebase(tablebase, state, player) || getGameOutcome(state, getOpponent(player))) return [];
+  const actions = getAvailableActions(state, player);
+  if (actions.length === 0 && getRules(state).noLegalActionPolicy === "pass") {
+    actions.push(PASS_ACTION);
+  }
+  const opponent = getOpponent(player);
+  const moves: TablebaseMove[] = [];
+  for (const action of actions) {
+    const value = probeTablebase(tablebase, applyAction(state, action, player), opponent);
+    if (!value) continue;
+    moves.push({ action, winner: value.winner, plies: value.winner ? value.plies + 1 : 0 });
+  }
+  return moves.sort((a, b) => rankFor(b, player) - rankFor(a, player));
+};
+
+/** Perfect play from `state`: the best action at each ply, up to `maxPlies` or the end of the game. */
+export const getTablebaseLine = (tablebase: Tablebase, state: GameState, player: Player, maxPlies = 12): Action[] => {
+  const line: Action[] = [];
+  let current = state;
+  let side = player;
+  while (line.length < maxPlies) {
+    const [best] = getTablebaseMoves(tablebase, current, side);
+    if (!best) break;
+    line.push(best.action);
+    current = applyAction(current, best.action, side);
+    side = getOpponent(side);
+    if (best.winner !== null && best.plies === 1) break;
+  }
+  return line;
+};
+
+/**
+ * The best `count` moves (all of them when `count` ≤ 0) as engine
+ * evaluations, scored on the search's proven-result scale with their
+ * perfect-play lines.
+ */
+export const getTablebaseEvaluations = (
+  tablebase: Tablebase,
+  state: GameState,
+  player: Player,
+  count = 3
+): EngineEvaluation[] => {
+  const moves = getTablebaseMoves(tablebase, state, player);
+  return (count > 0 ? moves.slice(0, count) : moves).map(({ action, winner, plies }) => {
+    const pv = [action, ...getTablebaseLine(tablebase, applyAction(state, action, player), getOpponent(player))];
+    if (winner === null) return { score: 0, action, pv };
+    const score = winner === player ? WIN_SCORE - plies : plies - WIN_SCORE;
+    return { score, action, pv, forcedWin: { winner, plies } };
+  });
+};
+
+/** "a win for X in 7 plies", "a draw" */
+export const describeTablebaseValue = (value: TablebaseValue): string => {
+  if (value.winner === null) return "a draw";
+  if (value.plies === 0) return `already won by ${value.winner}`;
+  return `a win for ${value.winner} in ${value.plies} ${value.plies === 1 ? "ply" : "plies"}`;
+};
+
+export const summarizeTablebase = (tablebase: Tablebase): TablebaseSummary => {
+  const summary = { positions: tablebase.keys.length, wins: 0, losses: 0, draws: 0, longestWin: 0 };
+  for (const entry of tablebase.entries) {
+    const value = entry & 3;
+    if (value === WIN) summary.wins++;
+    else if (value === LOSS) summary.losses++;
+    else summary.draws++;
+    summary.longestWin = Math.max(summary.longestWin, entry >> 2);
+  }
+  const rules = tablebase.rules;
+  return { ...summary, initial: probeTablebase(tablebase, createInitialState(rules), "X")! };
+};
+
+// ── File format ─────────────────────────────────────────────────────
+// "TTTB", format version, rule-set JSON length (uint32, little-endian), the
+// JSON padded to a multiple of 8 bytes, position count (uint32), then the
+// keys (float64) and the entries (uint16).
+
+const MAGIC = "TTTB";
+const FORMAT_VERSION = 1;
+
+export const encodeTablebase = (tablebase: Tablebase): Uint8Array => {
+  const rules = new TextEncoder().encode(JSON.stringify({ ...tablebase.rules }));
+  const rulesEnd = 12 + Math.ceil(rules.length / 8) * 8;
+  const keysStart = rulesEnd + 8;
+  const count = tablebase.keys.length;
+  const bytes = new Uint8Array(keysStart + count * 10);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint32(4, FORMAT_VERSION, true);
+  view.setUint32(8, rules.length, true);
+  bytes.set(rules, 12);
+  view.setUint32(rulesEnd, count, true);
+  for (let index = 0; index < count; index++) {
+    view.setFloat64(keysStart + index * 8, tablebase.keys[index], true);
+    view.setUint16(keysStart + count * 8 + index * 2, tablebase.entries[index], true);
+  }
+  return bytes;
+};
+
+export const decodeTablebase = (bytes: Uint8Array): Tablebase => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || new TextDecoder().decode(bytes.subarray(0, 4)) !== MAGIC) {
+    throw new Error("Not a tablebase file");
+  }
+  const version = view.getUint32(4, true);
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported tablebase version ${version}`);
+  }
+  const rulesLength = view.getUint32(8, true);
+  const rulesEnd = 12 + Math.ceil(rulesLength / 8) * 8;
+  const count = bytes.length >= rulesEnd + 4 ? view.getUint32(rulesEnd, true) : -1;
+  const keysStart = rulesEnd + 8;
+  if (count < 0 || bytes.length !== keysStart + count * 10) {
+    throw new Error("The tablebase file is truncated");
+  }
+  const rules = createRuleSet(JSON.parse(new TextDecoder().decode(bytes.subarray(12, 12 + rulesLength))));
+  const keys = new Float64Array(count);
+  const entries = new Uint16Array(count);
+  for (let index = 0; index < count; index++) {
+    keys[index] = view.getFloat64(keysStart + index * 8, true);
+    entries[index] = view.getUint16(keysStart + count * 8 + index * 2, true);
+  }
+  return { rules, keys, entries };
+};
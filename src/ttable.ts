@@ -0,0 +1,220 @@
+import { Action } from "./game";
+import { PositionKey } from "./zobrist";
+
+// Transposition table with a fixed memory budget. Entries live in parallel
+// typed arrays grouped into two-slot buckets: the first slot keeps the
+// deepest result (unless it is left over from an earlier search), the second
+// always takes the newest one. Each search bumps the table's generation, so
+// stale entries age out of the depth-preferred slots first.
+
+export const enum TTFlag {
+  EXACT = 0,
+  LOWERBOUND = 1,
+  UPPERBOUND = 2,
+}
+
+export interface TableEntry {
+  score: number;
+  /** Remaining depth the score was searched to. */
+  depth: number;
+  flag: TTFlag;
+  /** Best move in the storing core's integer encoding; NO_MOVE when unknown. */
+  move: number;
+  /** Full state key, only kept in hash verification mode. */
+  verifyKey?: string;
+}
+
+export interface TranspositionTable {
+  /** Number of slots (two per bucket). */
+  readonly size: number;
+  readonly keys: Float64Array;
+  readonly scores: Float64Array;
+  readonly moves: Int32Array;
+  readonly depths: Int16Array;
+  readonly flags: Uint8Array;
+  readonly generations: Uint8Array;
+  verifyKeys: (string | undefined)[] | null;
+  generation: number;
+  /** Probes and successful probes since the current search started. */
+  probes: number;
+  hits: number;
+  /** Whatever the current search said its entries depend on; see `startTableSearch`. */
+  owner: readonly unknown[] | null;
+}
+
+export const DEFAULT_HASH_MB = 16;
+export const NO_MOVE = -1;
+
+const EMPTY_KEY = -1;
+// key + score (8 bytes each), move (4), depth (2), flag and generation (1 each)
+const ENTRY_BYTES = 24;
+const FILL_SAMPLE = 1000;
+
+// Search workers (parallel.ts) that exit holding several megabytes of plain
+// ArrayBuffers can deadlock Node's worker teardown; shared buffers are freed
+// through a different path and do not.
+const sharedBuffer = (length: number, bytesPerElement: number): SharedArrayBuffer =>
+  new SharedArrayBuffer(length * bytesPerElement);
+
+export const createTranspositionTable = (megabytes = DEFAULT_HASH_MB): TranspositionTable => {
+  if (!(megabytes > 0)) {
+    throw new Error("The transposition table needs a positive size in megabytes");
+  }
+  const buckets = Math.max(1, Math.floor((megabytes * 1024 * 1024) / (2 * ENTRY_BYTES)));
+  const size = buckets * 2;
+  return {
+    size,
+    keys: new Float64Array(sharedBuffer(size, Float64Array.BYTES_PER_ELEMENT)).fill(EMPTY_KEY),
+    scores: new Float64Array(sharedBuffer(size, Float64Array.BYTES_PER_ELEMENT)),
+    moves: new Int32Array(sharedBuffer(size, Int32Array.BYTES_PER_ELEMENT)),
+    depths: new Int16Array(sharedBuffer(size, Int16Array.BYTES_PER_ELEMENT)),
+    flags: new Uint8Array(sharedBuffer(size, Uint8Array.BYTES_PER_ELEMENT)),
+    generations: new Uint8Array(sharedBuffer(size, Uint8Array.BYTES_PER_ELEMENT)),
+    verifyKeys: null,
+    generation: 1,
+    probes: 0,
+    hits: 0,
+    owner: null
+  };
+};
+
+export const clearTable = (table: TranspositionTable): void => {
+  table.keys.fill(EMPTY_KEY);
+  table.verifyKeys = null;
+  table.generation = 1;
+  table.probes = 0;
+  table.hits = 0;
+};
+
+/**
+ * Begin a new search. `owner` lists what stored scores depend on (side,
+ * evaluation, core…); a table last used by a different owner is cleared.
+ * Otherwise its entries are kept and aged by one generation.
+ */
+export const startTableSearch = (table: TranspositionTable, owner: readonly unknown[]): void => {
+  const sameOwner = table.owner !== null
+    && table.owner.length === owner.length
+    && table.owner.every((value, index) => value === owner[index]);
+  if (!sameOwner) {
+    clearTable(table);
+    table.owner = owner;
+    return;
+  }
+  // Generation 0 is never current, so wrapping cannot revive ancient entries as new
+  table.generation = table.generation === 255 ? 1 : table.generation + 1;
+  table.probes = 0;
+  table.hits = 0;
+};
+
+const bucketOf = (table: TranspositionTable, key: PositionKey): number => (key % (table.size / 2)) * 2;
+
+export const probeTable = (table: TranspositionTable, key: PositionKey): TableEntry | undefined => {
+  table.probes++;
+  const base = bucketOf(table, key);
+  for (let slot = base; slot < base + 2; slot++) {
+    if (table.keys[slot] === key) {
+      table.hits++;
+      return {
+        score: table.scores[slot],
+        depth: table.depths[slot],
+        flag: table.flags[slot],
+        move: table.moves[slot],
+        verifyKey: table.verifyKeys?.[slot]
+      };
+    }
+  }
+  return undefined;
+};
+
+export const storeEntry = (table: TranspositionTable, key: PositionKey, entry: TableEntry): void => {
+  const base = bucketOf(table, key);
+  const preferred = base;
+  const always = base + 1;
+  let slot: number;
+  if (table.keys[preferred] === key) {
+    // A shallower bound on the same position must not evict the deeper result
+    slot = entry.depth >= table.depths[preferred] || entry.flag === TTFlag.EXACT ? preferred : always;
+  } else if (table.keys[always] === key) {
+    slot = always;
+  } else if (
+    table.keys[preferred] === EMPTY_KEY
+    || table.generations[preferred] !== table.generation
+    || entry.depth >= table.depths[preferred]
+  ) {
+    // Keep the shallower result displaced from the preferred slot when it is current
+    if (table.keys[preferred] !== EMPTY_KEY && table.generations[preferred] === table.generation) {
+      copySlot(table, preferred, always);
+    }
+    slot = preferred;
+  } else {
+    slot = always;
+  }
+  table.keys[slot] = key;
+  table.scores[slot] = entry.score;
+  table.depths[slot] = entry.depth;
+  table.flags[slot] = entry.flag;
+  table.moves[slot] = entry.move;
+  table.generations[slot] = table.generation;
+  if (entry.verifyKey !== undefined) {
+    (table.verifyKeys ??= [])[slot] = entry.verifyKey;
+  }
+};
+
+const copySlot = (table: TranspositionTable, from: number, to: number): void => {
+  table.keys[to] = table.keys[from];
+  table.scores[to] = table.scores[from];
+  table.depths[to] = table.depths[from];
+  table.flags[to] = table.flags[from];
+  table.moves[to] = table.moves[from];
+  table.generations[to] = table.generations[from];
+  if (table.verifyKeys) {
+    table.verifyKeys[to] = table.verifyKeys[from];
+  }
+};
+
+export interface TableStats {
+  /** Share of probes in the current search that found an entry (0–1). */
+  hitRate: number;
+  /** Share of slots holding an entry from the current search, sampled (0–1). */
+  fill: number;
+}
+
+export const getTableStats = (table: TranspositionTable): TableStats => {
+  const sample = Math.min(FILL_SAMPLE, table.size);
+  let current = 0;
+  for (let slot = 0; slot < sample; slot++) {
+    if (table.keys[slot] !== EMPTY_KEY && table.generations[slot] === table.generation) current++;
+  }
+  return { hitRate: table.probes ? table.hits / table.probes : 0, fill: current / sample };
+};
+
+// ── Action codes ────────────────────────────────────────────────────
+// The array core stores best actions with this encoding; unlike the bitboard
+// move encoding it has room for every board size a rule set allows.
+
+export const encodeTableAction = (action: Action): number => {
+  switch (action.type) {
+    case "place":
+      return action.index * 4;
+    case "move":
+      return (action.from * 1024 + action.to) * 4 + 1;
+    case "shift":
+      return ((action.dx + 1) * 3 + action.dy + 1) * 4 + 2;
+    default:
+      return 3;
+  }
+};
+
+export const decodeTableAction = (code: number): Action => {
+  const value = Math.floor(code / 4);
+  switch (code % 4) {
+    case 0:
+      return { type: "place", index: value };
+    case 1:
+      return { type: "move", from: Math.floor(value / 1024), to: value % 1024 };
+    case 2:
+      return { type: "shift", dx: Math.floor(value / 3) - 1, dy: (value % 3) - 1 };
+    default:
+      return { type: "pass" };
+  }
+};
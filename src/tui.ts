@@ -1,7 +1,10 @@
-import { GameState, Player, FIRST_PLAYER_PIECES, isCellInActiveGrid, getActiveCellCoordinates } from "./game";
+import { GameState, Player, getRules, isCellInActiveGrid, getActiveCellCoordinates } from "./game";
 
-const rowLabels = ["A", "B", "C", "D", "E"];
-const columnLabels = ["1", "2", "3", "4", "5"];
+export const getRowLabels = (boardSize: number): string[] =>
+  Array.from({ length: boardSize }, (_, row) => String.fromCharCode(65 + row));
+
+export const getColumnLabels = (boardSize: number): string[] =>
+  Array.from({ length: boardSize }, (_, col) => String(col + 1));
 
 export const RESET = "\x1b[0m";
 export const DIM = "\x1b[2m";
@@ -11,23 +14,28 @@ const CYAN = "\x1b[36m";
 const GREEN = "\x1b[32m";
 const YELLOW = "\x1b[33m";
 
-const toCellChar = (cell: string): string => {
+const toCellChar = (cell: string, highlighted = false): string => {
+  if (highlighted && cell !== " ") return `${BOLD}${GREEN}${cell}${RESET}`;
   if (cell === "X") return `${RED}X${RESET}`;
   if (cell === "O") return `${CYAN}O${RESET}`;
   return `${DIM}·${RESET}`;
 };
 
-const buildHeader = (): string => {
+const buildHeader = (columnLabels: string[]): string => {
   const columns = columnLabels.map((label) => ` ${label} `).join("");
   return `  ${columns.trimEnd()}`;
 };
 
-export const renderBoard = (state: GameState): string => {
+export const renderBoard = (state: GameState, highlightedCells: number[] = []): string => {
+  const { boardSize } = getRules(state);
+  const highlighted = new Set(highlightedCells);
+  const rowLabels = getRowLabels(boardSize);
+  const columnLabels = getColumnLabels(boardSize);
   const rows = rowLabels.map((label, rowIndex) => {
     const rowCells = columnLabels
       .map((_, columnIndex) => {
         const index = rowIndex * columnLabels.length + columnIndex;
-        const char = toCellChar(state.board[index]);
+        const char = toCellChar(state.board[index], highlighted.has(index));
         const isActive = isCellInActiveGrid(state, rowIndex, columnIndex);
         const left = isActive ? `${BOLD}[` : " ";
         const right = isActive ? `]${RESET}` : " ";
@@ -37,7 +45,7 @@ export const renderBoard = (state: GameState): string => {
     return `${label} ${rowCells.trimEnd()}`;
   });
 
-  return [buildHeader(), ...rows].join("\n");
+  return [buildHeader(columnLabels), ...rows].join("\n");
 };
 
 export const clearScreen = (): void => {
@@ -49,34 +57,67 @@ export const clearScreen = (): void => {
 };
 
 export const renderHelp = (): string =>
-  "Tab/↑↓: cycle moves · Type to filter · Enter: confirm · ai/restart/exit";
+  "Tab/↑↓: cycle moves · Type to filter · Enter: confirm · ai/draw/undo/redo/position/restart/exit";
 
 // --- Compact status bar ---
 
 export const renderStatusBar = (
   state: GameState,
   current: Player,
-  humanPlayer: Player
+  humanPlayer: Player,
+  level?: string
 ): string => {
+  const rules = getRules(state);
   const [rowStart, rowEnd, colStart, colEnd] = getActiveCellCoordinates(state);
-  const rowSlice = rowLabels.slice(rowStart, rowEnd + 1).join("-");
+  const rowSlice = getRowLabels(rules.boardSize).slice(rowStart, rowEnd + 1).join("-");
   const activeDesc = `${rowSlice} × ${colStart + 1}-${colEnd + 1}`;
   const nextActor = current === humanPlayer ? "You" : "AI";
   const xPlaced = state.placementsByPlayer.X;
   const oPlaced = state.placementsByPlayer.O;
-  return `${BOLD}TicTacTwo${RESET} — ${nextActor} (${current}) to move | Active: ${activeDesc} | X: ${xPlaced}/${FIRST_PLAYER_PIECES}, O: ${oPlaced}/${FIRST_PLAYER_PIECES}`;
+  const levelText = level ? ` | Level: ${level}` : "";
+  return `${BOLD}TicTacTwo${RESET} — ${nextActor} (${current}) to move | Active: ${activeDesc} | X: ${xPlaced}/${rules.piecesPerPlayer}, O: ${oPlaced}/${rules.piecesPerPlayer}${levelText}`;
 };
 
 // --- Engine evaluation widget ---
 
 export interface EvalWidgetData {
-  evaluations: { score: number; pvText: string }[];
+  /**
+   * `forcedWin` marks a proven result: `winner` wins `plies` plies from now. MCTS moves carry their `visits`,
+   * book moves their `share` (0–1) of the book's weight.
+   */
+  evaluations: {
+    score: number;
+    pvText: string;
+    forcedWin?: { winner: Player; plies: number };
+    visits?: number;
+    share?: number;
+  }[];
   depth: number;
   maxDepth: number;
   nodesVisited: number;
   cacheHits?: number;
   cutoffs?: number;
+  /** Only set when hash verification is enabled. */
+  hashCollisions?: number;
   evalName?: string;
+  /** Time spent so far and the budget, for searches limited by `--movetime`. */
+  elapsedMs?: number;
+  movetime?: number;
+  /** Search threads; node counts are summed over all of them. */
+  threads?: number;
+  /** Transposition-table hit rate and fill (0–1), when a persistent table is in use. */
+  hashHitRate?: number;
+  hashFill?: number;
+  /** The tablebase's verdict, when the evaluations come from it instead of a search. */
+  tablebase?: string;
+  /** Set when the move comes from the opening book instead of a search. */
+  book?: boolean;
+  /** Engine name, when it is not the default minimax. */
+  engineName?: string;
+  /** Set when the evaluations come from MCTS; scores are then playout results on a -100..+100 scale. */
+  mcts?: { iterations: number; playout: string };
+  /** Whether the search pondered on the opponent's actual move, with the match's running totals. */
+  ponder?: { hit: boolean; hits: number; predictions: number };
 }
 
 export const renderEvalWidget = (data: EvalWidgetData): string => {
@@ -84,14 +125,43 @@ export const renderEvalWidget = (data: EvalWidgetData): string => {
   const statsExtra = (data.cacheHits || data.cutoffs)
     ? ` · TT: ${(data.cacheHits ?? 0).toLocaleString()} · Cut: ${(data.cutoffs ?? 0).toLocaleString()}`
     : "";
-  const header = `${DIM}── Engine${evalLabel} (depth ${data.depth}/${data.maxDepth}) · Nodes: ${data.nodesVisited.toLocaleString()}${statsExtra} ──${RESET}`;
+  const threadText = data.threads && data.threads > 1 ? ` · Threads: ${data.threads}` : "";
+  const collisionText = data.hashCollisions !== undefined
+    ? ` · Collisions: ${data.hashCollisions.toLocaleString()}`
+    : "";
+  const hashText = data.hashHitRate !== undefined && data.hashFill !== undefined
+    ? ` · Hash: ${Math.round(data.hashHitRate * 100)}% hits, ${Math.round(data.hashFill * 100)}% full`
+    : "";
+  const timeText = data.movetime !== undefined
+    ? ` · ${(data.elapsedMs ?? 0).toLocaleString()}/${data.movetime.toLocaleString()} ms`
+    : "";
+  // Engines other than minimax may not search by depth at all
+  const depthText = data.engineName && !data.depth ? "" : ` (depth ${data.depth}/${data.maxDepth}${timeText})`;
+  const header = data.tablebase
+    ? `${DIM}── Tablebase · ${data.tablebase} ──${RESET}`
+    : data.book
+      ? `${DIM}── Opening book · ${data.evaluations.length} known move${data.evaluations.length === 1 ? "" : "s"} ──${RESET}`
+      : data.mcts
+        ? `${DIM}── MCTS${data.mcts.playout === "evaluator" ? evalLabel : ""} (${data.mcts.playout} playouts${timeText}) · Iterations: ${data.mcts.iterations.toLocaleString()} · Nodes: ${data.nodesVisited.toLocaleString()} ──${RESET}`
+        : `${DIM}── Engine${data.engineName ? `: ${data.engineName}` : ""}${evalLabel}${depthText} · Nodes: ${data.nodesVisited.toLocaleString()}${threadText}${statsExtra}${hashText}${collisionText} ──${RESET}`;
   if (!data.evaluations.length) {
     return `${header}\n  ${DIM}(no evaluations)${RESET}`;
   }
   const lines = data.evaluations.map((e, i) => {
-    const scoreText = e.score >= 0 ? `${GREEN}+${e.score}${RESET}` : `${RED}${e.score}${RESET}`;
-    return `  ${i + 1}. ${scoreText} | ${e.pvText}`;
+    const color = e.score >= 0 ? GREEN : RED;
+    // Counted in the winner's moves, the way players count them
+    const scoreText = e.forcedWin
+      ? `${color}${e.forcedWin.winner} wins in ${Math.ceil(e.forcedWin.plies / 2)}${RESET}`
+      : e.share !== undefined
+        ? `book ${Math.round(e.share * 100)}%`
+        : e.score >= 0 ? `${GREEN}+${e.score}${RESET}` : `${RED}${e.score}${RESET}`;
+    const visitText = e.visits !== undefined ? ` (${e.visits.toLocaleString()} visits)` : "";
+    return `  ${i + 1}. ${scoreText}${visitText} | ${e.pvText}`;
   });
+  if (data.ponder) {
+    const { hit, hits, predictions } = data.ponder;
+    lines.push(`  ${DIM}Ponder ${hit ? "hit" : "miss"} · ${hits} of ${predictions} replies predicted${RESET}`);
+  }
   return [header, ...lines].join("\n");
 };
 
@@ -0,0 +1,283 @@
+import {
+  Board,
+  FIRST_PLAYER,
+  GameState,
+  Player,
+  createInitialState,
+  getActiveIndices,
+  getAvailableActions,
+  getGameOutcome,
+  getOpponent,
+  getRules,
+  getShiftActions
+} from "./game";
+import { getPositionKey } from "./zobrist";
+
+export type StateProblemCode =
+  | "board-size"
+  | "invalid-cell"
+  | "window-out-of-range"
+  | "placements-out-of-range"
+  | "piece-count"
+  | "turn-order"
+  | "unreachable";
+
+export interface StateProblem {
+  code: StateProblemCode;
+  message: string;
+}
+
+/**
+ * How far `validateState` goes. Each level includes the ones before it:
+ * - `structure`: the board, window and placement counts fit the rule set;
+ * - `consistency`: pieces on the board match the placements, and the
+ *   placements match the side to move;
+ * - `reachability`: a game from the initial position can arrive here.
+ */
+export type ValidationLevel = "structure" | "consistency" | "reachability";
+
+const players: Player[] = ["X", "O"];
+
+const checkStructure = (state: GameState): StateProblem[] => {
+  const rules = getRules(state);
+  const problems: StateProblem[] = [];
+  const cellCount = rules.boardSize * rules.boardSize;
+  if (!Array.isArray(state.board) || state.board.length !== cellCount) {
+    problems.push({ code: "board-size", message: `The board must have ${cellCount} cells` });
+  } else {
+    const invalid = state.board.findIndex((cell) => cell !== " " && cell !== "X" && cell !== "O");
+    if (invalid >= 0) {
+      problems.push({ code: "invalid-cell", message: `Cell ${invalid} holds "${state.board[invalid]}"` });
+    }
+  }
+  const maxOffset = rules.boardSize - rules.activeSize;
+  const inRange = (value: number): boolean => Number.isInteger(value) && value >= 0 && value <= maxOffset;
+  if (!inRange(state.activeX) || !inRange(state.activeY)) {
+    problems.push({
+      code: "window-out-of-range",
+      message: `The window offset (${state.activeX}, ${state.activeY}) must lie between 0 and ${maxOffset}`
+    });
+  }
+  for (const player of players) {
+    const placements = state.placementsByPlayer?.[player];
+    if (!Number.isInteger(placements) || placements < 0 || placements > rules.piecesPerPlayer) {
+      problems.push({
+        code: "placements-out-of-range",
+        message: `${player} placements must be between 0 and ${rules.piecesPerPlayer}, not ${placements}`
+      });
+    }
+  }
+  return problems;
+};
+
+/**
+ * Whether some turn counts fit the placements: the opener has made as many
+ * turns as the other side when it is to move, one more otherwise, and a
+ * player below the movement minimum has spent every turn placing. Passes
+ * skip turns, so any order fits when the rules allow them.
+ */
+const isTurnOrderConsistent = (state: GameState, player: Player, firstPlayer: Player): boolean => {
+  const { placementsBeforeMovement, noLegalActionPolicy } = getRules(state);
+  if (noLegalActionPolicy === "pass") return true;
+  const second = getOpponent(firstPlayer);
+  const lead = player === firstPlayer ? 0 : 1;
+  const first = state.placementsByPlayer[firstPlayer];
+  const other = state.placementsByPlayer[second];
+  const firstPlacingOnly = first < placementsBeforeMovement;
+  const otherPlacingOnly = other < placementsBeforeMovement;
+  if (firstPlacingOnly && otherPlacingOnly) return first - other === lead;
+  if (firstPlacingOnly) return other <= first - lead;
+  if (otherPlacingOnly) return first <= other + lead;
+  return true;
+};
+
+const checkConsistency = (state: GameState, player: Player, firstPlayer: Player): StateProblem[] => {
+  const problems: StateProblem[] = [];
+  for (const owner of players) {
+    const onBoard = state.board.filter((cell) => cell === owner).length;
+    // Pieces never leave the board, so every placement is still there
+    if (onBoard !== state.placementsByPlayer[owner]) {
+      problems.push({
+        code: "piece-count",
+        message: `${owner} has ${onBoard} pieces on the board but ${state.placementsByPlayer[owner]} placements`
+      });
+    }
+  }
+  if (!isTurnOrderConsistent(state, player, firstPlayer)) {
+    const { X, O } = state.placementsByPlayer;
+    problems.push({
+      code: "turn-order",
+      message: `${player} cannot be to move after ${X} X and ${O} O placements when ${firstPlayer} moves first`
+    });
+  }
+  return problems;
+};
+
+// ── Reachability ────────────────────────────────────────────────────
+
+export type Reachability = "reachable" | "unreachable" | "unknown";
+
+export const DEFAULT_REACHABILITY_NODES = 20000;
+
+interface Predecessor {
+  state: GameState;
+  player: Player;
+}
+
+interface SearchNode extends Predecessor {
+  turns: number;
+}
+
+/** Positions one turn earlier: the opponent of `player` undoes a placement, a peg move, a shift or a pass. */
+const getPredecessors = (state: GameState, player: Player, firstPlayer: Player): Predecessor[] => {
+  const rules = getRules(state);
+  const mover = getOpponent(player);
+  const withBoard = (board: Board, placements: number): GameState => ({
+    ...state,
+    board,
+    placementsByPlayer: { ...state.placementsByPlayer, [mover]: placements }
+  });
+  const placements = state.placementsByPlayer[mover];
+  const candidates: GameState[] = [];
+  const owned = getActiveIndices(state).filter((index) => state.board[index] === mover);
+  for (const index of owned) {
+    const board = [...state.board] as Board;
+    board[index] = " ";
+    candidates.push(withBoard(board, placements - 1));
+  }
+  if (placements >= rules.placementsBeforeMovement) {
+    // Shifting the window back is the reverse of a shift in the opposite direction
+    for (const { dx, dy } of getShiftActions(state)) {
+      candidates.push({ ...state, activeX: state.activeX + dx, activeY: state.activeY + dy });
+    }
+    // A peg may have come from any empty cell into the window
+    for (const to of owned) {
+      state.board.forEach((cell, from) => {
+        if (cell !== " ") return;
+        const board = [...state.board] as Board;
+        board[from] = mover;
+        board[to] = " ";
+        candidates.push(withBoard(board, placements));
+      });
+    }
+  }
+  if (rules.noLegalActionPolicy === "pass" && getAvailableActions(state, mover).length === 0) {
+    candidates.push(state);
+  }
+  // The game would have ended in a finished position, so it cannot precede this one
+  return candidates
+    .filter((candidate) => !getGameOutcome(candidate, player) && isTurnOrderConsistent(candidate, mover, firstPlayer))
+    .map((candidate) => ({ state: candidate, player: mover }));
+};
+
+// Chebyshev distance between two window offsets: the shifts needed to get from one to the other
+const windowSteps = (ax: number, ay: number, bx: number, by: number): number =>
+  Math.max(Math.abs(ax - bx), Math.abs(ay - by));
+
+/**
+ * Lower bound on the turns back to the initial position. Every placement must
+ * be undone, and pieces only leave the board from inside the window, so the
+ * window has to pass over each outside piece on its way back to the start.
+ * No turn lowers this by more than one.
+ */
+const distanceToStart = (state: GameState): number => {
+  const { boardSize, activeSize, initialActiveCoord: start } = getRules(state);
+  const maxOffset = boardSize - activeSize;
+  let travel = windowSteps(state.activeX, state.activeY, start, start);
+  state.board.forEach((cell, index) => {
+    if (cell === " ") return;
+    const row = Math.floor(index / boardSize);
+    const col = index % boardSize;
+    let best = Infinity;
+    for (let y = Math.max(0, row - activeSize + 1); y <= Math.min(row, maxOffset); y++) {
+      for (let x = Math.max(0, col - activeSize + 1); x <= Math.min(col, maxOffset); x++) {
+        best = Math.min(best, windowSteps(state.activeX, state.activeY, x, y) + windowSteps(x, y, start, start));
+      }
+    }
+    travel = Math.max(travel, best);
+  });
+  return state.placementsByPlayer.X + state.placementsByPlayer.O + travel;
+};
+
+/**
+ * Weighted A* search backwards from the position towards the initial one.
+ * Any path will do, so the distance counts double to reach the start sooner.
+ * `unreachable` means every predecessor was exhausted; `unknown` means
+ * `maxNodes` positions were expanded without an answer. Assumes the position
+ * passes the consistency checks.
+ */
+export const checkReachability = (
+  state: GameState,
+  player: Player,
+  firstPlayer: Player = FIRST_PLAYER,
+  maxNodes = DEFAULT_REACHABILITY_NODES
+): Reachability => {
+  const start = getPositionKey(createInitialState(getRules(state)), firstPlayer);
+  const seen = new Set([getPositionKey(state, player)]);
+  // Open positions bucketed by turns undone plus twice the remaining distance
+  const buckets: SearchNode[][] = [];
+  const push = (node: SearchNode): void => {
+    (buckets[node.turns + 2 * distanceToStart(node.state)] ??= []).push(node);
+  };
+  push({ state, player, turns: 0 });
+  let expanded = 0;
+  while (expanded < maxNodes) {
+    const bucket = buckets.find((nodes) => nodes?.length);
+    if (!bucket) {
+      return "unreachable";
+    }
+    const current = bucket.pop() as SearchNode;
+    if (getPositionKey(current.state, current.player) === start) {
+      return "reachable";
+    }
+    expanded++;
+    for (const predecessor of getPredecessors(current.state, current.player, firstPlayer)) {
+      const key = getPositionKey(predecessor.state, predecessor.player);
+      if (!seen.has(key)) {
+        seen.add(key);
+        push({ ...predecessor, turns: current.turns + 1 });
+      }
+    }
+  }
+  return "unknown";
+};
+
+// ── Validation ──────────────────────────────────────────────────────
+
+/**
+ * Problems that make `state` (with `player` to move) impossible, up to
+ * `level`. `firstPlayer` is the side that opened the game. Reachability is
+ * only reported when the search proves the position unreachable.
+ */
+export const validateState = (
+  state: GameState,
+  player: Player,
+  level: ValidationLevel = "reachability",
+  firstPlayer: Player = FIRST_PLAYER
+): StateProblem[] => {
+  const structure = checkStructure(state);
+  if (structure.length || level === "structure") {
+    return structure;
+  }
+  const consistency = checkConsistency(state, player, firstPlayer);
+  if (consistency.length || level === "consistency") {
+    return consistency;
+  }
+  if (checkReachability(state, player, firstPlayer) === "unreachable") {
+    return [{ code: "unreachable", message: "No game from the initial position reaches this position" }];
+  }
+  return [];
+};
+
+/** Throw an error listing every problem `validateState` finds. */
+export const assertValidState = (
+  state: GameState,
+  player: Player,
+  level: ValidationLevel = "reachability",
+  firstPlayer: Player = FIRST_PLAYER
+): void => {
+  const problems = validateState(state, player, level, firstPlayer);
+  if (problems.length) {
+    throw new Error(`Invalid position: ${problems.map((problem) => problem.message).join("; ")}`);
+  }
+};
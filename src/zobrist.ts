@@ -0,0 +1,173 @@
+import { Action, GameState, Player, getRules, getStateKey } from "./game";
+import { createRandomUint32 } from "./random";
+import { RuleSet } from "./rules";
+
+// Zobrist hashing: every (player, cell), window offset and placement counter
+// gets a random 64-bit value, stored as two uint32 halves. A position's hash
+// is the XOR of the values for its features, so each action updates it with
+// a handful of XORs instead of rebuilding a string key.
+
+export interface ZobristHash {
+  hi: number;
+  lo: number;
+}
+
+/**
+ * A Zobrist hash folded to 53 bits together with the side to move, so it can
+ * be used directly as a `Map`/`Set` key.
+ */
+export type PositionKey = number;
+
+export interface ZobristTables {
+  readonly cellCount: number;
+  readonly windowSpan: number;
+  readonly maxPlacements: number;
+  /** Indexed by `playerIndex * cellCount + cell`. */
+  readonly pieceHi: Uint32Array;
+  readonly pieceLo: Uint32Array;
+  /** Indexed by `activeY * windowSpan + activeX`. */
+  readonly windowHi: Uint32Array;
+  readonly windowLo: Uint32Array;
+  /** Indexed by `playerIndex * (maxPlacements + 1) + placements`. */
+  readonly placedHi: Uint32Array;
+  readonly placedLo: Uint32Array;
+  readonly sideHi: number;
+  readonly sideLo: number;
+}
+
+const ZOBRIST_SEED = 0x2545f491;
+
+const fill = (length: number, random: () => number): Uint32Array => {
+  const values = new Uint32Array(length);
+  for (let i = 0; i < length; i++) values[i] = random();
+  return values;
+};
+
+const tableCache = new WeakMap<RuleSet, ZobristTables>();
+
+export const getZobristTables = (rules: RuleSet): ZobristTables => {
+  const cached = tableCache.get(rules);
+  if (cached) {
+    return cached;
+  }
+  const random = createRandomUint32(ZOBRIST_SEED);
+  const cellCount = rules.boardSize * rules.boardSize;
+  const windowSpan = rules.boardSize - rules.activeSize + 1;
+  const maxPlacements = rules.piecesPerPlayer;
+  const tables: ZobristTables = {
+    cellCount,
+    windowSpan,
+    maxPlacements,
+    pieceHi: fill(2 * cellCount, random),
+    pieceLo: fill(2 * cellCount, random),
+    windowHi: fill(windowSpan * windowSpan, random),
+    windowLo: fill(windowSpan * windowSpan, random),
+    placedHi: fill(2 * (maxPlacements + 1), random),
+    placedLo: fill(2 * (maxPlacements + 1), random),
+    sideHi: random(),
+    sideLo: random()
+  };
+  tableCache.set(rules, tables);
+  return tables;
+};
+
+export const playerIndex = (player: Player): number => (player === "X" ? 0 : 1);
+
+/**
+ * Hash of the position alone; the side to move is folded in by
+ * `toPositionKey`. Placement counts above the rule set's limit (hand-built
+ * positions) are clamped.
+ */
+export const hashState = (state: GameState): ZobristHash => {
+  const tables = getZobristTables(getRules(state));
+  let hi = 0;
+  let lo = 0;
+  for (let cell = 0; cell < state.board.length; cell++) {
+    const value = state.board[cell];
+    if (value === " ") continue;
+    const index = playerIndex(value) * tables.cellCount + cell;
+    hi ^= tables.pieceHi[index];
+    lo ^= tables.pieceLo[index];
+  }
+  const offset = state.activeY * tables.windowSpan + state.activeX;
+  hi ^= tables.windowHi[offset];
+  lo ^= tables.windowLo[offset];
+  for (const player of ["X", "O"] as Player[]) {
+    const index = placedIndex(tables, player, state.placementsByPlayer[player]);
+    hi ^= tables.placedHi[index];
+    lo ^= tables.placedLo[index];
+  }
+  return { hi: hi >>> 0, lo: lo >>> 0 };
+};
+
+export const placedIndex = (tables: ZobristTables, player: Player, placements: number): number =>
+  playerIndex(player) * (tables.maxPlacements + 1) + Math.min(placements, tables.maxPlacements);
+
+/**
+ * Hash of the position reached when `player` plays `action` from `state`,
+ * computed without applying the action. The action must be legal.
+ */
+export const hashAfterAction = (hash: ZobristHash, state: GameState, action: Action, player: Player): ZobristHash => {
+  const tables = getZobristTables(getRules(state));
+  let { hi, lo } = hash;
+  const base = playerIndex(player) * tables.cellCount;
+  if (action.type === "place") {
+    hi ^= tables.pieceHi[base + action.index];
+    lo ^= tables.pieceLo[base + action.index];
+    const placements = state.placementsByPlayer[player];
+    const before = placedIndex(tables, player, placements);
+    const after = placedIndex(tables, player, placements + 1);
+    hi ^= tables.placedHi[before] ^ tables.placedHi[after];
+    lo ^= tables.placedLo[before] ^ tables.placedLo[after];
+  } else if (action.type === "move") {
+    hi ^= tables.pieceHi[base + action.from] ^ tables.pieceHi[base + action.to];
+    lo ^= tables.pieceLo[base + action.from] ^ tables.pieceLo[base + action.to];
+  } else if (action.type === "shift") {
+    const before = state.activeY * tables.windowSpan + state.activeX;
+    const after = (state.activeY + action.dy) * tables.windowSpan + state.activeX + action.dx;
+    hi ^= tables.windowHi[before] ^ tables.windowHi[after];
+    lo ^= tables.windowLo[before] ^ tables.windowLo[after];
+  }
+  return { hi: hi >>> 0, lo: lo >>> 0 };
+};
+
+export const toPositionKey = (hash: ZobristHash, player: Player, tables: ZobristTables): PositionKey => {
+  const hi = player === "O" ? hash.hi ^ tables.sideHi : hash.hi;
+  const lo = player === "O" ? hash.lo ^ tables.sideLo : hash.lo;
+  return (hi & 0x1fffff) * 0x100000000 + (lo >>> 0);
+};
+
+/** Drop-in replacement for `getStateKey` in sets, maps and the search. */
+export const getPositionKey = (state: GameState, player: Player): PositionKey =>
+  toPositionKey(hashState(state), player, getZobristTables(getRules(state)));
+
+/** Key of the position after `action`, without the `applyAction` copy `getNextStateKey` makes. */
+export const getNextPositionKey = (state: GameState, action: Action, player: Player): PositionKey =>
+  toPositionKey(
+    hashAfterAction(hashState(state), state, action, player),
+    player === "X" ? "O" : "X",
+    getZobristTables(getRules(state))
+  );
+
+// ── Collision verification (debug mode) ─────────────────────────────
+
+let verifyHashes = process.env.TICTACTWO_VERIFY_HASH === "1";
+
+/**
+ * In verification mode the search stores the full `getStateKey` string with
+ * every transposition-table entry and counts probes whose strings differ
+ * (true hash collisions), and checks incremental hashes against a full
+ * recomputation. Slow; meant for debugging only.
+ */
+export const setHashVerification = (enabled: boolean): void => {
+  verifyHashes = enabled;
+};
+
+export const isHashVerificationEnabled = (): boolean => verifyHashes;
+
+export const assertHashConsistent = (hash: ZobristHash, state: GameState): void => {
+  const expected = hashState(state);
+  if (expected.hi !== hash.hi || expected.lo !== hash.lo) {
+    throw new Error(`Zobrist hash drift detected for position ${getStateKey(state, "X")}`);
+  }
+};
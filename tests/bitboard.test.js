@@ -0,0 +1,117 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const {
+  createInitialState,
+  applyAction,
+  getAvailableActions,
+  getGameOutcome,
+  getOpponent,
+  getStateKey
+} = require("../dist/game");
+const {
+  toBitboard,
+  fromBitboard,
+  cloneBitboard,
+  generateMoves,
+  applyMove,
+  undoMove,
+  encodeAction,
+  decodeMove,
+  getBitboardOutcome,
+  getBitboardKey,
+  getBitboardStateKey,
+  supportsBitboard,
+  OUTCOME_NONE,
+  OUTCOME_X_WINS,
+  OUTCOME_O_WINS,
+  OUTCOME_DRAW
+} = require("../dist/bitboard");
+const { CLASSIC_RULES, GRAND_RULES, createRuleSet } = require("../dist/rules");
+const { getEngineEvaluations } = require("../dist/minimax");
+const { getPositionKey } = require("../dist/zobrist");
+
+// Small deterministic LCG so random walks are reproducible.
+const createRng = (seed) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+const outcomeCode = (outcome) => {
+  if (!outcome) return OUTCOME_NONE;
+  if (outcome.winner === "X") return OUTCOME_X_WINS;
+  if (outcome.winner === "O") return OUTCOME_O_WINS;
+  return OUTCOME_DRAW;
+};
+
+describe("Bitboard core", () => {
+  it("round-trips positions through the converters", () => {
+    let state = createInitialState();
+    state = applyAction(state, { type: "place", index: 6 }, "X");
+    state = applyAction(state, { type: "place", index: 12 }, "O");
+    const restored = fromBitboard(toBitboard(state));
+    assert.deepStrictEqual(restored, state);
+  });
+
+  it("encodes and decodes every kind of action", () => {
+    for (const action of [
+      { type: "place", index: 24 },
+      { type: "move", from: 0, to: 18 },
+      { type: "shift", dx: -1, dy: 1 }
+    ]) {
+      assert.deepStrictEqual(decodeMove(encodeAction(action)), action);
+    }
+  });
+
+  it("matches the array core along random games", () => {
+    for (const rules of [CLASSIC_RULES, createRuleSet({ ...CLASSIC_RULES, name: "mover-wins", simultaneousLinePolicy: "mover-wins" })]) {
+      const random = createRng(7);
+      for (let game = 0; game < 20; game += 1) {
+        let state = createInitialState(rules);
+        const board = toBitboard(state);
+        let player = "X";
+        for (let ply = 0; ply < 40; ply += 1) {
+          const actions = getAvailableActions(state, player);
+          const moves = generateMoves(board, player, []);
+          assert.deepStrictEqual(moves.map(decodeMove), actions, "Move generation should match getAvailableActions");
+          assert.strictEqual(getBitboardStateKey(board, player), getStateKey(state, player));
+          assert.strictEqual(getBitboardKey(board, player), getPositionKey(state, player));
+          const action = actions[Math.floor(random() * actions.length)];
+          const before = cloneBitboard(board);
+          applyMove(board, encodeAction(action), player);
+          undoMove(board, encodeAction(action), player);
+          assert.deepStrictEqual(board, before, "Undo should restore the exact bitboard");
+          applyMove(board, encodeAction(action), player);
+          state = applyAction(state, action, player);
+          assert.strictEqual(getBitboardOutcome(board, player), outcomeCode(getGameOutcome(state, player)));
+          if (getGameOutcome(state, player)) break;
+          player = getOpponent(player);
+        }
+      }
+    }
+  });
+
+  it("only supports rule sets that fit in a 32-bit mask", () => {
+    assert.strictEqual(supportsBitboard(CLASSIC_RULES), true);
+    assert.strictEqual(supportsBitboard(GRAND_RULES), false);
+  });
+
+  it("falls back to the array core for oversized boards", () => {
+    const state = createInitialState(GRAND_RULES);
+    const array = getEngineEvaluations(state, "X", new Set(), 2, 3);
+    const bitboard = getEngineEvaluations(state, "X", new Set(), 2, 3, undefined, undefined, "bitboard");
+    assert.deepStrictEqual(bitboard, array);
+  });
+
+  it("produces the same evaluations as the array search", () => {
+    let state = createInitialState();
+    state = applyAction(state, { type: "place", index: 6 }, "X");
+    state = applyAction(state, { type: "place", index: 12 }, "O");
+    state = applyAction(state, { type: "place", index: 7 }, "X");
+    for (const repetitionRule of ["search", "strict"]) {
+      const history = new Set([getPositionKey(applyAction(state, { type: "place", index: 8 }, "O"), "X")]);
+      const array = getEngineEvaluations(state, "O", history, 4, 0, undefined, repetitionRule, "array");
+      const bitboard = getEngineEvaluations(state, "O", history, 4, 0, undefined, repetitionRule, "bitboard");
+      assert.deepStrictEqual(bitboard, array);
+    }
+  });
+});
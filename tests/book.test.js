@@ -0,0 +1,150 @@
+const assert = require("node:assert");
+const fs = require("node:fs");
+const path = require("node:path");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction } = require("../dist/game");
+const { getRulePreset } = require("../dist/rules");
+const { chooseBestAction } = require("../dist/minimax");
+const { createRandom } = require("../dist/random");
+const { getPositionKey } = require("../dist/zobrist");
+const { runSelfPlayEpisode } = require("../dist/learning");
+const { renderEvalWidget } = require("../dist/tui");
+const {
+  addBookMove,
+  chooseBookMove,
+  createOpeningBook,
+  decodeOpeningBook,
+  encodeOpeningBook,
+  getBookMoves
+} = require("../dist/book");
+const { buildBookFromSearch, buildBookFromSelfPlay } = require("../dist/book-builder");
+
+const place = (index) => ({ type: "place", index });
+const classic = getRulePreset("classic");
+// X in the centre of the 5×5 board; O to move
+const afterCentre = () => applyAction(createInitialState(), place(12), "X");
+
+describe("Opening book", () => {
+  it("shares one entry between symmetric positions", () => {
+    const book = createOpeningBook(classic);
+    addBookMove(book, afterCentre(), "O", place(6), { weight: 1 });
+    // B2 after C3 is the same move as D4, B4 or D2 seen from another side
+    addBookMove(book, afterCentre(), "O", place(18), { weight: 2 });
+    assert.strictEqual(book.positions.size, 1);
+    const [moves] = book.positions.values();
+    assert.deepStrictEqual(moves, [{ move: "B2", weight: 3 }]);
+  });
+
+  it("maps moves back onto the position it is asked about", () => {
+    const book = createOpeningBook(classic);
+    const state = applyAction(afterCentre(), place(6), "O");
+    addBookMove(book, state, "X", place(7), { weight: 1, score: 4 });
+    // The same position turned a quarter: O in the other corner of the window
+    const turned = applyAction(afterCentre(), place(8), "O");
+    const [choice] = getBookMoves(book, turned, "X");
+    assert.strictEqual(choice.score, 4);
+    assert.strictEqual(choice.share, 1);
+    // Next to the centre, on the side facing O's corner
+    assert.ok([7, 13].includes(choice.action.index), `played ${choice.action.index}`);
+  });
+
+  it("picks moves by weight and skips those with no weight", () => {
+    const book = createOpeningBook(classic);
+    const state = createInitialState();
+    addBookMove(book, state, "X", place(12), { weight: 3 });
+    addBookMove(book, state, "X", place(6), { weight: 1 });
+    addBookMove(book, state, "X", place(7), { weight: 0 });
+    const random = createRandom(5);
+    const counts = { 6: 0, 7: 0, 12: 0 };
+    for (let i = 0; i < 400; i++) counts[chooseBookMove(book, state, "X", random).action.index] += 1;
+    assert.strictEqual(counts[7], 0);
+    assert.ok(counts[12] > 2 * counts[6] && counts[6] > 50, JSON.stringify(counts));
+    assert.deepStrictEqual(getBookMoves(book, state, "X").map((choice) => choice.share), [0.75, 0.25, 0]);
+  });
+
+  it("knows nothing of positions or rules it was not built for", () => {
+    const book = createOpeningBook(classic);
+    addBookMove(book, createInitialState(), "X", place(12), { weight: 1 });
+    assert.strictEqual(chooseBookMove(book, afterCentre(), "O", Math.random), null);
+    assert.deepStrictEqual(getBookMoves(book, createInitialState(getRulePreset("grand")), "X"), []);
+  });
+
+  it("leaves out moves into positions already seen", () => {
+    const book = createOpeningBook(classic);
+    const state = createInitialState();
+    addBookMove(book, state, "X", place(12), { weight: 1 });
+    const seen = new Set([getPositionKey(applyAction(state, place(12), "X"), "O")]);
+    assert.strictEqual(chooseBookMove(book, state, "X", Math.random, seen), null);
+  });
+
+  it("round-trips through its file format and rejects other files", () => {
+    const book = createOpeningBook(classic);
+    addBookMove(book, afterCentre(), "O", place(6), { weight: 2, wins: 1, draws: 0, losses: 1, score: -6 });
+    const decoded = decodeOpeningBook(encodeOpeningBook(book));
+    assert.deepStrictEqual(decoded.rules, book.rules);
+    assert.deepStrictEqual([...decoded.positions], [...book.positions]);
+    assert.throws(() => decodeOpeningBook("not json"), /Not an opening book file/);
+    assert.throws(() => decodeOpeningBook(JSON.stringify({ format: "tictactwo-book", version: 9 })), /version 9/);
+  });
+
+  it("ships a book for the classic rules", () => {
+    const book = decodeOpeningBook(fs.readFileSync(path.join(__dirname, "..", "books", "classic.json"), "utf8"));
+    assert.deepStrictEqual(book.rules, classic);
+    assert.ok(getBookMoves(book, createInitialState(), "X").length > 0);
+  });
+});
+
+describe("Building opening books", () => {
+  it("keeps the searched best moves, without symmetric repeats", () => {
+    const book = buildBookFromSearch(classic, { plies: 2, depth: 2 });
+    const first = getBookMoves(book, createInitialState(), "X");
+    assert.ok(first.length > 0);
+    const reply = getBookMoves(book, applyAction(createInitialState(), first[0].action, "X"), "O");
+    assert.ok(reply.length > 0);
+    assert.ok(reply.every((choice) => typeof choice.score === "number"));
+    assert.strictEqual(book.positions.size, 1 + first.length);
+  });
+
+  it("counts self-play results from the mover's side", () => {
+    const results = [
+      { winner: "X", turnCount: 2, history: [{ player: "X", action: place(12), stateBefore: createInitialState() }] },
+      { winner: "O", turnCount: 2, history: [{ player: "X", action: place(12), stateBefore: createInitialState() }] },
+      { winner: null, turnCount: 2, history: [{ player: "X", action: place(6), stateBefore: createInitialState() }] }
+    ];
+    const book = buildBookFromSelfPlay(results, classic, 1);
+    const moves = getBookMoves(book, createInitialState(), "X");
+    assert.deepStrictEqual(
+      moves.map(({ action, weight, wins, draws, losses }) => [action.index, weight, wins, draws, losses]),
+      [[12, 2, 1, 0, 1], [6, 1, 0, 1, 0]]
+    );
+  });
+});
+
+describe("Playing from the book", () => {
+  it("lets chooseBestAction play a book move instead of searching", () => {
+    const book = createOpeningBook(classic);
+    addBookMove(book, createInitialState(), "X", place(7), { weight: 1 });
+    const action = chooseBestAction(createInitialState(), "X", new Set(), 6, undefined, undefined, undefined, false, book);
+    assert.deepStrictEqual(action, place(7));
+    assert.notDeepStrictEqual(chooseBestAction(createInitialState(), "X", new Set(), 2), place(7));
+  });
+
+  it("plays book moves in self-play", () => {
+    const book = createOpeningBook(classic);
+    addBookMove(book, createInitialState(), "X", place(7), { weight: 1 });
+    const { history } = runSelfPlayEpisode({ book, depthLimit: 1, maxTurns: 2 });
+    assert.deepStrictEqual(history[0].action, place(7));
+  });
+
+  it("shows book moves and their shares in the engine widget", () => {
+    const text = renderEvalWidget({
+      evaluations: [{ score: 0, pvText: "place C3", share: 0.75 }, { score: 0, pvText: "place B2", share: 0.25 }],
+      depth: 0,
+      maxDepth: 6,
+      nodesVisited: 0,
+      book: true
+    });
+    assert.match(text, /Opening book · 2 known moves/);
+    assert.match(text, /1\. book 75% \| place C3/);
+  });
+});
@@ -1,7 +1,10 @@
 const { test } = require("node:test");
 const assert = require("node:assert");
 
-const { parseStartupChoice, isAiHandOffCommand } = require("../dist/cli-utils.js");
+const path = require("node:path");
+const { spawnSync } = require("node:child_process");
+
+const { parseSkillLevelChoice, parseStartupChoice, isAiHandOffCommand } = require("../dist/cli-utils.js");
 
 test("parseStartupChoice defaults to the first player when empty", () => {
   assert.strictEqual(parseStartupChoice(""), "X");
@@ -32,3 +35,18 @@ test("isAiHandOffCommand responds to ai or auto", () => {
   assert.strictEqual(isAiHandOffCommand("  auto  "), true);
   assert.strictEqual(isAiHandOffCommand("move"), false);
 });
+
+test("parseSkillLevelChoice accepts level names and numbers", () => {
+  assert.strictEqual(parseSkillLevelChoice("").name, "perfect");
+  assert.strictEqual(parseSkillLevelChoice(" Beginner ").name, "beginner");
+  assert.strictEqual(parseSkillLevelChoice("3").name, "medium");
+  assert.strictEqual(parseSkillLevelChoice("6"), null);
+  assert.strictEqual(parseSkillLevelChoice("grandmaster"), null);
+});
+
+test("the CLI rejects an unknown rule preset and lists the known ones", () => {
+  const cli = path.join(__dirname, "..", "dist", "cli.js");
+  const result = spawnSync(process.execPath, [cli, "--rules=huge"], { input: "", encoding: "utf8", timeout: 20000 });
+  assert.strictEqual(result.status, 1);
+  assert.match(result.stderr, /Unknown rule preset "huge" \(expected classic, grand, grand-three\)/);
+});
@@ -1,8 +1,9 @@
 
 const assert = require("node:assert");
 const { describe, it } = require("node:test");
-const { createInitialState, getStateKey, FIRST_PLAYER } = require("../dist/game");
+const { createInitialState, FIRST_PLAYER } = require("../dist/game");
 const { minimax } = require("../dist/minimax");
+const { getPositionKey } = require("../dist/zobrist");
 const { runSelfPlayTraining } = require("../dist/learning");
 
 describe("Coverage Improvement Tests", () => {
@@ -22,7 +23,7 @@ describe("Coverage Improvement Tests", () => {
     it("short-circuits when state is already in visited set", () => {
       const state = createInitialState();
       const visited = new Set();
-      const key = getStateKey(state, FIRST_PLAYER);
+      const key = getPositionKey(state, FIRST_PLAYER);
       visited.add(key);
       const history = new Set();
       const stats = { nodesVisited: 0, cacheHits: 0, cutoffs: 0 };
@@ -0,0 +1,87 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction, getActiveIndices, getOpponent } = require("../dist/game");
+const {
+  adjudicateDraw,
+  createPositionHistory,
+  recordPosition,
+  getRepetitionCount,
+  createAgreedDraw,
+  describeDrawReason
+} = require("../dist/draw");
+const { runSelfPlayEpisode, runSelfPlayTraining } = require("../dist/learning");
+
+const play = (state, player, positions, action) => {
+  const next = applyAction(state, action, player);
+  recordPosition(positions, next, getOpponent(player), action);
+  return next;
+};
+
+const setUpShuffle = () => {
+  let state = createInitialState();
+  const activeIndices = getActiveIndices(state);
+  state = applyAction(state, { type: "place", index: activeIndices[0] }, "X");
+  state = applyAction(state, { type: "place", index: activeIndices[4] }, "O");
+  state = applyAction(state, { type: "place", index: activeIndices[8] }, "X");
+  state = applyAction(state, { type: "place", index: activeIndices[3] }, "O");
+  return state;
+};
+
+describe("Draw adjudication", () => {
+  it("does not call the opening position a draw", () => {
+    const state = createInitialState();
+    const positions = createPositionHistory(state, "X");
+    assert.strictEqual(adjudicateDraw(state, "X", positions), null);
+    assert.strictEqual(getRepetitionCount(positions, state, "X"), 1);
+  });
+
+  it("declares threefold repetition when shifts shuffle back and forth", () => {
+    let state = setUpShuffle();
+    const positions = createPositionHistory(state, "X");
+    const right = { type: "shift", dx: 1, dy: 0 };
+    const left = { type: "shift", dx: -1, dy: 0 };
+    for (let cycle = 0; cycle < 2; cycle += 1) {
+      state = play(state, "X", positions, right);
+      state = play(state, "O", positions, left);
+    }
+    const draw = adjudicateDraw(state, "X", positions);
+    assert.ok(draw, "Third occurrence should be a draw");
+    assert.strictEqual(draw.reason, "repetition");
+    assert.strictEqual(draw.description, describeDrawReason("repetition"));
+    assert.strictEqual(adjudicateDraw(state, "X", positions, { repetitionLimit: 0 }), null, "A zero limit disables the rule");
+  });
+
+  it("applies the no-progress rule and resets it on placements", () => {
+    let state = setUpShuffle();
+    const positions = createPositionHistory(state, "X");
+    state = play(state, "X", positions, { type: "shift", dx: 1, dy: 0 });
+    state = play(state, "O", positions, { type: "shift", dx: 0, dy: 1 });
+    assert.strictEqual(positions.pliesSinceProgress, 2);
+    const draw = adjudicateDraw(state, "X", positions, { noProgressPlies: 2 });
+    assert.strictEqual(draw && draw.reason, "no-progress");
+    const empty = getActiveIndices(state).find((index) => state.board[index] === " ");
+    state = play(state, "X", positions, { type: "place", index: empty });
+    assert.strictEqual(positions.pliesSinceProgress, 0);
+  });
+
+  it("creates agreed draws with a structured reason", () => {
+    assert.deepStrictEqual(createAgreedDraw(), {
+      reason: "agreement",
+      description: describeDrawReason("agreement")
+    });
+  });
+
+  it("ends self-play episodes with a draw reason instead of a timeout", () => {
+    const episode = runSelfPlayEpisode({ depthLimit: 1, maxTurns: 200, drawOptions: { noProgressPlies: 4 } });
+    assert.notStrictEqual(episode.terminatedByMaxTurns, true);
+    if (episode.winner === null) {
+      assert.ok(episode.drawReason, "Drawn episodes should report a reason");
+    }
+  });
+
+  it("breaks down training draws by reason", () => {
+    const training = runSelfPlayTraining({ episodes: 2, depthLimit: 1, drawOptions: { noProgressPlies: 1 } });
+    const reasonTotal = Object.values(training.drawReasons).reduce((sum, count) => sum + count, 0);
+    assert.strictEqual(reasonTotal, training.winnerCounts.draw);
+  });
+});
@@ -0,0 +1,103 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState } = require("../dist/game");
+const { searchIterative } = require("../dist/minimax");
+const { searchParallel } = require("../dist/parallel");
+const { analyseInThread, createEngineThread } = require("../dist/engine-thread");
+
+describe("Stopping a search", () => {
+  it("keeps the last completed iteration when shouldStop says so", () => {
+    let depths = 0;
+    const result = searchIterative(createInitialState(), "X", new Set(), {
+      maxDepth: 8,
+      onDepth: () => depths++,
+      shouldStop: () => depths >= 2
+    });
+    assert.strictEqual(result.depth, 2);
+    assert.strictEqual(result.stopped, true);
+    assert.strictEqual(result.timedOut, false);
+    assert.ok(result.evaluations.length > 0);
+  });
+
+  it("always completes depth 1", () => {
+    const result = searchIterative(createInitialState(), "X", new Set(), { maxDepth: 8, shouldStop: () => true });
+    assert.strictEqual(result.depth, 1);
+    assert.strictEqual(result.stopped, true);
+  });
+
+  it("stops a parallel search through its signal", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 300);
+    const start = Date.now();
+    const result = await searchParallel(createInitialState(), "X", new Set(), {
+      maxDepth: 40,
+      threads: 2,
+      signal: controller.signal
+    });
+    assert.ok(Date.now() - start < 5000, `took ${Date.now() - start} ms`);
+    assert.strictEqual(result.stopped, true);
+    assert.ok(result.depth >= 1 && result.depth < 40);
+  });
+});
+
+describe("Engine thread", () => {
+  it("searches off the calling thread and stops when aborted", async () => {
+    const thread = createEngineThread();
+    try {
+      const controller = new AbortController();
+      const progress = [];
+      let ticks = 0;
+      const timer = setInterval(() => ticks++, 20);
+      setTimeout(() => controller.abort(), 400);
+      const start = Date.now();
+      const analysis = await thread.analyse(createInitialState(), "X", {
+        history: new Set(),
+        limits: { depth: 40 },
+        signal: controller.signal,
+        onProgress: (p) => progress.push(p)
+      });
+      clearInterval(timer);
+      assert.ok(Date.now() - start < 5000, `took ${Date.now() - start} ms`);
+      // The calling thread kept running its timers during the search
+      assert.ok(ticks >= 10, `only ${ticks} ticks`);
+      assert.strictEqual(analysis.stopped, true);
+      assert.ok(analysis.evaluations[0].pv.length > 0);
+      assert.deepStrictEqual(
+        progress.map((p) => p.depth),
+        Array.from({ length: analysis.depth }, (_, i) => i + 1)
+      );
+      assert.ok(progress.every((p, i) => i === 0 || p.stats.nodesVisited >= progress[i - 1].stats.nodesVisited));
+    } finally {
+      await thread.close();
+    }
+  });
+
+  it("runs one search at a time and keeps its tables between searches", async () => {
+    const thread = createEngineThread({ hashMegabytes: 4 });
+    try {
+      const request = { history: new Set(), limits: { depth: 4 } };
+      const first = thread.analyse(createInitialState(), "X", request);
+      await assert.rejects(thread.analyse(createInitialState(), "X", request), /already searching/);
+      const before = await first;
+      const again = await thread.analyse(createInitialState(), "X", request);
+      assert.ok(before.hash && again.hash);
+      const ranked = (analysis) => analysis.evaluations.map(({ action, score }) => ({ action, score }));
+      assert.deepStrictEqual(ranked(again), ranked(before));
+      assert.ok(again.stats.nodesVisited < before.stats.nodesVisited);
+    } finally {
+      await thread.close();
+    }
+  });
+
+  it("runs other built-in engines by name", async () => {
+    const analysis = await analyseInThread(createInitialState(), "X", {
+      history: new Set(),
+      engine: "mcts",
+      limits: { iterations: 1e9 },
+      seed: 1,
+      signal: AbortSignal.timeout(200)
+    });
+    assert.strictEqual(analysis.stopped, true);
+    assert.ok(analysis.iterations > 0 && analysis.iterations < 1e9);
+  });
+});
@@ -0,0 +1,140 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction, getAvailableActions } = require("../dist/game");
+const {
+  DEFAULT_ENGINE,
+  MCTS_ENGINE,
+  MINIMAX_ENGINE,
+  RANDOM_ENGINE,
+  getEngine,
+  listEngines,
+  registerEngine
+} = require("../dist/engine");
+const { chooseBestAction } = require("../dist/minimax");
+const { getEvaluationPlugin } = require("../dist/evaluation");
+const { getRulePreset } = require("../dist/rules");
+const { runSelfPlayEpisode, runSelfPlayTraining } = require("../dist/learning");
+
+const place = (index) => ({ type: "place", index });
+const build = (moves) => moves.reduce((state, [index, player]) => applyAction(state, place(index), player), createInitialState());
+
+// X to move with 6 and 8 on the top row: 7 wins at once
+const threat = () => build([[6, "X"], [13, "O"], [8, "X"], [18, "O"]]);
+
+describe("Engine registry", () => {
+  it("lists the built-in engines and falls back to minimax", () => {
+    assert.deepStrictEqual(listEngines().map((engine) => engine.name), ["minimax", "mcts", "random"]);
+    assert.strictEqual(getEngine("mcts"), MCTS_ENGINE);
+    assert.strictEqual(getEngine("missing"), DEFAULT_ENGINE);
+    assert.strictEqual(getEngine(), MINIMAX_ENGINE);
+  });
+
+  it("rejects engines without a name or entry points", () => {
+    assert.throws(() => registerEngine({ name: "", analyse: () => null, think: () => null }), /non-empty name/);
+    assert.throws(() => registerEngine({ name: "broken", analyse: () => null }), /analyse and think/);
+  });
+
+  it("lets a registered engine play self-play games", () => {
+    // Always plays the first legal action
+    const analyse = (state, player) => {
+      const [action] = getAvailableActions(state, player);
+      return {
+        depth: 0,
+        evaluations: [{ action, score: 0, pv: [action] }],
+        stats: { nodesVisited: 1, cacheHits: 0, cutoffs: 0 },
+        elapsedMs: 0,
+        timedOut: false
+      };
+    };
+    registerEngine({
+      name: "first-move",
+      description: "Plays the first legal action",
+      analyse,
+      think: (state, player, request) => ({ ...analyse(state, player, request).evaluations[0], stats: { nodesVisited: 1, cacheHits: 0, cutoffs: 0 }, elapsedMs: 0 })
+    });
+    const engine = getEngine("first-move");
+    const result = runSelfPlayEpisode({ engineX: engine, engineO: engine, maxTurns: 4 });
+    assert.deepStrictEqual(result.history[0].action, getAvailableActions(createInitialState(), "X")[0]);
+    assert.strictEqual(result.turnCount, 4);
+  });
+});
+
+describe("Built-in engines", () => {
+  it("all take an immediate win, reporting a score and line", () => {
+    for (const engine of [MINIMAX_ENGINE, MCTS_ENGINE]) {
+      const decision = engine.think(threat(), "X", { history: new Set(), limits: { depth: 3, iterations: 500 }, seed: 1 });
+      assert.deepStrictEqual(decision.action, place(7), engine.name);
+      assert.ok(decision.score > 0, engine.name);
+      assert.deepStrictEqual(decision.pv[0], place(7), engine.name);
+      assert.ok(decision.stats.nodesVisited > 0, engine.name);
+    }
+  });
+
+  it("minimax plays the same moves as chooseBestAction", () => {
+    const evaluate = getEvaluationPlugin("positional").evaluate;
+    let state = createInitialState();
+    let player = "X";
+    for (let ply = 0; ply < 6; ply++) {
+      const expected = chooseBestAction(state, player, new Set(), 3, evaluate);
+      const { action } = MINIMAX_ENGINE.think(state, player, {
+        history: new Set(),
+        limits: { depth: 3 },
+        evaluation: getEvaluationPlugin("positional")
+      });
+      assert.deepStrictEqual(action, expected);
+      state = applyAction(state, action, player);
+      player = player === "X" ? "O" : "X";
+    }
+  });
+
+  it("analyse reports progress and the requested number of moves", () => {
+    const depths = [];
+    const analysis = MINIMAX_ENGINE.analyse(createInitialState(), "X", {
+      history: new Set(),
+      limits: { depth: 3 },
+      count: 2,
+      onProgress: (progress) => depths.push(progress.depth)
+    });
+    assert.deepStrictEqual(depths, [1, 2, 3]);
+    assert.strictEqual(analysis.evaluations.length, 2);
+    assert.strictEqual(analysis.timedOut, false);
+
+    const mcts = MCTS_ENGINE.analyse(createInitialState(), "X", { history: new Set(), limits: { iterations: 300 }, count: 0, seed: 2 });
+    assert.strictEqual(mcts.iterations, 300);
+    assert.strictEqual(mcts.evaluations.reduce((sum, move) => sum + move.visits, 0), 300);
+  });
+
+  it("the random engine plays legal moves, repeatably from a seed", () => {
+    const state = createInitialState();
+    const legal = getAvailableActions(state, "X").map((action) => JSON.stringify(action));
+    const picks = new Set();
+    for (let seed = 0; seed < 20; seed++) {
+      const { action } = RANDOM_ENGINE.think(state, "X", { history: new Set(), seed });
+      assert.ok(legal.includes(JSON.stringify(action)));
+      assert.deepStrictEqual(RANDOM_ENGINE.think(state, "X", { history: new Set(), seed }).action, action);
+      picks.add(JSON.stringify(action));
+    }
+    assert.ok(picks.size > 1);
+  });
+
+  it("says which rule sets it can play", () => {
+    assert.strictEqual(MCTS_ENGINE.supportsRules(getRulePreset("classic")), true);
+    assert.strictEqual(MCTS_ENGINE.supportsRules(getRulePreset("grand")), false);
+    assert.strictEqual(MINIMAX_ENGINE.supportsRules, undefined);
+  });
+});
+
+describe("Self-play between engines", () => {
+  it("minimax beats the random engine", () => {
+    const { winnerCounts } = runSelfPlayTraining({
+      episodes: 4,
+      engineX: MINIMAX_ENGINE,
+      engineO: RANDOM_ENGINE,
+      depthLimit: 3,
+      evaluationPlugin: getEvaluationPlugin("positional"),
+      maxTurns: 60,
+      seed: 3
+    });
+    assert.ok(winnerCounts.X >= 3, JSON.stringify(winnerCounts));
+  });
+});
@@ -0,0 +1,91 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction } = require("../dist/game");
+const { WIN_SCORE, getEngineEvaluations, getForcedWin, minimax } = require("../dist/minimax");
+const { getEvaluationPlugin } = require("../dist/evaluation");
+const { createTranspositionTable } = require("../dist/ttable");
+const { renderEvalWidget } = require("../dist/tui");
+
+const place = (index) => ({ type: "place", index });
+const build = (moves) => moves.reduce((state, [index, player]) => applyAction(state, place(index), player), createInitialState());
+
+// X to move with 6 and 8 on the top row: 7 wins at once
+const threat = () => build([[6, "X"], [13, "O"], [8, "X"], [18, "O"]]);
+// X adds 16 and now threatens 7, 11 and 12; O cannot stop all of them
+const fork = () => build([[6, "X"], [13, "O"], [8, "X"], [18, "O"], [16, "X"]]);
+
+const plugins = [["default", undefined], ["positional", getEvaluationPlugin("positional").evaluate]];
+const cores = ["array", "bitboard"];
+const findAction = (evaluations, action) =>
+  evaluations.find((evaluation) => JSON.stringify(evaluation.action) === JSON.stringify(action));
+
+describe("Forced wins", () => {
+  it("reports a win in one whatever the evaluation plugin", () => {
+    for (const [name, evaluate] of plugins) {
+      for (const core of cores) {
+        const [best] = getEngineEvaluations(threat(), "X", new Set(), 6, 1, evaluate, "search", core).evaluations;
+        assert.deepStrictEqual(best.action, place(7), `${name}/${core}`);
+        assert.strictEqual(best.score, WIN_SCORE - 1, `${name}/${core}`);
+        assert.deepStrictEqual(best.forcedWin, { winner: "X", plies: 1 }, `${name}/${core}`);
+      }
+    }
+  });
+
+  it("reports exact distances for lost moves and leaves heuristic scores alone", () => {
+    for (const [name, evaluate] of plugins) {
+      for (const core of cores) {
+        const { evaluations } = getEngineEvaluations(fork(), "O", new Set(), 6, 0, evaluate, "search", core);
+        const label = `${name}/${core}`;
+        assert.deepStrictEqual(findAction(evaluations, place(7)).forcedWin, { winner: "X", plies: 2 }, label);
+        assert.deepStrictEqual(findAction(evaluations, { type: "shift", dx: 1, dy: 0 }).forcedWin, { winner: "X", plies: 4 }, label);
+        // Shifting the grid down escapes every threat
+        const escape = findAction(evaluations, { type: "shift", dx: 0, dy: 1 });
+        assert.strictEqual(escape.forcedWin, undefined, label);
+        assert.ok(Math.abs(escape.score) < WIN_SCORE / 2, label);
+      }
+    }
+  });
+
+  it("counts distances from the searched position", () => {
+    const table = createTranspositionTable(1);
+    const search = (depth) => minimax(
+      threat(), "X", "X", depth, depth + 6, new Set(), new Set(),
+      { nodesVisited: 0, cacheHits: 0, cutoffs: 0 }, undefined, -Infinity, Infinity, table
+    );
+    // The second search starts two plies deeper and reads what the first one stored
+    assert.deepStrictEqual(search(0).forcedWin, { winner: "X", plies: 1 });
+    assert.deepStrictEqual(search(2).forcedWin, { winner: "X", plies: 1 });
+    assert.deepStrictEqual(getForcedWin(-(WIN_SCORE - 5), "X", 1), { winner: "O", plies: 4 });
+    assert.strictEqual(getForcedWin(90, "X"), null);
+  });
+
+  it("keeps distances when a table is reused", () => {
+    for (const core of cores) {
+      const table = createTranspositionTable(1);
+      const fresh = getEngineEvaluations(fork(), "O", new Set(), 6, 0, undefined, "search", core);
+      getEngineEvaluations(fork(), "O", new Set(), 4, 0, undefined, "search", core, false, table);
+      const reused = getEngineEvaluations(fork(), "O", new Set(), 6, 0, undefined, "search", core, false, table);
+      assert.deepStrictEqual(
+        reused.evaluations.map((evaluation) => evaluation.forcedWin),
+        fresh.evaluations.map((evaluation) => evaluation.forcedWin),
+        core
+      );
+    }
+  });
+
+  it("shows forced wins in the engine widget", () => {
+    const text = renderEvalWidget({
+      evaluations: [
+        { score: WIN_SCORE - 9, pvText: "a", forcedWin: { winner: "X", plies: 9 } },
+        { score: 3, pvText: "b" },
+        { score: -(WIN_SCORE - 6), pvText: "c", forcedWin: { winner: "O", plies: 6 } }
+      ],
+      depth: 9,
+      maxDepth: 9,
+      nodesVisited: 100
+    }).replace(/\x1b\[[0-9;]*m/g, "");
+    assert.match(text, /1\. X wins in 5 \| a/);
+    assert.match(text, /2\. \+3 \| b/);
+    assert.match(text, /3\. O wins in 3 \| c/);
+  });
+});
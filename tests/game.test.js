@@ -12,7 +12,6 @@ const {
   isDraw,
   isCellInActiveGrid,
   canShiftGrid,
-  getStateKey,
   getNextStateKey,
   wouldRepeatState,
   FIRST_PLAYER,
@@ -23,6 +22,7 @@ const {
 const { chooseBestAction, minimax, getEngineEvaluations } = require("../dist/minimax.js");
 const { registerEvaluationPlugin, getEvaluationPlugin, listEvaluationPlugins, DEFAULT_EVALUATION_PLUGIN, POSITIONAL_EVALUATION_PLUGIN } = require("../dist/evaluation.js");
 const { runSelfPlayEpisode, runSelfPlayTraining } = require("../dist/learning.js");
+const { getPositionKey } = require("../dist/zobrist.js");
 
 
 const countPlacements = (board) =>
@@ -297,7 +297,7 @@ test("minimax chooses a shift when the active grid is full", () => {
 test("minimax short-circuits on already visited states", () => {
   const state = createInitialState();
   const visited = new Set();
-  visited.add(getStateKey(state, "X"));
+  visited.add(getPositionKey(state, "X"));
   const result = minimax(state, "X", "X", 0, 2, visited, new Set(), { nodesVisited: 0, cacheHits: 0, cutoffs: 0 });
   assert.strictEqual(result.score, 0);
   assert.strictEqual(result.action, undefined);
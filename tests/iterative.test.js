@@ -0,0 +1,64 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction } = require("../dist/game");
+const { getEvaluationPlugin } = require("../dist/evaluation");
+const { getEngineEvaluations, searchIterative } = require("../dist/minimax");
+
+const positional = getEvaluationPlugin("positional").evaluate;
+const place = (index) => ({ type: "place", index });
+
+// X on B2 and B3, O on C3 and D2, X to move.
+const opening = () => {
+  let state = createInitialState();
+  for (const [index, player] of [[6, "X"], [12, "O"], [7, "X"], [16, "O"]]) {
+    state = applyAction(state, place(index), player);
+  }
+  return state;
+};
+
+const scores = (evaluations) => evaluations.map((evaluation) => evaluation.score);
+
+describe("Iterative deepening", () => {
+  it("agrees with a fixed-depth search", () => {
+    for (const core of ["array", "bitboard"]) {
+      for (const evaluate of [undefined, positional]) {
+        const fixed = getEngineEvaluations(opening(), "X", new Set(), 4, 3, evaluate, "search", core);
+        const iterative = searchIterative(opening(), "X", new Set(), { maxDepth: 4, count: 3, evaluate, core });
+        assert.deepStrictEqual(scores(iterative.evaluations), scores(fixed.evaluations), core);
+        assert.strictEqual(iterative.depth, 4);
+        assert.strictEqual(iterative.timedOut, false);
+      }
+    }
+  });
+
+  it("reports every completed depth", () => {
+    const reports = [];
+    const result = searchIterative(createInitialState(), "X", new Set(), {
+      maxDepth: 4,
+      evaluate: positional,
+      onDepth: (progress) => reports.push(progress)
+    });
+    assert.deepStrictEqual(reports.map((progress) => progress.depth), [1, 2, 3, 4]);
+    for (let i = 1; i < reports.length; i++) {
+      assert.ok(reports[i].stats.nodesVisited > reports[i - 1].stats.nodesVisited);
+    }
+    assert.deepStrictEqual(result.evaluations, reports[3].evaluations);
+  });
+
+  it("gives the same answer with and without aspiration windows", () => {
+    const options = { maxDepth: 4, count: 0, evaluate: positional };
+    const narrow = searchIterative(opening(), "X", new Set(), { ...options, aspirationWindow: 1 });
+    const full = searchIterative(opening(), "X", new Set(), { ...options, aspirationWindow: 0 });
+    assert.deepStrictEqual(scores(narrow.evaluations), scores(full.evaluations));
+    assert.strictEqual(narrow.evaluations.length, full.evaluations.length);
+  });
+
+  it("returns the last completed depth when time runs out", () => {
+    const started = Date.now();
+    const result = searchIterative(createInitialState(), "X", new Set(), { maxDepth: 40, movetime: 50, evaluate: positional });
+    assert.ok(Date.now() - started < 2000);
+    assert.strictEqual(result.timedOut, true);
+    assert.ok(result.depth >= 1 && result.depth < 40);
+    assert.strictEqual(result.evaluations.length, 3);
+  });
+});
@@ -0,0 +1,94 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState } = require("../dist/game");
+const {
+  BEGINNER_LEVEL,
+  HARD_LEVEL,
+  PERFECT_LEVEL,
+  chooseSkillMove,
+  getSkillDepth,
+  getSkillLevel,
+  isSkillLimited,
+  listSkillLevels
+} = require("../dist/levels");
+const { createRandom } = require("../dist/random");
+const { getEvaluationPlugin } = require("../dist/evaluation");
+const { runSelfPlayEpisode, runSelfPlayTraining } = require("../dist/learning");
+const { renderStatusBar } = require("../dist/tui");
+
+const ranked = (...scores) => scores.map((score, index) => ({ score, index }));
+const countPicks = (evaluations, level, draws, seed = 1) => {
+  const random = createRandom(seed);
+  const counts = evaluations.map(() => 0);
+  for (let i = 0; i < draws; i++) counts[chooseSkillMove(evaluations, level, random).index]++;
+  return counts;
+};
+
+describe("Skill levels", () => {
+  it("go from beginner to perfect, with perfect the default", () => {
+    assert.deepStrictEqual(listSkillLevels().map((level) => level.name), ["beginner", "easy", "medium", "hard", "perfect"]);
+    assert.strictEqual(getSkillLevel("hard"), HARD_LEVEL);
+    assert.strictEqual(getSkillLevel("unknown"), PERFECT_LEVEL);
+    assert.strictEqual(isSkillLimited(PERFECT_LEVEL), false);
+    assert.strictEqual(isSkillLimited(BEGINNER_LEVEL), true);
+  });
+
+  it("cap the search depth without raising it", () => {
+    assert.strictEqual(getSkillDepth(BEGINNER_LEVEL, 6), 1);
+    assert.strictEqual(getSkillDepth(HARD_LEVEL, 2), 2);
+    assert.strictEqual(getSkillDepth(PERFECT_LEVEL, 6), 6);
+  });
+
+  it("perfect always plays the best move", () => {
+    assert.deepStrictEqual(countPicks(ranked(5, 4, 3), PERFECT_LEVEL, 100), [100, 0, 0]);
+  });
+
+  it("pick close moves often and far worse ones rarely", () => {
+    const level = { name: "test", description: "", temperature: 1, blunderChance: 0 };
+    const counts = countPicks(ranked(5, 5, 4, -20), level, 3000);
+    assert.ok(Math.abs(counts[0] - counts[1]) < 200, JSON.stringify(counts));
+    assert.ok(counts[2] > 300 && counts[2] < counts[0], JSON.stringify(counts));
+    assert.strictEqual(counts[3], 0);
+  });
+
+  it("never pass up a proven win except by blundering", () => {
+    const scores = ranked(999_999, 3, 2, 1);
+    assert.strictEqual(countPicks(scores, { ...BEGINNER_LEVEL, blunderChance: 0 }, 500)[0], 500);
+    const counts = countPicks(scores, { name: "test", description: "", temperature: 0, blunderChance: 1 }, 900);
+    assert.strictEqual(counts[0], 0);
+    assert.ok(counts.slice(1).every((count) => count > 200), JSON.stringify(counts));
+  });
+
+  it("repeat their choices from the same seed", () => {
+    const scores = ranked(3, 2, 1, 0, -1);
+    assert.deepStrictEqual(countPicks(scores, BEGINNER_LEVEL, 50, 7), countPicks(scores, BEGINNER_LEVEL, 50, 7));
+  });
+
+  it("are shown in the status bar", () => {
+    const bar = renderStatusBar(createInitialState(), "X", "O", "medium");
+    assert.ok(bar.includes("| Level: medium"));
+    assert.ok(!renderStatusBar(createInitialState(), "X", "O").includes("Level"));
+  });
+});
+
+describe("Self-play with skill levels", () => {
+  const positional = getEvaluationPlugin("positional");
+
+  it("replays an episode exactly from the same seed", () => {
+    const options = { level: BEGINNER_LEVEL, depthLimit: 3, evaluationPlugin: positional, maxTurns: 20, seed: 4 };
+    assert.deepStrictEqual(runSelfPlayEpisode(options).history, runSelfPlayEpisode(options).history);
+  });
+
+  it("the beginner loses to the perfect level", () => {
+    const { winnerCounts } = runSelfPlayTraining({
+      episodes: 4,
+      levelX: PERFECT_LEVEL,
+      levelO: BEGINNER_LEVEL,
+      depthLimit: 3,
+      evaluationPlugin: positional,
+      maxTurns: 60,
+      seed: 1
+    });
+    assert.ok(winnerCounts.X >= 3, JSON.stringify(winnerCounts));
+  });
+});
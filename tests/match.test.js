@@ -0,0 +1,126 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, getAvailableActions } = require("../dist/game");
+const { GRAND_THREE_RULES, createRuleSet } = require("../dist/rules");
+const { getPositionKey } = require("../dist/zobrist");
+const { Match } = require("../dist/match");
+
+const place = (index) => ({ type: "place", index });
+const shift = (dx, dy) => ({ type: "shift", dx, dy });
+
+// Two placements each, so shifts become available.
+const openingMatch = (options) => {
+  const match = new Match(options);
+  for (const index of [6, 12, 7, 16]) {
+    match.play(place(index));
+  }
+  return match;
+};
+
+describe("Match", () => {
+  it("starts from the initial position with X to move", () => {
+    const match = new Match();
+    assert.deepStrictEqual(match.state, createInitialState());
+    assert.strictEqual(match.currentPlayer, "X");
+    assert.deepStrictEqual(match.legalActions(), getAvailableActions(createInitialState(), "X"));
+    assert.strictEqual(match.outcome(), null);
+  });
+
+  it("takes its rules from the starting position, or from the rules option when the position has none", () => {
+    const { rules, ...bare } = createInitialState(GRAND_THREE_RULES);
+    assert.strictEqual(new Match({ rules: GRAND_THREE_RULES, initialState: bare }).rules, GRAND_THREE_RULES);
+    assert.strictEqual(new Match({ initialState: createInitialState(GRAND_THREE_RULES) }).rules, rules);
+    const copy = createRuleSet({ ...GRAND_THREE_RULES });
+    assert.strictEqual(new Match({ rules: copy, initialState: createInitialState(GRAND_THREE_RULES) }).rules.name, "grand-three");
+    assert.throws(
+      () => new Match({ rules: GRAND_THREE_RULES, initialState: createInitialState() }),
+      /starting position's rules \(classic\) differ from the match's \(grand-three\)/
+    );
+  });
+
+  it("records turns with the state before each action", () => {
+    const match = new Match();
+    const before = match.state;
+    match.play(place(6));
+    assert.strictEqual(match.currentPlayer, "O");
+    assert.deepStrictEqual(match.history, [{ player: "X", action: place(6), stateBefore: before }]);
+    assert.strictEqual(match.state.board[6], "X");
+  });
+
+  it("undoes and redoes turns, restoring the repetition history", () => {
+    const match = openingMatch();
+    const state = match.state;
+    const seen = match.seenPositions;
+    match.play(shift(1, 0));
+    assert.ok(match.seenPositions.has(getPositionKey(match.state, "O")));
+
+    const undone = match.undo();
+    assert.deepStrictEqual(undone.action, shift(1, 0));
+    assert.strictEqual(match.state, state);
+    assert.strictEqual(match.currentPlayer, "X");
+    assert.deepStrictEqual(match.seenPositions, seen);
+
+    assert.strictEqual(match.canRedo, true);
+    match.redo();
+    assert.strictEqual(match.ply, 5);
+    assert.strictEqual(match.state.activeX, state.activeX + 1);
+  });
+
+  it("clears the redo stack when a new action is played", () => {
+    const match = openingMatch();
+    match.undo();
+    match.play(place(8));
+    assert.strictEqual(match.canRedo, false);
+    assert.strictEqual(match.redo(), null);
+  });
+
+  it("reports wins and refuses further play", () => {
+    const match = new Match();
+    for (const index of [6, 11, 7, 16, 8]) {
+      match.play(place(index));
+    }
+    const result = match.outcome();
+    assert.strictEqual(result.winner, "X");
+    assert.deepStrictEqual(result.gameOutcome.lines[0].indices, [6, 7, 8]);
+    assert.deepStrictEqual(match.legalActions(), []);
+    assert.throws(() => match.play(place(12)), /already over/);
+  });
+
+  it("adjudicates repetition draws and forgets them on undo", () => {
+    const match = openingMatch({ drawOptions: { repetitionLimit: 2 } });
+    match.play(shift(1, 0));
+    assert.strictEqual(match.outcome(), null);
+    match.play(shift(-1, 0));
+    assert.strictEqual(match.outcome().draw.reason, "repetition");
+    match.undo();
+    assert.strictEqual(match.outcome(), null);
+  });
+
+  it("keeps agreed draws until they are undone", () => {
+    const match = openingMatch();
+    match.agreeDraw();
+    assert.strictEqual(match.outcome().draw.reason, "agreement");
+    match.undo();
+    assert.strictEqual(match.outcome(), null);
+  });
+
+  it("round-trips through JSON", () => {
+    const match = new Match({ rules: GRAND_THREE_RULES, drawOptions: { noProgressPlies: 20 } });
+    for (const action of [place(7), place(14), place(8), place(15), shift(0, 1)]) {
+      match.play(action);
+    }
+    const restored = Match.fromJSON(JSON.parse(JSON.stringify(match)));
+    assert.deepStrictEqual(restored.state.board, match.state.board);
+    assert.strictEqual(restored.currentPlayer, match.currentPlayer);
+    assert.deepStrictEqual(restored.history.map((turn) => turn.action), match.history.map((turn) => turn.action));
+    assert.strictEqual(restored.rules.name, "grand-three");
+    assert.deepStrictEqual(restored.drawOptions, { noProgressPlies: 20 });
+    assert.deepStrictEqual(restored.seenPositions, match.seenPositions);
+  });
+
+  it("rejects serialised matches with illegal or out-of-turn actions", () => {
+    const data = new Match().toJSON();
+    assert.throws(() => Match.fromJSON({ ...data, turns: [{ player: "O", action: place(6) }] }), /O, but X is to move/);
+    assert.throws(() => Match.fromJSON({ ...data, turns: [{ player: "X", action: place(0) }] }), /Can only place inside the active grid/);
+  });
+});
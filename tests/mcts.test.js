@@ -0,0 +1,107 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction } = require("../dist/game");
+const { searchMcts } = require("../dist/mcts");
+const { MCTS_ENGINE } = require("../dist/engine");
+const { getEvaluationPlugin } = require("../dist/evaluation");
+const { getRulePreset } = require("../dist/rules");
+const { runSelfPlayEpisode, runSelfPlayTraining } = require("../dist/learning");
+const { renderEvalWidget } = require("../dist/tui");
+
+const place = (index) => ({ type: "place", index });
+const build = (moves) => moves.reduce((state, [index, player]) => applyAction(state, place(index), player), createInitialState());
+
+// X to move with 6 and 8 on the top row: 7 wins at once
+const threat = () => build([[6, "X"], [13, "O"], [8, "X"], [18, "O"]]);
+// O to move and must block 7
+const mustBlock = () => build([[6, "X"], [13, "O"], [8, "X"]]);
+
+describe("MCTS", () => {
+  it("takes an immediate win with either playout policy", () => {
+    const evaluate = getEvaluationPlugin("positional").evaluate;
+    for (const playout of ["random", "evaluator"]) {
+      const { evaluations } = searchMcts(threat(), "X", new Set(), { iterations: 1000, seed: 1, playout, evaluate });
+      assert.deepStrictEqual(evaluations[0].action, place(7), playout);
+      assert.ok(evaluations[0].value > 0.9, playout);
+    }
+  });
+
+  it("blocks the opponent's winning move", () => {
+    const { evaluations } = searchMcts(mustBlock(), "O", new Set(), { iterations: 3000, seed: 2 });
+    assert.deepStrictEqual(evaluations[0].action, place(7));
+  });
+
+  it("repeats a search exactly from the same seed", () => {
+    const run = (seed) => searchMcts(createInitialState(), "X", new Set(), { iterations: 500, seed, count: 0 });
+    const first = run(42);
+    const again = run(42);
+    assert.strictEqual(first.seed, 42);
+    assert.deepStrictEqual(again.evaluations, first.evaluations);
+    assert.notDeepStrictEqual(run(43).evaluations, first.evaluations);
+  });
+
+  it("spends exactly the iteration budget, counting visits at the root", () => {
+    const result = searchMcts(createInitialState(), "X", new Set(), { iterations: 700, seed: 3, count: 0 });
+    assert.strictEqual(result.iterations, 700);
+    assert.strictEqual(result.evaluations.reduce((sum, e) => sum + e.visits, 0), 700);
+    assert.strictEqual(result.nodes, 701);
+    for (let i = 1; i < result.evaluations.length; i++) {
+      assert.ok(result.evaluations[i - 1].visits >= result.evaluations[i].visits);
+    }
+    assert.strictEqual(searchMcts(createInitialState(), "X", new Set(), { iterations: 700, seed: 3, count: 2 }).evaluations.length, 2);
+  });
+
+  it("stops at the time limit", () => {
+    const result = searchMcts(createInitialState(), "X", new Set(), { iterations: Infinity, movetime: 100, seed: 4 });
+    assert.ok(result.iterations > 0);
+    assert.ok(result.elapsedMs >= 100 && result.elapsedMs < 1000, `took ${result.elapsedMs} ms`);
+  });
+
+  it("reports progress while it searches", () => {
+    const seen = [];
+    searchMcts(createInitialState(), "X", new Set(), {
+      iterations: 300,
+      seed: 5,
+      reportInterval: 100,
+      onProgress: (progress) => seen.push(progress.iterations)
+    });
+    assert.deepStrictEqual(seen, [100, 200, 300]);
+  });
+
+  it("refuses boards the bitboard core cannot hold", () => {
+    const grand = createInitialState(getRulePreset("grand"));
+    assert.throws(() => searchMcts(grand, "X", new Set(), { iterations: 10 }), /at most 32 cells/);
+  });
+
+  it("shows visits and iterations in the engine widget", () => {
+    const text = renderEvalWidget({
+      evaluations: [{ score: 24, pvText: "place C3", visits: 1200 }],
+      depth: 0,
+      maxDepth: 6,
+      nodesVisited: 1500,
+      mcts: { iterations: 2000, playout: "random" }
+    });
+    assert.match(text, /MCTS \(random playouts\) · Iterations: 2,000 · Nodes: 1,500/);
+    assert.match(text, /\+24.*\(1,200 visits\) \| place C3/);
+  });
+});
+
+describe("Self-play with MCTS", () => {
+  it("plays MCTS against minimax, repeatably from a seed", () => {
+    const options = { engineX: MCTS_ENGINE, depthLimit: 2, maxTurns: 12, limits: { iterations: 200 }, seed: 9 };
+    const first = runSelfPlayEpisode(options);
+    assert.ok(first.turnCount > 0);
+    assert.deepStrictEqual(runSelfPlayEpisode(options).history, first.history);
+  });
+
+  it("gives each training episode its own seed", () => {
+    const { results } = runSelfPlayTraining({
+      episodes: 2,
+      engine: MCTS_ENGINE,
+      maxTurns: 6,
+      limits: { iterations: 100 },
+      seed: 11
+    });
+    assert.notDeepStrictEqual(results[0].history, results[1].history);
+  });
+});
@@ -2,6 +2,8 @@ const { test } = require("node:test");
 const assert = require("node:assert");
 const { createInitialState, getActiveIndices, applyAction, getStateKey } = require("../dist/game");
 const { minimax, getEngineEvaluations, chooseBestAction } = require("../dist/minimax");
+const { getEvaluationPlugin } = require("../dist/evaluation");
+const { createTranspositionTable } = require("../dist/ttable");
 
 test("benchmark: alpha-beta + TT vs baseline node count at depth 6", () => {
   const state = createInitialState();
@@ -64,7 +66,8 @@ test("benchmark: mid-game position with pieces on board", () => {
 test("transposition table reuses cached positions", () => {
   const state = createInitialState();
   const stats = { nodesVisited: 0, cacheHits: 0, cutoffs: 0 };
-  const ttable = new Map();
+  const ttable = createTranspositionTable(4);
+  const storedEntries = () => ttable.keys.filter((key) => key >= 0).length;
 
   // First search — populates the TT
   minimax(state, "X", "X", 0, 4, new Set(), new Set(), stats, undefined, -Infinity, Infinity, ttable);
@@ -73,9 +76,9 @@ test("transposition table reuses cached positions", () => {
 
   console.log(`\n  ── TT Reuse Test ──`);
   console.log(`  First search:  ${firstNodes.toLocaleString()} nodes, ${firstHits.toLocaleString()} hits`);
-  console.log(`  TT entries:    ${ttable.size.toLocaleString()}`);
+  console.log(`  TT entries:    ${storedEntries().toLocaleString()}`);
 
-  assert.ok(ttable.size > 0, "TT should have cached entries");
+  assert.ok(storedEntries() > 0, "TT should have cached entries");
 
   // Second search with same TT — should get cache hits
   const stats2 = { nodesVisited: 0, cacheHits: 0, cutoffs: 0 };
@@ -86,3 +89,68 @@ test("transposition table reuses cached positions", () => {
   assert.ok(stats2.cacheHits > 0, "Second search should hit cached entries");
   assert.ok(stats2.nodesVisited <= firstNodes, "Second search should visit fewer or equal nodes");
 });
+
+test("benchmark: bitboard core vs array core node throughput", () => {
+  let state = createInitialState();
+  const ai = getActiveIndices(state);
+  state = applyAction(state, { type: "place", index: ai[0] }, "X");
+  state = applyAction(state, { type: "place", index: ai[4] }, "O");
+  state = applyAction(state, { type: "place", index: ai[2] }, "X");
+  state = applyAction(state, { type: "place", index: ai[6] }, "O");
+
+  const run = (core) => {
+    const t0 = performance.now();
+    const result = getEngineEvaluations(state, "X", new Set(), 6, 0, undefined, undefined, core);
+    return { ...result, elapsed: Math.max(performance.now() - t0, 1) };
+  };
+
+  // Warm up both cores so JIT compilation does not skew the comparison
+  run("array");
+  run("bitboard");
+  const array = run("array");
+  const bitboard = run("bitboard");
+  const arrayRate = array.stats.nodesVisited / array.elapsed;
+  const bitboardRate = bitboard.stats.nodesVisited / bitboard.elapsed;
+
+  console.log(`\n  ── Bitboard Benchmark ──`);
+  console.log(`  Nodes (both):  ${array.stats.nodesVisited.toLocaleString()}`);
+  console.log(`  Array core:    ${array.elapsed.toFixed(0)} ms (${Math.round(arrayRate).toLocaleString()} nodes/ms)`);
+  console.log(`  Bitboard core: ${bitboard.elapsed.toFixed(0)} ms (${Math.round(bitboardRate).toLocaleString()} nodes/ms)`);
+  console.log(`  Speed-up:      ${(bitboardRate / arrayRate).toFixed(2)}×`);
+
+  assert.strictEqual(bitboard.stats.nodesVisited, array.stats.nodesVisited, "Both cores should search the same tree");
+  assert.deepStrictEqual(
+    bitboard.evaluations.map((entry) => entry.score),
+    array.evaluations.map((entry) => entry.score),
+    "Both cores should agree on every root score"
+  );
+});
+
+test("benchmark: PVS with killer and history ordering vs plain alpha-beta", () => {
+  const positional = getEvaluationPlugin("positional").evaluate;
+  let midGame = createInitialState();
+  const ai = getActiveIndices(midGame);
+  midGame = applyAction(midGame, { type: "place", index: ai[0] }, "X");
+  midGame = applyAction(midGame, { type: "place", index: ai[4] }, "O");
+  midGame = applyAction(midGame, { type: "place", index: ai[2] }, "X");
+  midGame = applyAction(midGame, { type: "place", index: ai[6] }, "O");
+
+  console.log(`\n  ── PVS Benchmark (depth 6) ──`);
+  for (const [name, state] of [["Initial", createInitialState()], ["Mid-game", midGame]]) {
+    for (const evaluate of [undefined, positional]) {
+      const run = (algorithm) =>
+        getEngineEvaluations(state, "X", new Set(), 6, 0, evaluate, "search", "bitboard", false, undefined, algorithm);
+      const alphabeta = run("alphabeta");
+      const pvs = run("pvs");
+      const label = `${name}${evaluate ? " (positional)" : ""}`;
+      console.log(`  ${label.padEnd(24)} alpha-beta ${alphabeta.stats.nodesVisited.toLocaleString()} · PVS ${pvs.stats.nodesVisited.toLocaleString()}`);
+
+      assert.ok(pvs.stats.nodesVisited < alphabeta.stats.nodesVisited, `${label}: PVS should visit fewer nodes`);
+      assert.deepStrictEqual(
+        pvs.evaluations.map((entry) => entry.score),
+        alphabeta.evaluations.map((entry) => entry.score),
+        `${label}: both algorithms should agree on every root score`
+      );
+    }
+  }
+});
@@ -0,0 +1,92 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const {
+  createInitialState,
+  applyAction,
+  getGameOutcome,
+  getCompletedLines,
+  getWinner,
+  isDraw
+} = require("../dist/game");
+const { CLASSIC_RULES, createRuleSet } = require("../dist/rules");
+const { getEngineEvaluations } = require("../dist/minimax");
+const { adjudicateDraw, createPositionHistory } = require("../dist/draw");
+const { renderBoard } = require("../dist/tui");
+
+const withPolicy = (simultaneousLinePolicy) => createRuleSet({ ...CLASSIC_RULES, simultaneousLinePolicy });
+
+// X owns B3–B5 and O owns C3–C5; neither line is inside the centred window,
+// but shifting the window one column right completes both at once.
+const buildDoubleLinePosition = (rules) => {
+  const state = createInitialState(rules);
+  const board = [...state.board];
+  for (const col of [2, 3, 4]) {
+    board[5 + col] = "X";
+    board[10 + col] = "O";
+  }
+  return { ...state, board, placementsByPlayer: { X: 3, O: 3 } };
+};
+
+describe("Game outcomes", () => {
+  it("reports a single completed line as a win", () => {
+    let state = createInitialState();
+    for (const index of [6, 7, 8]) {
+      state = applyAction(state, { type: "place", index }, "X");
+    }
+    const outcome = getGameOutcome(state, "X");
+    assert.strictEqual(outcome.winner, "X");
+    assert.strictEqual(outcome.reason, "line");
+    assert.strictEqual(outcome.bothCompleted, false);
+    assert.deepStrictEqual(outcome.lines, [{ player: "X", indices: [6, 7, 8] }]);
+  });
+
+  it("returns null while the game is still in play", () => {
+    assert.strictEqual(getGameOutcome(createInitialState()), null);
+  });
+
+  it("detects both players completing lines after a shift", () => {
+    const before = buildDoubleLinePosition(CLASSIC_RULES);
+    assert.strictEqual(getCompletedLines(before).length, 0);
+    const after = applyAction(before, { type: "shift", dx: 1, dy: 0 }, "X");
+    const outcome = getGameOutcome(after, "X");
+    assert.strictEqual(outcome.bothCompleted, true);
+    assert.strictEqual(outcome.reason, "simultaneous-lines");
+    assert.deepStrictEqual(outcome.lines.map((line) => line.player).sort(), ["O", "X"]);
+  });
+
+  it("applies the configured simultaneous-line policy", () => {
+    const shift = { type: "shift", dx: 1, dy: 0 };
+    const drawn = applyAction(buildDoubleLinePosition(withPolicy("draw")), shift, "X");
+    assert.strictEqual(getWinner(drawn, "X"), null);
+    assert.strictEqual(isDraw(drawn, "X"), true);
+    assert.strictEqual(adjudicateDraw(drawn, "O", createPositionHistory(drawn, "O")).reason, "simultaneous-lines");
+
+    const moverWins = applyAction(buildDoubleLinePosition(withPolicy("mover-wins")), shift, "X");
+    assert.strictEqual(getWinner(moverWins, "X"), "X");
+
+    const moverLoses = applyAction(buildDoubleLinePosition(withPolicy("mover-loses")), shift, "X");
+    assert.strictEqual(getWinner(moverLoses, "X"), "O");
+    assert.strictEqual(getWinner(moverLoses), null, "Without a known mover the position scores as a draw");
+  });
+
+  it("lets minimax use the policy when weighing a double-line shift", () => {
+    const shiftScore = (policy) => {
+      const { evaluations } = getEngineEvaluations(buildDoubleLinePosition(withPolicy(policy)), "X", new Set(), 1, 0);
+      return evaluations.find((entry) => entry.action.type === "shift" && entry.action.dx === 1 && entry.action.dy === 0).score;
+    };
+    assert.ok(shiftScore("mover-wins") > 0);
+    assert.ok(shiftScore("mover-loses") < 0);
+    assert.strictEqual(shiftScore("draw"), 0);
+  });
+
+  it("highlights winning cells on the rendered board", () => {
+    const plain = renderBoard(createInitialState());
+    let state = createInitialState();
+    for (const index of [6, 7, 8]) {
+      state = applyAction(state, { type: "place", index }, "X");
+    }
+    const highlighted = renderBoard(state, getGameOutcome(state, "X").lines[0].indices);
+    assert.ok(!plain.includes("\x1b[32mX"));
+    assert.strictEqual(highlighted.split("\x1b[32mX").length - 1, 3);
+  });
+});
@@ -0,0 +1,107 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction } = require("../dist/game");
+const { getEvaluationPlugin } = require("../dist/evaluation");
+const { createRuleSet } = require("../dist/rules");
+const { searchIterative } = require("../dist/minimax");
+const { createSearchPool, searchParallel } = require("../dist/parallel");
+const { renderEvalWidget } = require("../dist/tui");
+
+const place = (index) => ({ type: "place", index });
+const ranking = (evaluations) => evaluations.map((evaluation) => `${JSON.stringify(evaluation.action)} ${evaluation.score}`);
+
+// Positions from the opening and after the first shift, with the side to move.
+const positions = () => {
+  let state = createInitialState();
+  const list = [];
+  const turns = [[place(6), "X"], [place(12), "O"], [place(7), "X"], [place(16), "O"], [{ type: "shift", dx: 1, dy: 0 }, "X"]];
+  for (const [action, player] of turns) {
+    state = applyAction(state, action, player);
+    list.push({ state, player: player === "X" ? "O" : "X" });
+  }
+  return list;
+};
+
+describe("Parallel search", () => {
+  it("matches the serial search at the same depth", async () => {
+    for (const { state, player } of positions()) {
+      for (const evaluation of ["default", "positional"]) {
+        const serial = searchIterative(state, player, new Set(), {
+          maxDepth: 4,
+          count: 0,
+          evaluate: getEvaluationPlugin(evaluation).evaluate
+        });
+        const parallel = await searchParallel(state, player, new Set(), { maxDepth: 4, count: 0, evaluation, threads: 3 });
+        assert.deepStrictEqual(ranking(parallel.evaluations), ranking(serial.evaluations));
+        assert.strictEqual(parallel.threads, 3);
+        assert.strictEqual(parallel.depth, 4);
+      }
+    }
+  });
+
+  it("reports each depth once with combined stats", async () => {
+    const reports = [];
+    const result = await searchParallel(createInitialState(), "X", new Set(), {
+      maxDepth: 3,
+      threads: 2,
+      onDepth: (progress) => reports.push(progress)
+    });
+    assert.deepStrictEqual(reports.map((progress) => progress.depth), [1, 2, 3]);
+    assert.ok(reports.every((progress) => progress.threads === 2 && progress.evaluations.length === 3));
+    assert.ok(result.stats.nodesVisited >= reports[2].stats.nodesVisited);
+  });
+
+  it("sizes every worker's table with hashMegabytes", async () => {
+    const result = await searchParallel(createInitialState(), "X", new Set(), { maxDepth: 3, threads: 2, hashMegabytes: 1 });
+    assert.strictEqual(result.depth, 3);
+    // A size no table can have shows that the workers build theirs from it
+    await assert.rejects(
+      searchParallel(createInitialState(), "X", new Set(), { maxDepth: 3, threads: 2, hashMegabytes: -1 }),
+      /positive size in megabytes/
+    );
+  });
+
+  it("keeps each thread's tables between searches on a pool", async () => {
+    const pool = createSearchPool({ threads: 2, hashMegabytes: 1 });
+    try {
+      const search = () => searchParallel(createInitialState(), "X", new Set(), { maxDepth: 4, count: 0, pool });
+      const first = await search();
+      const second = await search();
+      assert.strictEqual(second.threads, 2);
+      assert.deepStrictEqual(ranking(second.evaluations), ranking(first.evaluations));
+      assert.ok(second.stats.nodesVisited < first.stats.nodesVisited, `${second.stats.nodesVisited} ≥ ${first.stats.nodesVisited}`);
+      // A cleared pool starts from empty tables again
+      pool.clearHash();
+      assert.strictEqual((await search()).stats.nodesVisited, first.stats.nodesVisited);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("never uses more threads than root actions", async () => {
+    // O has filled its share of the window and can only pass
+    const rules = createRuleSet({
+      name: "cramped",
+      boardSize: 4,
+      activeSize: 3,
+      winLength: 3,
+      piecesPerPlayer: 5,
+      placementsBeforeMovement: 5,
+      initialActiveCoord: 0,
+      noLegalActionPolicy: "pass"
+    });
+    let state = createInitialState(rules);
+    [0, 1, 2, 5, 4, 6, 9, 8, 10].forEach((index, ply) => {
+      state = applyAction(state, place(index), ply % 2 ? "O" : "X");
+    });
+    const result = await searchParallel(state, "O", new Set(), { maxDepth: 2, threads: 4 });
+    assert.strictEqual(result.threads, 1);
+    assert.deepStrictEqual(result.evaluations.map((evaluation) => evaluation.action), [{ type: "pass" }]);
+  });
+
+  it("shows the thread count in the engine widget", () => {
+    const data = { evaluations: [], depth: 2, maxDepth: 4, nodesVisited: 1200, threads: 4 };
+    assert.match(renderEvalWidget(data), /Threads: 4/);
+    assert.doesNotMatch(renderEvalWidget({ ...data, threads: 1 }), /Threads/);
+  });
+});
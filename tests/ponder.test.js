@@ -0,0 +1,87 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { applyAction, createInitialState } = require("../dist/game");
+const { createEngineThread } = require("../dist/engine-thread");
+const { createPonderStats, startPonder } = require("../dist/ponder");
+const { renderEvalWidget } = require("../dist/tui");
+const { getPositionKey } = require("../dist/zobrist");
+
+const place = (index) => ({ type: "place", index });
+const ranked = (analysis) => analysis.evaluations.map(({ action, score }) => ({ action, score }));
+
+// Ponders on X's move with O's searches on `thread`
+const ponderOn = (thread, prediction, stats, depth) =>
+  startPonder(
+    createInitialState(),
+    "X",
+    new Set([getPositionKey(createInitialState(), "X")]),
+    prediction,
+    (state, player, history, signal, onProgress) =>
+      thread.analyse(state, player, { history, limits: { depth }, signal, onProgress }),
+    stats
+  );
+
+describe("Pondering", () => {
+  it("carries on with the search when the predicted move is played", async () => {
+    const thread = createEngineThread();
+    try {
+      const stats = createPonderStats();
+      const ponder = ponderOn(thread, place(12), stats, 4);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      assert.strictEqual(ponder.settle(place(12)), true);
+      const progress = [];
+      const pondered = await ponder.result((p) => progress.push(p));
+      assert.deepStrictEqual(stats, { predictions: 1, hits: 1 });
+      assert.strictEqual(pondered.depth, 4);
+      // The first report is the latest one made before the hit, so no depth is reported twice
+      assert.ok(progress.length > 0 && progress.at(-1).depth === 4);
+      assert.ok(progress.every((p, i) => i === 0 || p.depth === progress[i - 1].depth + 1));
+
+      const state = applyAction(createInitialState(), place(12), "X");
+      const history = new Set([getPositionKey(createInitialState(), "X"), getPositionKey(state, "O")]);
+      const direct = await thread.analyse(state, "O", { history, limits: { depth: 4 } });
+      assert.deepStrictEqual(ranked(pondered), ranked(direct));
+    } finally {
+      await thread.close();
+    }
+  });
+
+  it("stops the search when another move is played", async () => {
+    const thread = createEngineThread();
+    try {
+      const stats = createPonderStats();
+      const ponder = ponderOn(thread, place(12), stats, 40);
+      assert.strictEqual(ponder.settle(place(6)), false);
+      const start = Date.now();
+      await ponder.cancel();
+      assert.ok(Date.now() - start < 5000, `took ${Date.now() - start} ms`);
+      assert.deepStrictEqual(stats, { predictions: 1, hits: 0 });
+      await assert.rejects(ponder.result(), /Only a ponder hit/);
+      // The engine thread is free again
+      const next = await thread.analyse(createInitialState(), "X", { history: new Set(), limits: { depth: 1 } });
+      assert.ok(next.evaluations.length > 0);
+    } finally {
+      await thread.close();
+    }
+  });
+
+  it("lets the caller stop a search it took over", async () => {
+    const thread = createEngineThread();
+    try {
+      const ponder = ponderOn(thread, place(12), createPonderStats(), 40);
+      ponder.settle(place(12));
+      const pondered = await ponder.result(undefined, AbortSignal.timeout(300));
+      assert.strictEqual(pondered.stopped, true);
+      assert.ok(pondered.evaluations.length > 0);
+    } finally {
+      await thread.close();
+    }
+  });
+
+  it("shows how the prediction went in the engine widget", () => {
+    const data = { evaluations: [{ score: 0, pvText: "place B2" }], depth: 4, maxDepth: 6, nodesVisited: 100 };
+    assert.match(renderEvalWidget({ ...data, ponder: { hit: true, hits: 3, predictions: 4 } }), /Ponder hit · 3 of 4 replies predicted/);
+    assert.match(renderEvalWidget({ ...data, ponder: { hit: false, hits: 3, predictions: 5 } }), /Ponder miss · 3 of 5/);
+    assert.doesNotMatch(renderEvalWidget(data), /Ponder/);
+  });
+});
@@ -0,0 +1,80 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction } = require("../dist/game");
+const { CLASSIC_RULES, GRAND_RULES, createRuleSet, isSameRuleSet } = require("../dist/rules");
+const { Match } = require("../dist/match");
+const { formatPosition, parsePosition } = require("../dist/position");
+const { createGameRecord, formatGameRecord, parseGameRecord, replayGameRecord } = require("../dist/record");
+
+const place = (index) => ({ type: "place", index });
+
+describe("Position strings", () => {
+  it("formats the initial position", () => {
+    assert.strictEqual(formatPosition(createInitialState(), "X"), "5/5/5/5/5 B2 X 0,0");
+    assert.strictEqual(formatPosition(createInitialState(GRAND_RULES), "O"), "6/6/6/6/6/6 B2 O 0,0 grand");
+  });
+
+  it("round-trips positions from a game", () => {
+    const match = new Match();
+    for (const action of [place(6), place(12), place(7), place(16), { type: "shift", dx: 1, dy: 0 }]) {
+      match.play(action);
+      const text = formatPosition(match.state, match.currentPlayer);
+      const parsed = parsePosition(text);
+      assert.deepStrictEqual(parsed.state.board, match.state.board);
+      assert.strictEqual(parsed.state.activeX, match.state.activeX);
+      assert.strictEqual(parsed.state.activeY, match.state.activeY);
+      assert.deepStrictEqual(parsed.state.placementsByPlayer, match.state.placementsByPlayer);
+      assert.strictEqual(parsed.player, match.currentPlayer);
+    }
+    assert.strictEqual(formatPosition(match.state, match.currentPlayer), "5/1XX2/2O2/1O3/5 B3 O 2,2");
+  });
+
+  it("takes the rule set from the string or the caller", () => {
+    const state = applyAction(createInitialState(GRAND_RULES), place(7), "X");
+    assert.strictEqual(parsePosition(formatPosition(state, "O")).state.rules, GRAND_RULES);
+    assert.strictEqual(parsePosition("6/1X4/6/6/6/6 B2 O 1,0", GRAND_RULES).state.rules, GRAND_RULES);
+    assert.strictEqual(parsePosition("5/5/5/5/5 B2 X 0,0").state.rules, CLASSIC_RULES);
+  });
+
+  it("writes and reads rule policy overrides", () => {
+    const rules = createRuleSet({ ...GRAND_RULES, noLegalActionPolicy: "pass" });
+    const state = applyAction(createInitialState(rules), place(7), "X");
+    const text = formatPosition(state, "O", { strictRepetition: true });
+    assert.strictEqual(text, "6/1X4/6/6/6/6 B2 O 1,0 grand no-legal-action=pass repetition-rule=strict");
+    const parsed = parsePosition(text);
+    assert.ok(isSameRuleSet(parsed.state.rules, rules));
+    assert.strictEqual(parsed.strictRepetition, true);
+    assert.strictEqual(formatPosition(parsed.state, parsed.player, parsed), text);
+
+    const classic = createRuleSet({ ...CLASSIC_RULES, simultaneousLinePolicy: "mover-wins" });
+    assert.strictEqual(formatPosition(createInitialState(classic), "X"), "5/5/5/5/5 B2 X 0,0 classic simultaneous-lines=mover-wins");
+    assert.strictEqual(parsePosition("5/5/5/5/5 B2 X 0,0 classic simultaneous-lines=mover-wins").state.rules.simultaneousLinePolicy, "mover-wins");
+    assert.strictEqual(parsePosition("5/5/5/5/5 B2 X 0,0").strictRepetition, undefined);
+  });
+
+  it("rejects malformed strings", () => {
+    assert.throws(() => parsePosition("5/5/5/5 B2 X 0,0"), /expected 5 rows/);
+    assert.throws(() => parsePosition("5/5/5/5/4 B2 X 0,0"), /row 5 has 4 cells/);
+    assert.throws(() => parsePosition("5/5/5/5/4Z B2 X 0,0"), /unexpected "Z"/);
+    assert.throws(() => parsePosition("5/5/5/5/5 D4 X 0,0"), /does not fit/);
+    assert.throws(() => parsePosition("5/5/5/5/5 B2 Y 0,0"), /side to move/);
+    assert.throws(() => parsePosition("5/5/5/5/5 B2 X 5,0"), /at most 4 placements/);
+    assert.throws(() => parsePosition("5/5/5/5/5 B2 X 0,0 huge"), /unknown rule preset "huge"/);
+    assert.throws(() => parsePosition("5/5/5/5/5 B2"), /expected board/);
+    assert.throws(() => parsePosition("5/5/5/5/5 B2 X 0,0 classic no-legal-action=skip"), /unknown no-legal-action policy "skip"/);
+    assert.throws(() => parsePosition("5/5/5/5/5 B2 X 0,0 classic contempt=5"), /unknown override "contempt=5"/);
+  });
+
+  it("records and replays games that start from a position", () => {
+    const start = parsePosition("5/1X3/2O2/5/5 B2 X 1,1");
+    const match = new Match({ initialState: start.state, firstPlayer: start.player });
+    match.play(place(7));
+    const record = createGameRecord(match);
+    assert.strictEqual(record.tags.Position, "5/1X3/2O2/5/5 B2 X 1,1");
+    assert.strictEqual(createGameRecord(new Match()).tags.Position, undefined);
+
+    const replayed = replayGameRecord(parseGameRecord(formatGameRecord(record)));
+    assert.deepStrictEqual(replayed.state.board, match.state.board);
+    assert.strictEqual(replayed.currentPlayer, "O");
+  });
+});
@@ -0,0 +1,152 @@
+const assert = require("node:assert");
+const path = require("node:path");
+const { spawn } = require("node:child_process");
+const { describe, it } = require("node:test");
+const { applyAction, createInitialState } = require("../dist/game");
+const { getEngineEvaluations } = require("../dist/minimax");
+const { parseRecordAction } = require("../dist/record");
+const { getRulePreset } = require("../dist/rules");
+const { getPositionKey } = require("../dist/zobrist");
+
+const CLI = path.join(__dirname, "..", "dist", "cli.js");
+
+// The engine in protocol mode, fed commands through its stdin
+const startEngine = (...flags) => {
+  const child = spawn(process.execPath, [CLI, "--protocol", ...flags], { stdio: ["pipe", "pipe", "inherit"] });
+  const lines = [];
+  const waiters = [];
+  let buffered = "";
+  child.stdout.setEncoding("utf8");
+  child.stdout.on("data", (chunk) => {
+    buffered += chunk;
+    const parts = buffered.split("\n");
+    buffered = parts.pop();
+    for (const line of parts) {
+      lines.push(line);
+      for (const waiter of [...waiters]) {
+        if (waiter.pattern.test(line)) {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          waiter.resolve(lines.slice(waiter.from));
+        }
+      }
+    }
+  });
+  const exited = new Promise((resolve) => child.on("exit", resolve));
+  return {
+    lines,
+    send: (...commands) => child.stdin.write(commands.map((command) => `${command}\n`).join("")),
+    /** Every line from now until one matches `pattern`, inclusive. */
+    expect: (pattern) =>
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`No line matched ${pattern}:\n${lines.join("\n")}`)), 20000);
+        waiters.push({ pattern, from: lines.length, resolve: (found) => { clearTimeout(timer); resolve(found); } });
+      }),
+    quit: async () => {
+      child.stdin.end("quit\n");
+      return exited;
+    }
+  };
+};
+
+const classic = getRulePreset("classic");
+
+describe("Engine protocol", () => {
+  it("identifies itself and its options", async () => {
+    const engine = startEngine();
+    const handshake = engine.expect(/^uciok$/);
+    engine.send("uci");
+    const lines = await handshake;
+    assert.ok(lines.includes("id name TicTacTwo"));
+    assert.ok(lines.some((line) => /^option name Eval type combo default default .*var positional/.test(line)));
+    assert.ok(lines.some((line) => /^option name RepetitionRule type combo/.test(line)));
+    assert.ok(lines.some((line) => /^option name MultiPV type spin/.test(line)));
+    const ready = engine.expect(/^readyok$/);
+    engine.send("isready");
+    await ready;
+    assert.strictEqual(await engine.quit(), 0);
+  });
+
+  it("plays the best move of the same search as getEngineEvaluations", async () => {
+    const engine = startEngine();
+    const done = engine.expect(/^bestmove /);
+    engine.send("position startpos moves C3", "go depth 3");
+    const lines = await done;
+    await engine.quit();
+
+    const infos = lines.filter((line) => line.startsWith("info depth"));
+    assert.deepStrictEqual(infos.map((line) => Number(line.split(" ")[2])), [1, 2, 3]);
+    assert.ok(infos.every((line) => / multipv 1 score cp -?\d+ nodes \d+ time \d+ .*pv \S+/.test(line)));
+
+    const state = applyAction(createInitialState(classic), parseRecordAction("C3", classic), "X");
+    const seen = new Set([getPositionKey(createInitialState(classic), "X"), getPositionKey(state, "O")]);
+    const { evaluations } = getEngineEvaluations(state, "O", seen, 3, 0);
+    const played = parseRecordAction(lines.at(-1).split(" ")[1], classic);
+    const best = evaluations.filter((evaluation) => evaluation.score === evaluations[0].score);
+    assert.ok(best.some(({ action }) => JSON.stringify(action) === JSON.stringify(played)), lines.at(-1));
+    assert.match(infos.at(-1), new RegExp(` score cp ${evaluations[0].score} `));
+  });
+
+  it("takes position strings and reports bad moves without losing the position", async () => {
+    const engine = startEngine();
+    const error = engine.expect(/^info string Illegal move "A1"/);
+    engine.send("position 2X2/1XO2/2O2/5/5 B2 X 2,2 moves D3 A1");
+    await error;
+    const done = engine.expect(/^bestmove /);
+    // The rejected command left the previous position, the start, in place
+    engine.send("go depth 1");
+    const [info] = await done;
+    assert.match(info, / pv (B2|B3|B4|C2|C3|C4|D2|D3|D4)$/);
+    await engine.quit();
+  });
+
+  it("keeps a position string's strict repetition for its moves and searches", async () => {
+    const engine = startEngine();
+    // Shifting back recreates the position, which strict repetition forbids
+    const error = engine.expect(/^info string Illegal move "@left"/);
+    engine.send("position 2X2/1XO2/2O2/5/5 B2 X 2,2 classic repetition-rule=strict moves @right @left");
+    await error;
+    const done = engine.expect(/^bestmove /);
+    engine.send("position 2X2/1XO2/2O2/5/5 B2 X 2,2 classic repetition-rule=strict moves @right", "go depth 2");
+    const lines = await done;
+    assert.notStrictEqual(lines.at(-1), "bestmove @left", lines.join("\n"));
+    assert.ok(lines.filter((line) => line.startsWith("info depth")).every((line) => !/ pv @left/.test(line)));
+    await engine.quit();
+  });
+
+  it("reports several lines per depth with MultiPV and rejects unknown options", async () => {
+    const engine = startEngine();
+    const unknown = engine.expect(/^info string Unknown option "Contempt"/);
+    engine.send("setoption name Contempt value 5");
+    await unknown;
+    const done = engine.expect(/^bestmove /);
+    engine.send("setoption name MultiPV value 2", "setoption name Eval value positional", "go depth 2");
+    const lines = await done;
+    assert.deepStrictEqual(
+      lines.filter((line) => line.startsWith("info depth 2")).map((line) => line.split(" ")[4]),
+      ["1", "2"]
+    );
+    await engine.quit();
+  });
+
+  it("holds the best move of an infinite search until stop", async () => {
+    const engine = startEngine();
+    const firstIteration = engine.expect(/^info depth 1 /);
+    engine.send("go infinite");
+    await firstIteration;
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    assert.ok(!engine.lines.some((line) => line.startsWith("bestmove")));
+    const done = engine.expect(/^bestmove \S+$/);
+    engine.send("stop");
+    await done;
+    assert.strictEqual(await engine.quit(), 0);
+  });
+
+  it("answers bestmove (none) once the game is over", async () => {
+    const engine = startEngine();
+    const done = engine.expect(/^bestmove /);
+    engine.send("position 5/1XX2/1OO2/5/5 B2 X 2,2 moves B4", "go depth 2");
+    const lines = await done;
+    assert.strictEqual(lines.at(-1), "bestmove (none)", lines.join("\n"));
+    await engine.quit();
+  });
+});
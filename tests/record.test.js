@@ -0,0 +1,142 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, getAvailableActions } = require("../dist/game");
+const { CLASSIC_RULES, GRAND_RULES, createRuleSet } = require("../dist/rules");
+const { Match } = require("../dist/match");
+const {
+  formatSquare,
+  parseSquare,
+  formatRecordAction,
+  parseRecordAction,
+  createGameRecord,
+  formatGameRecord,
+  parseGameRecord,
+  replayGameRecord,
+  getRecordRules
+} = require("../dist/record");
+
+const place = (index) => ({ type: "place", index });
+const shift = (dx, dy) => ({ type: "shift", dx, dy });
+
+// X completes B3–B5 after a shift and a peg move.
+const playSampleMatch = () => {
+  const match = new Match();
+  for (const action of [place(6), place(12), place(7), place(16), shift(1, 0), place(18), { type: "move", from: 6, to: 8 }, place(13), place(9)]) {
+    match.play(action);
+  }
+  return match;
+};
+
+describe("Game records", () => {
+  it("names squares like the TUI and parses them back", () => {
+    assert.strictEqual(formatSquare(0, CLASSIC_RULES), "A1");
+    assert.strictEqual(formatSquare(24, CLASSIC_RULES), "E5");
+    assert.strictEqual(formatSquare(35, GRAND_RULES), "F6");
+    for (let index = 0; index < 25; index += 1) {
+      assert.strictEqual(parseSquare(formatSquare(index, CLASSIC_RULES), CLASSIC_RULES), index);
+    }
+    assert.strictEqual(parseSquare("c3", CLASSIC_RULES), 12);
+    assert.throws(() => parseSquare("F1", CLASSIC_RULES), /Invalid square "F1"/);
+  });
+
+  it("round-trips every kind of action", () => {
+    const state = createInitialState();
+    const actions = [
+      ...getAvailableActions(state, "X"),
+      { type: "move", from: 6, to: 18 },
+      ...[-1, 0, 1].flatMap((dx) => [-1, 0, 1].filter((dy) => dx || dy).map((dy) => shift(dx, dy)))
+    ];
+    for (const action of actions) {
+      assert.deepStrictEqual(parseRecordAction(formatRecordAction(action, CLASSIC_RULES), CLASSIC_RULES), action);
+    }
+    assert.strictEqual(formatRecordAction({ type: "move", from: 6, to: 18 }, CLASSIC_RULES), "B2-D4");
+    assert.strictEqual(formatRecordAction(shift(-1, -1), CLASSIC_RULES), "@up-left");
+  });
+
+  it("writes tags, numbered moves, comments and scores", () => {
+    const match = playSampleMatch();
+    const record = createGameRecord(match, { Event: "Test", X: "Human", O: "Engine" }, { 1: { score: -20 }, 4: { comment: "shift right" } });
+    const text = formatGameRecord(record);
+    assert.match(text, /^\[Event "Test"\]\n\[X "Human"\]\n\[O "Engine"\]\n\[Rules "classic"\]\n\[Result "1-0"\]\n\[Termination "line"\]\n\n/);
+    assert.match(text, /1\. B2 C3 \{\[%eval -20\]\} 2\. B3 D2 3\. @right \{shift right\} D4 4\. B2-B4 C4 5\. B5 1-0\n$/);
+  });
+
+  it("parses what it writes", () => {
+    const match = playSampleMatch();
+    const record = createGameRecord(match, { Event: 'Quote " and \\ backslash' }, { 0: { score: 15, comment: "centre" }, 8: { comment: "wins" } });
+    const parsed = parseGameRecord(formatGameRecord(record));
+    assert.deepStrictEqual(parsed, record);
+    const replayed = replayGameRecord(parsed);
+    assert.deepStrictEqual(replayed.state, match.state);
+    assert.strictEqual(replayed.outcome().winner, "X");
+  });
+
+  it("keeps draws by agreement through a round trip", () => {
+    const match = new Match();
+    for (const action of [place(6), place(12), place(7)]) match.play(action);
+    match.agreeDraw();
+    const record = parseGameRecord(formatGameRecord(createGameRecord(match)));
+    assert.strictEqual(record.tags.Termination, "agreement");
+    assert.strictEqual(record.result, "1/2-1/2");
+    const replayed = replayGameRecord(record);
+    assert.strictEqual(replayed.outcome().draw.reason, "agreement");
+    assert.deepStrictEqual(createGameRecord(replayed), record);
+  });
+
+  it("keeps non-default draw settings through a round trip", () => {
+    // The window goes back and forth, repeating positions the default limit would draw on
+    const match = new Match({ drawOptions: { repetitionLimit: 0, noProgressPlies: 80 } });
+    for (const action of [place(6), place(12), place(7), place(16)]) match.play(action);
+    for (let i = 0; i < 5; i += 1) match.play(shift(i % 2 ? -1 : 1, 0));
+    for (const action of [place(18), { type: "move", from: 6, to: 8 }, place(13), place(9)]) match.play(action);
+    assert.strictEqual(match.outcome().winner, "X");
+    const record = parseGameRecord(formatGameRecord(createGameRecord(match)));
+    assert.strictEqual(record.tags.RepetitionLimit, "0");
+    assert.strictEqual(record.tags.NoProgressPlies, "80");
+    const replayed = replayGameRecord(record);
+    assert.deepStrictEqual(replayed.drawOptions, { repetitionLimit: 0, noProgressPlies: 80 });
+    assert.strictEqual(replayed.outcome().winner, "X");
+
+    const strict = new Match({ strictRepetition: true });
+    strict.play(place(6));
+    const strictRecord = createGameRecord(strict);
+    assert.strictEqual(strictRecord.tags.RepetitionRule, "strict");
+    assert.strictEqual(replayGameRecord(strictRecord).strictRepetition, true);
+    assert.strictEqual(createGameRecord(new Match()).tags.RepetitionLimit, undefined);
+  });
+
+  it("wraps long move text", () => {
+    const match = new Match({ drawOptions: { repetitionLimit: 0 } });
+    for (const action of [place(6), place(12), place(7), place(16)]) match.play(action);
+    for (let i = 0; i < 20; i += 1) match.play(shift(i % 2 ? -1 : 1, 0));
+    const text = formatGameRecord(createGameRecord(match, {}, { 3: { comment: "a long comment to push the line over the limit" } }));
+    for (const line of text.split("\n")) {
+      assert.ok(line.length <= 80, `Line too long: ${line}`);
+    }
+    assert.strictEqual(parseGameRecord(text).moves.length, 24);
+  });
+
+  it("numbers records that open with O", () => {
+    const text = "[Result \"*\"]\n\n1... C3 2. B2 *\n";
+    const record = parseGameRecord(text);
+    assert.deepStrictEqual(record.moves.map((move) => move.player), ["O", "X"]);
+    assert.strictEqual(formatGameRecord(record), text);
+  });
+
+  it("reads rule overrides from tags", () => {
+    const rules = createRuleSet({ ...CLASSIC_RULES, simultaneousLinePolicy: "mover-wins" });
+    const record = createGameRecord(new Match({ rules }));
+    assert.strictEqual(record.tags.SimultaneousLines, "mover-wins");
+    assert.strictEqual(getRecordRules(record.tags).simultaneousLinePolicy, "mover-wins");
+    assert.strictEqual(getRecordRules({ Rules: "grand" }), GRAND_RULES);
+  });
+
+  it("rejects malformed records", () => {
+    assert.throws(() => parseGameRecord("1. B2 C3"), /must end with a result/);
+    assert.throws(() => parseGameRecord("[Result \"1-0\"]\n\n1. B2 *"), /does not match/);
+    assert.throws(() => parseGameRecord("[Rules \"huge\"]\n\n*"), /Unknown rule preset "huge"/);
+    assert.throws(() => parseGameRecord("1. @sideways *"), /Unknown shift direction/);
+    assert.throws(() => parseGameRecord("{early} 1. B2 *"), /must follow a move/);
+    assert.throws(() => replayGameRecord(parseGameRecord("1. A1 *")), /inside the active grid/);
+  });
+});
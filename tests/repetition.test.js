@@ -1,14 +1,15 @@
 const assert = require("node:assert");
 const { describe, it } = require("node:test");
-const { createInitialState, applyAction, getStateKey, FIRST_PLAYER, SECOND_PLAYER } = require("../dist/game");
+const { createInitialState, applyAction, FIRST_PLAYER, SECOND_PLAYER } = require("../dist/game");
 const { getEngineEvaluations } = require("../dist/minimax");
+const { getPositionKey } = require("../dist/zobrist");
 
 describe("Repetition handling modes", () => {
   it("strict mode filters actions that recreate a state from history", () => {
     const state = createInitialState();
     const blockedAction = { type: "place", index: 6 };
     const blockedNextState = applyAction(state, blockedAction, FIRST_PLAYER);
-    const blockedKey = getStateKey(blockedNextState, SECOND_PLAYER);
+    const blockedKey = getPositionKey(blockedNextState, SECOND_PLAYER);
     const history = new Set([blockedKey]);
 
     const { evaluations } = getEngineEvaluations(state, FIRST_PLAYER, history, 2, 100, undefined, "strict");
@@ -22,7 +23,7 @@ describe("Repetition handling modes", () => {
     const state = createInitialState();
     const repeatCandidate = { type: "place", index: 6 };
     const nextState = applyAction(state, repeatCandidate, FIRST_PLAYER);
-    const repeatedKey = getStateKey(nextState, SECOND_PLAYER);
+    const repeatedKey = getPositionKey(nextState, SECOND_PLAYER);
     const history = new Set([repeatedKey]);
 
     const { evaluations } = getEngineEvaluations(state, FIRST_PLAYER, history, 1, 100);
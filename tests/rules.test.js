@@ -0,0 +1,101 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const {
+  createInitialState,
+  getActiveIndices,
+  getAvailableActions,
+  applyAction,
+  getWinner,
+  getShiftActions,
+  getRelativeWinningLines
+} = require("../dist/game");
+const {
+  CLASSIC_RULES,
+  GRAND_RULES,
+  GRAND_THREE_RULES,
+  DEFAULT_RULES,
+  createRuleSet,
+  getRulePreset,
+  listRulePresets,
+  registerRulePreset
+} = require("../dist/rules");
+const { chooseBestAction } = require("../dist/minimax");
+const { POSITIONAL_EVALUATION_PLUGIN } = require("../dist/evaluation");
+const { renderBoard, renderStatusBar } = require("../dist/tui");
+
+describe("Rule sets", () => {
+  it("defaults to the classic 5×5 rules", () => {
+    assert.strictEqual(DEFAULT_RULES, CLASSIC_RULES);
+    const state = createInitialState();
+    assert.strictEqual(state.board.length, 25);
+    assert.strictEqual(state.activeX, 1);
+    assert.strictEqual(getRelativeWinningLines(CLASSIC_RULES).length, 8);
+  });
+
+  it("sizes the board and window from the rule set", () => {
+    const state = createInitialState(GRAND_RULES);
+    assert.strictEqual(state.board.length, 36);
+    const activeIndices = getActiveIndices(state);
+    assert.strictEqual(activeIndices.length, 16);
+    assert.strictEqual(activeIndices[0], 7, "Window should start at B2 on a 6×6 board");
+    assert.strictEqual(getAvailableActions(state, "X").length, 16);
+  });
+
+  it("generates every line of the configured length inside the window", () => {
+    // 4×4 window: 4 rows + 4 columns + 2 diagonals of length four
+    assert.strictEqual(getRelativeWinningLines(GRAND_RULES).length, 10);
+    // 4×4 window, three in a row: 8 + 8 horizontal/vertical, 4 + 4 diagonals
+    assert.strictEqual(getRelativeWinningLines(GRAND_THREE_RULES).length, 24);
+  });
+
+  it("needs the configured win length to declare a winner", () => {
+    let state = createInitialState(GRAND_RULES);
+    const activeIndices = getActiveIndices(state);
+    for (let i = 0; i < 3; i += 1) {
+      state = applyAction(state, { type: "place", index: activeIndices[i] }, "X");
+    }
+    assert.strictEqual(getWinner(state), null, "Three in a row is not enough under grand rules");
+    state = applyAction(state, { type: "place", index: activeIndices[3] }, "X");
+    assert.strictEqual(getWinner(state), "X");
+  });
+
+  it("enforces piece limits and movement minimums from the rule set", () => {
+    let state = createInitialState(GRAND_RULES);
+    const activeIndices = getActiveIndices(state);
+    state = applyAction(state, { type: "place", index: activeIndices[0] }, "X");
+    state = applyAction(state, { type: "place", index: activeIndices[5] }, "X");
+    assert.strictEqual(getAvailableActions(state, "X").some((a) => a.type === "shift"), false);
+    assert.throws(() => applyAction(state, { type: "shift", dx: 1, dy: 0 }, "X"), { message: /at least three pieces/ });
+    state = applyAction(state, { type: "place", index: activeIndices[10] }, "X");
+    assert.ok(getShiftActions(state).length > 0);
+    assert.strictEqual(state.rules, GRAND_RULES, "Rule set should be carried through applyAction");
+  });
+
+  it("lets the engine and evaluators run on larger boards", () => {
+    let state = createInitialState(GRAND_THREE_RULES);
+    const activeIndices = getActiveIndices(state);
+    state = applyAction(state, { type: "place", index: activeIndices[0] }, "X");
+    state = applyAction(state, { type: "place", index: activeIndices[1] }, "X");
+    const action = chooseBestAction(state, "X", new Set(), 2);
+    assert.deepStrictEqual(action, { type: "place", index: activeIndices[2] });
+    assert.ok(POSITIONAL_EVALUATION_PLUGIN.evaluate(state, null, "X", 0) > 0);
+  });
+
+  it("renders labels for the configured board size", () => {
+    const state = createInitialState(GRAND_RULES);
+    const rendered = renderBoard(state);
+    assert.strictEqual(rendered.split("\n").length, 7);
+    assert.ok(rendered.includes("F "));
+    assert.ok(renderStatusBar(state, "X", "X").includes("X: 0/6"));
+  });
+
+  it("validates custom rule sets and exposes presets by name", () => {
+    assert.throws(() => createRuleSet({ ...CLASSIC_RULES, name: "bad", winLength: 4 }), /win length/);
+    assert.throws(() => createRuleSet({ ...CLASSIC_RULES, name: "bad", initialActiveCoord: 3 }), /initial active window/);
+    registerRulePreset({ ...CLASSIC_RULES, name: "custom-test", piecesPerPlayer: 3 });
+    assert.strictEqual(getRulePreset("custom-test").piecesPerPlayer, 3);
+    assert.strictEqual(getRulePreset("missing"), DEFAULT_RULES);
+    const names = listRulePresets().map((preset) => preset.name);
+    assert.ok(names.includes("classic") && names.includes("grand") && names.includes("custom-test"));
+  });
+});
@@ -0,0 +1,152 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { checkAction, getAvailableActions, getNoLegalActionOutcome, RuleViolation } = require("../dist/game");
+const { CLASSIC_RULES, createRuleSet } = require("../dist/rules");
+const { Match } = require("../dist/match");
+const { chooseBestAction, getEngineEvaluations } = require("../dist/minimax");
+const { createGameRecord, getRecordRules, parseRecordAction, formatRecordAction } = require("../dist/record");
+const { validateState } = require("../dist/validate");
+
+const place = (index) => ({ type: "place", index });
+const PASS = { type: "pass" };
+const codes = (check) => (check.ok ? [] : check.violations.map((violation) => violation.code));
+
+// A 3×3 window on a 4×4 board that fills up before anyone may move pegs or shift.
+const crampedRules = (noLegalActionPolicy) =>
+  createRuleSet({
+    name: "cramped",
+    boardSize: 4,
+    activeSize: 3,
+    winLength: 3,
+    piecesPerPlayer: 5,
+    placementsBeforeMovement: 5,
+    initialActiveCoord: 0,
+    noLegalActionPolicy
+  });
+
+// Fills the window without a line; O is then to move with four placements and nowhere to place.
+const stuckMatch = (policy) => {
+  const match = new Match({ rules: crampedRules(policy) });
+  for (const index of [0, 1, 2, 5, 4, 6, 9, 8, 10]) {
+    match.play(place(index));
+  }
+  return match;
+};
+
+describe("No legal action", () => {
+  it("defaults to a draw and validates the policy", () => {
+    assert.strictEqual(createRuleSet({ ...crampedRules(), name: "plain" }).noLegalActionPolicy, "draw");
+    assert.throws(() => crampedRules("forfeit"), /Unknown no-legal-action policy/);
+  });
+
+  it("ends the match as a loss or a draw", () => {
+    const lost = stuckMatch("loss").outcome();
+    assert.strictEqual(lost.winner, "X");
+    assert.strictEqual(lost.gameOutcome.reason, "no-legal-action");
+    assert.strictEqual(lost.draw, null);
+
+    const drawn = stuckMatch("draw");
+    assert.strictEqual(drawn.outcome().winner, null);
+    assert.strictEqual(drawn.outcome().draw.reason, "no-legal-action");
+    assert.deepStrictEqual(drawn.legalActions(), []);
+    assert.strictEqual(getNoLegalActionOutcome(drawn.state, "O").reason, "no-legal-action");
+  });
+
+  it("forces a pass under the pass policy", () => {
+    const match = stuckMatch("pass");
+    assert.strictEqual(match.outcome(), null);
+    assert.deepStrictEqual(match.legalActions(), [PASS]);
+    assert.strictEqual(getNoLegalActionOutcome(match.state, "O"), null);
+    match.play(PASS);
+    assert.strictEqual(match.currentPlayer, "X");
+    assert.deepStrictEqual(match.state.board, match.history[match.ply - 1].stateBefore.board);
+    assert.deepStrictEqual(codes(match.check(PASS)), ["pass-not-allowed"]);
+    assert.ok(match.undo());
+    assert.strictEqual(match.currentPlayer, "O");
+  });
+
+  it("rejects passes the rules do not allow", () => {
+    const match = new Match({ rules: crampedRules("pass") });
+    assert.deepStrictEqual(codes(match.check(PASS)), ["pass-not-allowed"]);
+    assert.deepStrictEqual(codes(checkAction(match.state, PASS, "X")), ["pass-not-allowed"]);
+    assert.throws(() => stuckMatch("loss").play(PASS), (error) => error instanceof RuleViolation && error.code === "game-over");
+    assert.deepStrictEqual(codes(checkAction(stuckMatch("draw").state, PASS, "O")), ["pass-not-allowed"]);
+  });
+
+  it("searches through passes and stuck positions on both cores", () => {
+    for (const core of ["array", "bitboard"]) {
+      const passing = stuckMatch("pass");
+      const { evaluations } = getEngineEvaluations(passing.state, "O", passing.seenPositions, 4, 3, undefined, "search", core);
+      assert.deepStrictEqual(evaluations.map((evaluation) => evaluation.action), [PASS], core);
+      assert.deepStrictEqual(evaluations[0].pv[0], PASS);
+
+      const losing = stuckMatch("loss");
+      assert.deepStrictEqual(getEngineEvaluations(losing.state, "O", losing.seenPositions, 4, 3, undefined, "search", core).evaluations, []);
+      assert.throws(() => chooseBestAction(losing.state, "O", losing.seenPositions, 4, undefined, "search", core), /no legal action/);
+    }
+    // X sees that filling the window wins under the loss policy
+    const match = new Match({ rules: crampedRules("loss") });
+    for (const index of [0, 1, 2, 5, 4, 6, 9, 8]) {
+      match.play(place(index));
+    }
+    const scores = ["array", "bitboard"].map(
+      (core) => getEngineEvaluations(match.state, "X", match.seenPositions, 3, 1, undefined, "search", core).evaluations[0].score
+    );
+    assert.strictEqual(scores[0], scores[1]);
+    assert.ok(scores[0] > 0);
+  });
+
+  it("treats every repeating action as missing under strict repetition", () => {
+    const match = new Match({ strictRepetition: true });
+    for (const action of [place(6), place(12), place(7), place(16), { type: "shift", dx: 1, dy: 0 }]) {
+      match.play(action);
+    }
+    // Shifting back recreates the position before X's shift
+    const back = { type: "shift", dx: -1, dy: 0 };
+    assert.deepStrictEqual(codes(match.check(back)), ["repetition"]);
+    assert.ok(!match.legalActions().some((action) => JSON.stringify(action) === JSON.stringify(back)));
+    assert.strictEqual(Match.fromJSON(match.toJSON()).strictRepetition, true);
+  });
+
+  it("plays a pass forced by strict repetition while actions are still available", () => {
+    const rules = createRuleSet({ ...crampedRules("pass"), name: "circling", placementsBeforeMovement: 4 });
+    const _ = " ";
+    // Every window over this board has no line; the bottom-right one is full
+    const board = ["O", _, _, _, _, "X", "O", "X", _, "X", "O", "O", _, "O", "X", "X"];
+    const initialState = { board, activeX: 0, activeY: 0, placementsByPlayer: { X: 5, O: 5 }, rules };
+    const match = new Match({ rules, initialState, strictRepetition: true });
+    // The window visits every corner so that each of O's shifts from the last one returns to a position seen with X to move
+    for (const [dx, dy] of [[1, 0], [-1, 1], [0, -1], [1, 0], [0, 1]]) {
+      match.play({ type: "shift", dx, dy });
+    }
+    assert.strictEqual(match.currentPlayer, "O");
+    assert.strictEqual(getAvailableActions(match.state, "O").length, 3);
+    assert.deepStrictEqual(match.legalActions(), [PASS]);
+    // The CLI's move menu previews each legal action this way
+    assert.deepStrictEqual(match.legalActions().map((action) => match.stateAfter(action).board), [board]);
+    for (const core of ["array", "bitboard"]) {
+      const { evaluations } = getEngineEvaluations(match.state, "O", match.seenPositions, 3, 3, undefined, "strict", core);
+      assert.deepStrictEqual(evaluations.map((evaluation) => evaluation.action), [PASS], core);
+    }
+    match.play(PASS);
+    assert.strictEqual(match.currentPlayer, "X");
+    assert.deepStrictEqual(match.state.board, board);
+  });
+
+  it("records passes and the policy", () => {
+    assert.deepStrictEqual(parseRecordAction("pass", CLASSIC_RULES), PASS);
+    assert.strictEqual(formatRecordAction(PASS, CLASSIC_RULES), "pass");
+    const rules = createRuleSet({ ...CLASSIC_RULES, noLegalActionPolicy: "pass" });
+    const record = createGameRecord(new Match({ rules }));
+    assert.strictEqual(record.tags.NoLegalAction, "pass");
+    assert.strictEqual(getRecordRules(record.tags).noLegalActionPolicy, "pass");
+    assert.strictEqual(createGameRecord(new Match()).tags.NoLegalAction, undefined);
+    assert.throws(() => getRecordRules({ NoLegalAction: "forfeit" }), /Unknown no-legal-action policy/);
+  });
+
+  it("accepts positions reached by passing", () => {
+    const match = stuckMatch("pass");
+    match.play(PASS);
+    assert.deepStrictEqual(validateState(match.state, match.currentPlayer), []);
+  });
+});
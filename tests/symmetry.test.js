@@ -0,0 +1,102 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const {
+  createInitialState,
+  applyAction,
+  getAvailableActions,
+  getGameOutcome,
+  getOpponent
+} = require("../dist/game");
+const { CLASSIC_RULES, GRAND_RULES } = require("../dist/rules");
+const { getEngineEvaluations } = require("../dist/minimax");
+const {
+  SYMMETRY_TRANSFORMS,
+  inverseTransform,
+  transformState,
+  transformAction,
+  canonicalizeState,
+  getCanonicalStateKey,
+  getCanonicalPositionKey,
+  fromCanonicalAction
+} = require("../dist/symmetry");
+
+const createRng = (seed) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+// A few plies of random play, so the window has moved and pieces sit off-centre.
+const randomPosition = (rules, seed, plies) => {
+  const random = createRng(seed);
+  let state = createInitialState(rules);
+  let player = "X";
+  for (let ply = 0; ply < plies; ply += 1) {
+    const actions = getAvailableActions(state, player);
+    const next = applyAction(state, actions[Math.floor(random() * actions.length)], player);
+    if (getGameOutcome(next, player)) break;
+    state = next;
+    player = getOpponent(player);
+  }
+  return { state, player };
+};
+
+const actionKey = (action) => JSON.stringify(action);
+
+describe("Board symmetry", () => {
+  it("maps legal actions onto legal actions of the transformed position", () => {
+    for (const rules of [CLASSIC_RULES, GRAND_RULES]) {
+      const { state, player } = randomPosition(rules, 5, 12);
+      for (const transform of SYMMETRY_TRANSFORMS) {
+        const image = transformState(state, transform);
+        const mapped = getAvailableActions(state, player).map((action) => actionKey(transformAction(action, transform, rules)));
+        const expected = getAvailableActions(image, player).map(actionKey);
+        assert.deepStrictEqual(mapped.sort(), expected.sort(), `${transform} should preserve legal actions`);
+        assert.deepStrictEqual(transformState(image, inverseTransform(transform)), state);
+      }
+    }
+  });
+
+  it("preserves game outcomes", () => {
+    let state = createInitialState();
+    for (const index of [6, 7, 8]) {
+      state = applyAction(state, { type: "place", index }, "X");
+    }
+    for (const transform of SYMMETRY_TRANSFORMS) {
+      assert.strictEqual(getGameOutcome(transformState(state, transform), "X").winner, "X");
+    }
+  });
+
+  it("gives every image of a position the same canonical keys", () => {
+    for (let seed = 1; seed <= 5; seed += 1) {
+      const { state, player } = randomPosition(CLASSIC_RULES, seed, 10);
+      const key = getCanonicalStateKey(state, player);
+      const positionKey = getCanonicalPositionKey(state, player).key;
+      for (const transform of SYMMETRY_TRANSFORMS) {
+        const image = transformState(state, transform);
+        assert.strictEqual(getCanonicalStateKey(image, player), key);
+        assert.strictEqual(getCanonicalPositionKey(image, player).key, positionKey);
+      }
+    }
+  });
+
+  it("maps actions back from the canonical position", () => {
+    const { state, player } = randomPosition(CLASSIC_RULES, 9, 9);
+    const canonical = canonicalizeState(state, player);
+    const legal = new Set(getAvailableActions(state, player).map(actionKey));
+    for (const action of getAvailableActions(canonical.state, player)) {
+      assert.ok(legal.has(actionKey(fromCanonicalAction(action, canonical.transform, CLASSIC_RULES))));
+    }
+  });
+
+  it("searches fewer nodes with a symmetric transposition table", () => {
+    let state = createInitialState();
+    state = applyAction(state, { type: "place", index: 6 }, "X");
+    for (const core of ["array", "bitboard"]) {
+      const plain = getEngineEvaluations(state, "O", new Set(), 4, 0, undefined, undefined, core, false);
+      const symmetric = getEngineEvaluations(state, "O", new Set(), 4, 0, undefined, undefined, core, true);
+      const summarize = ({ evaluations }) => evaluations.map((entry) => `${actionKey(entry.action)}=${entry.score}`).sort();
+      assert.deepStrictEqual(summarize(symmetric), summarize(plain));
+      assert.ok(symmetric.stats.nodesVisited < plain.stats.nodesVisited);
+    }
+  });
+});
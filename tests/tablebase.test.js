@@ -0,0 +1,154 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction, getAvailableActions, getGameOutcome, getOpponent, getStateKey, PASS_ACTION } = require("../dist/game");
+const { createRuleSet } = require("../dist/rules");
+const { getEngineEvaluations } = require("../dist/minimax");
+const { RANDOM_ENGINE, createTablebaseEngine } = require("../dist/engine");
+const { createEngineThread } = require("../dist/engine-thread");
+const {
+  decodeTablebase,
+  describeTablebaseValue,
+  encodeTablebase,
+  getTablebaseLine,
+  getTablebaseMoves,
+  probeTablebase,
+  solveTablebase,
+  summarizeTablebase
+} = require("../dist/tablebase");
+
+// 3×3 board with a 2×2 window: any two pieces in the window form a line
+const tiny = createRuleSet({
+  name: "tiny",
+  boardSize: 3,
+  activeSize: 2,
+  winLength: 2,
+  piecesPerPlayer: 2,
+  placementsBeforeMovement: 1,
+  initialActiveCoord: 0,
+  noLegalActionPolicy: "pass"
+});
+const tablebase = solveTablebase(tiny);
+
+/** Every reachable position with the side to move, through the game layer. */
+const reachable = () => {
+  const seen = new Map();
+  const queue = [[createInitialState(tiny), "X"]];
+  while (queue.length) {
+    const [state, player] = queue.pop();
+    const key = getStateKey(state, player);
+    if (seen.has(key)) continue;
+    seen.set(key, [state, player]);
+    if (getGameOutcome(state, getOpponent(player))) continue;
+    const actions = getAvailableActions(state, player);
+    for (const action of actions.length ? actions : [PASS_ACTION]) {
+      queue.push([applyAction(state, action, player), getOpponent(player)]);
+    }
+  }
+  return [...seen.values()];
+};
+
+describe("Tablebase", () => {
+  it("solves every reachable position", () => {
+    const summary = summarizeTablebase(tablebase);
+    assert.strictEqual(summary.positions, reachable().length);
+    assert.strictEqual(summary.wins + summary.losses + summary.draws, summary.positions);
+    assert.deepStrictEqual(summary.initial, { winner: "X", plies: 3 });
+  });
+
+  it("agrees with the values of each position's successors", () => {
+    for (const [state, player] of reachable()) {
+      const value = probeTablebase(tablebase, state, player);
+      const outcome = getGameOutcome(state, getOpponent(player));
+      const label = getStateKey(state, player);
+      if (outcome) {
+        assert.deepStrictEqual(value, { winner: outcome.winner, plies: 0 }, label);
+        continue;
+      }
+      const actions = getAvailableActions(state, player);
+      const children = (actions.length ? actions : [PASS_ACTION])
+        .map((action) => probeTablebase(tablebase, applyAction(state, action, player), getOpponent(player)));
+      const wins = children.filter((child) => child.winner === player).map((child) => child.plies + 1);
+      const losses = children.filter((child) => child.winner === getOpponent(player)).map((child) => child.plies + 1);
+      if (wins.length) {
+        assert.deepStrictEqual(value, { winner: player, plies: Math.min(...wins) }, label);
+      } else if (losses.length === children.length) {
+        assert.deepStrictEqual(value, { winner: getOpponent(player), plies: Math.max(...losses) }, label);
+      } else {
+        assert.deepStrictEqual(value, { winner: null, plies: 0 }, label);
+      }
+    }
+  });
+
+  it("ranks moves and plays out the perfect line", () => {
+    const start = createInitialState(tiny);
+    const moves = getTablebaseMoves(tablebase, start, "X");
+    assert.strictEqual(moves.length, 4);
+    assert.ok(moves.every((move) => move.winner === "X" && move.plies === 3));
+    const line = getTablebaseLine(tablebase, start, "X");
+    assert.strictEqual(line.length, 3);
+    const end = line.reduce((state, action, ply) => applyAction(state, action, ply % 2 ? "O" : "X"), start);
+    assert.strictEqual(getGameOutcome(end, "X").winner, "X");
+    assert.strictEqual(describeTablebaseValue(moves[0]), "a win for X in 3 plies");
+    assert.strictEqual(describeTablebaseValue({ winner: null, plies: 0 }), "a draw");
+  });
+
+  it("agrees with the search on the distance to a win", () => {
+    const [best] = getEngineEvaluations(createInitialState(tiny), "X", new Set(), 4, 1).evaluations;
+    assert.deepStrictEqual(best.forcedWin, probeTablebase(tablebase, createInitialState(tiny), "X"));
+  });
+
+  it("only answers for its own rules", () => {
+    assert.strictEqual(probeTablebase(tablebase, createInitialState(), "X"), null);
+    assert.deepStrictEqual(getTablebaseMoves(tablebase, createInitialState(), "X"), []);
+  });
+
+  it("round-trips through the file format", () => {
+    const bytes = encodeTablebase(tablebase);
+    assert.strictEqual(bytes.length % 2, 0);
+    const copy = decodeTablebase(bytes);
+    assert.deepStrictEqual(copy.keys, tablebase.keys);
+    assert.deepStrictEqual(copy.entries, tablebase.entries);
+    assert.deepStrictEqual(probeTablebase(copy, createInitialState(tiny), "X"), { winner: "X", plies: 3 });
+    assert.throws(() => decodeTablebase(new Uint8Array(16)), /Not a tablebase file/);
+    assert.throws(() => decodeTablebase(bytes.subarray(0, bytes.length - 2)), /truncated/);
+  });
+
+  it("refuses rule sets it cannot hold", () => {
+    assert.throws(() => solveTablebase(tiny, { maxPositions: 100 }), /more than 100 reachable positions/);
+    const grand = createRuleSet({ name: "big", boardSize: 6, activeSize: 4, winLength: 4, piecesPerPlayer: 6, placementsBeforeMovement: 3, initialActiveCoord: 1 });
+    assert.throws(() => solveTablebase(grand), /too large for a tablebase/);
+  });
+
+  it("plays as an engine that falls back to another where it has no entry", () => {
+    const engine = createTablebaseEngine(tablebase, RANDOM_ENGINE);
+    assert.strictEqual(engine.name, "tablebase");
+    assert.strictEqual(engine.supportsRules(tiny), true);
+    assert.strictEqual(engine.supportsRules(createInitialState().rules), false);
+    const start = createInitialState(tiny);
+    const known = engine.analyse(start, "X", { history: new Set(), count: 0 });
+    assert.deepStrictEqual(known.tablebase, { winner: "X", plies: 3 });
+    assert.strictEqual(known.evaluations.length, 4);
+    assert.strictEqual(known.stats.nodesVisited, 0);
+    assert.strictEqual(engine.think(start, "X", { history: new Set() }).forcedWin.plies, 3);
+    // X to move again after its own placement is not a position the game reaches
+    const unreachable = applyAction(start, getAvailableActions(start, "X")[0], "X");
+    assert.strictEqual(probeTablebase(tablebase, unreachable, "X"), null);
+    const searched = engine.analyse(unreachable, "X", { history: new Set(), seed: 1 });
+    assert.strictEqual(searched.tablebase, undefined);
+    assert.ok(searched.evaluations.length > 0);
+    // Strict repetition leaves every move to the fallback
+    const strict = engine.analyse(start, "X", { history: new Set(), repetitionRule: "strict", seed: 1 });
+    assert.strictEqual(strict.tablebase, undefined);
+    assert.ok(strict.evaluations.every((e) => e.score === 0 && !e.forcedWin));
+  });
+
+  it("is available on an engine thread given the tablebase", async () => {
+    const thread = createEngineThread({ tablebase });
+    try {
+      const analysis = await thread.analyse(createInitialState(tiny), "X", { engine: "tablebase", history: new Set() });
+      assert.deepStrictEqual(analysis.tablebase, { winner: "X", plies: 3 });
+    } finally {
+      await thread.close();
+    }
+  });
+});
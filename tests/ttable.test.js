@@ -0,0 +1,123 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction } = require("../dist/game");
+const { getEngineEvaluations, searchIterative } = require("../dist/minimax");
+const {
+  NO_MOVE,
+  createTranspositionTable,
+  decodeTableAction,
+  encodeTableAction,
+  getTableStats,
+  probeTable,
+  startTableSearch,
+  storeEntry
+} = require("../dist/ttable");
+
+// Two buckets of two slots each (24 bytes per slot).
+const tinyTable = () => createTranspositionTable((4 * 24) / (1024 * 1024));
+const entry = (depth, score = depth) => ({ score, depth, flag: 0, move: NO_MOVE });
+const place = (index) => ({ type: "place", index });
+
+const opening = () => {
+  let state = createInitialState();
+  for (const [index, player] of [[6, "X"], [12, "O"], [7, "X"], [16, "O"]]) {
+    state = applyAction(state, place(index), player);
+  }
+  return state;
+};
+
+describe("Transposition table", () => {
+  it("sizes itself from the memory budget", () => {
+    assert.strictEqual(tinyTable().size, 4);
+    assert.strictEqual(createTranspositionTable(1).size, 2 * Math.floor((1024 * 1024) / 48));
+    assert.throws(() => createTranspositionTable(0), /positive size/);
+  });
+
+  it("keeps the deepest entry and always stores the newest", () => {
+    const table = tinyTable();
+    // Keys 0, 2 and 4 share the first bucket
+    storeEntry(table, 0, entry(5));
+    storeEntry(table, 2, entry(3));
+    assert.strictEqual(probeTable(table, 0).depth, 5);
+    assert.strictEqual(probeTable(table, 2).depth, 3);
+    storeEntry(table, 4, entry(1));
+    assert.strictEqual(probeTable(table, 0).depth, 5);
+    assert.strictEqual(probeTable(table, 2), undefined);
+    // A deeper entry takes the preferred slot and pushes the old one to the other
+    storeEntry(table, 2, entry(7));
+    assert.strictEqual(probeTable(table, 2).depth, 7);
+    assert.strictEqual(probeTable(table, 0).depth, 5);
+    assert.strictEqual(probeTable(table, 4), undefined);
+  });
+
+  it("keeps a deep result when the same position comes back shallower", () => {
+    const table = tinyTable();
+    storeEntry(table, 0, entry(5));
+    storeEntry(table, 0, { ...entry(2), flag: 1 });
+    assert.strictEqual(probeTable(table, 0).depth, 5);
+    // An exact score replaces it whatever its depth
+    storeEntry(table, 0, entry(2));
+    assert.strictEqual(probeTable(table, 0).depth, 2);
+    storeEntry(table, 0, { ...entry(6), flag: 2 });
+    assert.strictEqual(probeTable(table, 0).depth, 6);
+  });
+
+  it("ages entries from earlier searches and clears for a new owner", () => {
+    const table = tinyTable();
+    startTableSearch(table, ["X"]);
+    storeEntry(table, 0, entry(5));
+    startTableSearch(table, ["X"]);
+    assert.strictEqual(probeTable(table, 0).depth, 5);
+    // The stale deep entry gives way to a shallow current one
+    storeEntry(table, 2, entry(1));
+    storeEntry(table, 4, entry(1));
+    assert.strictEqual(probeTable(table, 0), undefined);
+    assert.ok(probeTable(table, 2) && probeTable(table, 4));
+
+    startTableSearch(table, ["O"]);
+    assert.strictEqual(probeTable(table, 2), undefined);
+    assert.strictEqual(table.generation, 1);
+  });
+
+  it("reports hit rate and fill", () => {
+    const table = tinyTable();
+    startTableSearch(table, ["X"]);
+    storeEntry(table, 1, entry(2));
+    probeTable(table, 1);
+    probeTable(table, 3);
+    assert.deepStrictEqual(getTableStats(table), { hitRate: 0.5, fill: 0.25 });
+    startTableSearch(table, ["X"]);
+    assert.deepStrictEqual(getTableStats(table), { hitRate: 0, fill: 0 });
+  });
+
+  it("round-trips action codes on large boards", () => {
+    const actions = [
+      place(0),
+      place(675),
+      { type: "move", from: 675, to: 3 },
+      { type: "shift", dx: -1, dy: 1 },
+      { type: "shift", dx: 1, dy: -1 },
+      { type: "pass" }
+    ];
+    for (const action of actions) {
+      assert.deepStrictEqual(decodeTableAction(encodeTableAction(action)), action);
+    }
+  });
+
+  it("carries results from one search to the next", () => {
+    for (const core of ["array", "bitboard"]) {
+      const table = createTranspositionTable(1);
+      const fresh = getEngineEvaluations(opening(), "X", new Set(), 4, 3, undefined, "search", core);
+      const first = getEngineEvaluations(opening(), "X", new Set(), 4, 3, undefined, "search", core, false, table);
+      assert.deepStrictEqual(first.evaluations, fresh.evaluations, core);
+      const again = searchIterative(opening(), "X", new Set(), { maxDepth: 4, core, table });
+      assert.ok(again.stats.nodesVisited < first.stats.nodesVisited, core);
+      assert.deepStrictEqual(
+        again.evaluations.map((evaluation) => evaluation.score),
+        fresh.evaluations.map((evaluation) => evaluation.score),
+        core
+      );
+      assert.ok(getTableStats(table).hitRate > 0);
+    }
+  });
+});
@@ -0,0 +1,89 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState } = require("../dist/game");
+const { GRAND_THREE_RULES } = require("../dist/rules");
+const { getEngineEvaluations } = require("../dist/minimax");
+const { Match } = require("../dist/match");
+const { parsePosition } = require("../dist/position");
+const { validateState, checkReachability } = require("../dist/validate");
+
+const place = (index) => ({ type: "place", index });
+const shift = (dx, dy) => ({ type: "shift", dx, dy });
+const codes = (problems) => problems.map((problem) => problem.code);
+
+// Builds a classic state from board rows without going through the parser's checks.
+const buildState = (rows, activeX = 1, activeY = 1) => {
+  const board = rows.join("").split("").map((cell) => (cell === "." ? " " : cell));
+  const count = (player) => board.filter((cell) => cell === player).length;
+  return { ...createInitialState(), board, activeX, activeY, placementsByPlayer: { X: count("X"), O: count("O") } };
+};
+
+describe("State validation", () => {
+  it("accepts the initial position and positions from real games", () => {
+    assert.deepStrictEqual(validateState(createInitialState(), "X"), []);
+    const match = new Match();
+    for (const action of [place(6), place(12), place(7), place(16), shift(1, 0), place(18), { type: "move", from: 6, to: 8 }]) {
+      match.play(action);
+      assert.deepStrictEqual(validateState(match.state, match.currentPlayer), []);
+      assert.strictEqual(checkReachability(match.state, match.currentPlayer), "reachable");
+    }
+  });
+
+  it("reports structural problems", () => {
+    const state = createInitialState();
+    assert.deepStrictEqual(codes(validateState({ ...state, board: state.board.slice(1) }, "X")), ["board-size"]);
+    assert.deepStrictEqual(codes(validateState({ ...state, board: ["Z", ...state.board.slice(1)] }, "X")), ["invalid-cell"]);
+    assert.deepStrictEqual(codes(validateState({ ...state, activeX: 3 }, "X")), ["window-out-of-range"]);
+    assert.deepStrictEqual(codes(validateState({ ...state, placementsByPlayer: { X: 5, O: -1 } }, "X")), [
+      "placements-out-of-range",
+      "placements-out-of-range"
+    ]);
+  });
+
+  it("checks piece counts against placements", () => {
+    const state = buildState([".....", ".X...", "..O..", ".....", "....."]);
+    const problems = validateState({ ...state, placementsByPlayer: { X: 2, O: 1 } }, "O");
+    assert.deepStrictEqual(codes(problems), ["piece-count"]);
+    assert.match(problems[0].message, /X has 1 pieces on the board but 2 placements/);
+  });
+
+  it("checks placements against the side to move", () => {
+    // O has placed more than X, yet X is to move
+    const state = buildState([".....", ".X...", "..OO.", ".....", "....."]);
+    assert.deepStrictEqual(codes(validateState(state, "X")), ["turn-order"]);
+    assert.deepStrictEqual(codes(validateState(state, "X", "structure")), []);
+    // Fine when O opened the game
+    assert.deepStrictEqual(validateState(state, "X", "consistency", "O"), []);
+    // Once both sides may move pegs and shift, any side can be to move
+    const later = buildState([".....", ".XX..", "..OO.", ".....", "....."]);
+    assert.deepStrictEqual(validateState(later, "O", "consistency"), []);
+  });
+
+  it("proves unreachable positions", () => {
+    // X's only piece sits outside the window, but X could never have shifted it
+    const state = buildState(["X....", ".....", "..O..", ".....", "....."]);
+    assert.deepStrictEqual(validateState(state, "X", "consistency"), []);
+    assert.strictEqual(checkReachability(state, "X"), "unreachable");
+    assert.deepStrictEqual(codes(validateState(state, "X")), ["unreachable"]);
+  });
+
+  it("gives up with unknown when the node budget runs out", () => {
+    const state = buildState(["X....", ".....", "..O..", ".....", "....."]);
+    assert.strictEqual(checkReachability(state, "X", "X", 1), "unknown");
+  });
+
+  it("guards loaders and engine entry points", () => {
+    assert.throws(() => parsePosition("X4/5/2O2/5/5 B2 X 1,1"), /No game from the initial position/);
+    assert.throws(() => parsePosition("5/1X3/2OO1/5/5 B2 X 1,2"), /X cannot be to move/);
+    const invalid = buildState(["X....", ".....", "..O..", ".....", "....."]);
+    assert.throws(() => new Match({ initialState: invalid }), /Invalid position/);
+    const data = new Match().toJSON();
+    assert.throws(() => Match.fromJSON({ ...data, initialState: { ...data.initialState, activeX: 0 } }), /Invalid position/);
+    assert.throws(() => getEngineEvaluations({ ...createInitialState(), board: [] }, "X", new Set(), 2), /must have 25 cells/);
+  });
+
+  it("lets either side open a fresh board", () => {
+    const match = new Match({ initialState: createInitialState(GRAND_THREE_RULES), firstPlayer: "O" });
+    assert.strictEqual(match.currentPlayer, "O");
+  });
+});
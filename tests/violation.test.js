@@ -0,0 +1,79 @@
+const assert = require("node:assert");
+const { describe, it } = require("node:test");
+const { createInitialState, applyAction, checkAction, getAvailableActions, RuleViolation } = require("../dist/game");
+const { Match } = require("../dist/match");
+
+const place = (index) => ({ type: "place", index });
+const move = (from, to) => ({ type: "move", from, to });
+const shift = (dx, dy) => ({ type: "shift", dx, dy });
+const codes = (check) => (check.ok ? [] : check.violations.map((violation) => violation.code));
+
+// X on B2 and B3, O on C3 and D2, X to move.
+const opening = () => {
+  let state = createInitialState();
+  for (const [index, player] of [[6, "X"], [12, "O"], [7, "X"], [16, "O"]]) {
+    state = applyAction(state, place(index), player);
+  }
+  return state;
+};
+
+describe("Rule violations", () => {
+  it("accepts legal actions", () => {
+    assert.deepStrictEqual(checkAction(createInitialState(), place(12), "X"), { ok: true });
+    assert.deepStrictEqual(checkAction(opening(), move(6, 8), "X"), { ok: true });
+  });
+
+  it("lists every rule a placement breaks", () => {
+    const state = { ...opening(), placementsByPlayer: { X: 4, O: 2 } };
+    assert.deepStrictEqual(codes(checkAction(state, place(12), "X")), ["placement-limit", "cell-occupied"]);
+    assert.deepStrictEqual(codes(checkAction(createInitialState(), place(0), "X")), ["outside-window"]);
+    assert.deepStrictEqual(codes(checkAction(createInitialState(), place(25), "X")), ["invalid-square"]);
+  });
+
+  it("explains illegal peg moves and shifts", () => {
+    const early = applyAction(createInitialState(), place(6), "X");
+    assert.deepStrictEqual(codes(checkAction(early, move(6, 7), "X")), ["movement-locked"]);
+    assert.deepStrictEqual(codes(checkAction(early, shift(1, 0), "X")), ["movement-locked"]);
+    const state = opening();
+    assert.deepStrictEqual(codes(checkAction(state, move(12, 0), "X")), ["not-own-piece", "destination-outside-window"]);
+    assert.deepStrictEqual(codes(checkAction(state, move(6, 7), "X")), ["destination-occupied"]);
+    assert.deepStrictEqual(codes(checkAction(state, shift(2, 0), "X")), ["invalid-shift"]);
+    assert.deepStrictEqual(codes(checkAction(state, shift(0, 0), "X")), ["invalid-shift"]);
+    assert.deepStrictEqual(codes(checkAction({ ...state, activeX: 2 }, shift(1, 0), "X")), ["shift-off-board"]);
+  });
+
+  it("agrees with the legal action list", () => {
+    const state = opening();
+    const legal = new Set(getAvailableActions(state, "X").map((action) => JSON.stringify(action)));
+    const candidates = [
+      ...state.board.map((_, index) => place(index)),
+      ...state.board.flatMap((_, from) => state.board.map((__, to) => move(from, to))),
+      ...[-1, 0, 1].flatMap((dx) => [-1, 0, 1].map((dy) => shift(dx, dy)))
+    ];
+    for (const action of candidates) {
+      assert.strictEqual(checkAction(state, action, "X").ok, legal.has(JSON.stringify(action)), JSON.stringify(action));
+    }
+  });
+
+  it("throws the first violation as a typed error", () => {
+    try {
+      applyAction(opening(), move(12, 8), "X");
+      assert.fail("expected a RuleViolation");
+    } catch (error) {
+      assert.ok(error instanceof RuleViolation);
+      assert.ok(error instanceof Error);
+      assert.strictEqual(error.name, "RuleViolation");
+      assert.strictEqual(error.code, "not-own-piece");
+      assert.strictEqual(error.message, "Can only move your own pieces");
+    }
+  });
+
+  it("reports finished matches through Match.check", () => {
+    const match = new Match();
+    for (const index of [6, 11, 7, 16, 8]) {
+      match.play(place(index));
+    }
+    assert.deepStrictEqual(codes(match.check(place(12))), ["game-over"]);
+    assert.throws(() => match.play(place(12)), (error) => error instanceof RuleViolation && error.code === "game-over");
+  });
+});
@@ -0,0 +1,91 @@
+const assert = require("node:assert");
+const { describe, it, afterEach } = require("node:test");
+const { createInitialState, applyAction, getAvailableActions, getGameOutcome, getOpponent, getStateKey } = require("../dist/game");
+const { CLASSIC_RULES, GRAND_RULES } = require("../dist/rules");
+const { getEngineEvaluations } = require("../dist/minimax");
+const {
+  hashState,
+  hashAfterAction,
+  getPositionKey,
+  getNextPositionKey,
+  setHashVerification,
+  assertHashConsistent
+} = require("../dist/zobrist");
+
+const createRng = (seed) => () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+
+describe("Zobrist hashing", () => {
+  afterEach(() => setHashVerification(false));
+
+  it("updates incrementally to the same hash as a full recomputation", () => {
+    for (const rules of [CLASSIC_RULES, GRAND_RULES]) {
+      const random = createRng(11);
+      for (let game = 0; game < 10; game += 1) {
+        let state = createInitialState(rules);
+        let hash = hashState(state);
+        let player = "X";
+        for (let ply = 0; ply < 40; ply += 1) {
+          const actions = getAvailableActions(state, player);
+          const action = actions[Math.floor(random() * actions.length)];
+          assert.strictEqual(getNextPositionKey(state, action, player), getPositionKey(applyAction(state, action, player), getOpponent(player)));
+          hash = hashAfterAction(hash, state, action, player);
+          state = applyAction(state, action, player);
+          assert.deepStrictEqual(hash, hashState(state));
+          if (getGameOutcome(state, player)) break;
+          player = getOpponent(player);
+        }
+      }
+    }
+  });
+
+  it("distinguishes the side to move", () => {
+    const state = createInitialState();
+    assert.notStrictEqual(getPositionKey(state, "X"), getPositionKey(state, "O"));
+  });
+
+  it("gives distinct keys to every distinct position seen in random play", () => {
+    const keys = new Map();
+    const random = createRng(3);
+    for (let game = 0; game < 30; game += 1) {
+      let state = createInitialState();
+      let player = "X";
+      for (let ply = 0; ply < 30 && !getGameOutcome(state, getOpponent(player)); ply += 1) {
+        const key = getPositionKey(state, player);
+        const full = getStateKey(state, player);
+        assert.strictEqual(keys.get(key) ?? full, full, "Distinct positions should not share a key");
+        keys.set(key, full);
+        const actions = getAvailableActions(state, player);
+        state = applyAction(state, actions[Math.floor(random() * actions.length)], player);
+        player = getOpponent(player);
+      }
+    }
+  });
+
+  it("reports zero collisions and unchanged results in verification mode", () => {
+    let state = createInitialState();
+    state = applyAction(state, { type: "place", index: 6 }, "X");
+    state = applyAction(state, { type: "place", index: 12 }, "O");
+    for (const core of ["array", "bitboard"]) {
+      const plain = getEngineEvaluations(state, "X", new Set(), 4, 3, undefined, undefined, core);
+      setHashVerification(true);
+      const verified = getEngineEvaluations(state, "X", new Set(), 4, 3, undefined, undefined, core);
+      setHashVerification(false);
+      assert.strictEqual(plain.stats.hashCollisions, undefined);
+      assert.strictEqual(verified.stats.hashCollisions, 0);
+      assert.deepStrictEqual(verified.evaluations, plain.evaluations);
+    }
+  });
+
+  it("detects a hash that drifted from the position", () => {
+    const state = createInitialState();
+    const hash = hashState(state);
+    assert.doesNotThrow(() => assertHashConsistent(hash, state));
+    assert.throws(
+      () => assertHashConsistent({ hi: hash.hi, lo: hash.lo ^ 1 }, state),
+      /Zobrist hash drift detected/
+    );
+  });
+});